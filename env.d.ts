@@ -5,6 +5,8 @@
  */
 interface ImportMetaEnv {
   readonly VITE_GOOGLE_MAPS_API_KEY: string;
+  /** Live feed endpoint to connect to on load (ws://, wss://, http:// or https://). */
+  readonly VITE_LIVE_FEED_URL?: string;
 }
 
 interface ImportMeta {
@@ -15,6 +15,69 @@
 declare const deck: any;
 
 import type * as GeoJSON from 'geojson';
+import { getProp, getConnType, getIERArray, getPointName } from './src/model';
+import { compileTaxonomy, getGroup, getGroupColor, getConnectionStyle, toCssColor } from './src/taxonomy';
+import type { PointType, Taxonomy, TaxonomyConfig } from './src/taxonomy';
+import { validateData, validateTaxonomy, validateRules, schemaFromTaxonomy, formatReport } from './src/validation';
+import type { DataIssue } from './src/validation';
+import { addDataIssuesPanel } from './src/dataIssuesPanel';
+import { encodeViewState, decodeViewState } from './src/viewState';
+import type { ViewState } from './src/viewState';
+import { addSavedViewsPanel } from './src/savedViews';
+import { parseTour, animateCamera } from './src/tours';
+import type { CameraState, Tour, TourHighlight } from './src/tours';
+import { addTourPanel } from './src/tourPanel';
+import type { PathHop } from './src/graph';
+import { addRoutePanel } from './src/routePanel';
+import type { RouteTool } from './src/routePanel';
+import { addMeasurePanel } from './src/measurePanel';
+import type { MeasureTool, MeasureView } from './src/measurePanel';
+import { formatDistance, formatBearing, formatDms, formatMgrs } from './src/measure';
+import { distanceKm, greatCirclePath, rangeRing } from './src/geo';
+import { addNodeFilterPanel } from './src/nodeFilterPanel';
+import type { NodeFilterTool } from './src/nodeFilterPanel';
+import { addStatsPanel } from './src/statsPanel';
+import type { StatsTool, StatsSelection } from './src/statsPanel';
+import { computeStats } from './src/stats';
+import { addRulesPanel } from './src/rulesPanel';
+import type { RulesTool } from './src/rulesPanel';
+import { parseRules } from './src/rules';
+import type { Rule, RuleMatch } from './src/rules';
+import { buildLegend, countKinds, getKindCount, formatKindCount } from './src/legend';
+import { escapeHtml } from './src/html';
+import type { LegendEntry, LegendKind, KindCount } from './src/legend';
+import { EMPTY_NODE_FILTER } from './src/nodeFilter';
+import type { NodeFilter } from './src/nodeFilter';
+import { addResiliencePanel } from './src/resiliencePanel';
+import { addSiteDetailPanel } from './src/detailPanel';
+import type { SiteDetailPanel } from './src/detailPanel';
+import { addSearchBox } from './src/searchBox';
+import { addEditorPanel } from './src/editorPanel';
+import type { EditorTool } from './src/editorPanel';
+import type { EditableData } from './src/editor';
+import { addImportPanel } from './src/importPanel';
+import { addExportMenu } from './src/exportMenu';
+import { addSnapshotPanel } from './src/snapshotPanel';
+import { addLivePanel } from './src/livePanel';
+import { addTracksPanel, DEFAULT_TRACK_OPTIONS } from './src/tracksPanel';
+import type { TrackOptions } from './src/tracksPanel';
+import { parseTracksJson, sampleTrack, trackSpan } from './src/tracks';
+import type { Track, TrackSample, ParsedTracks } from './src/tracks';
+import { applyLiveUpdate } from './src/liveFeed';
+import type { LiveMessage, LiveUpdate } from './src/liveFeed';
+import type { LegendSection } from './src/snapshot';
+import { getTimeSpan, timeExtent, isInWindow, encodeTime, TIME_UNBOUNDED } from './src/timeline';
+import type { TimeWindow } from './src/timeline';
+import { addTimelineControl } from './src/timelineControl';
+import { FlowArcLayer, flowDashCount } from './src/flowLayer';
+import { createContext, buildModel, buildEdges, explainRules, processNode, buildCluster, locationKey, aggregateEdges, isEdgeVisible, isAggregatedEdgeVisible, isIerEdgeVisible, isClusterVisible, isNodeVisible } from './src/pipeline';
+import type { Node, Edge, AggregatedEdge, PinCluster, RawPoint, FilterState, PipelineContext } from './src/pipeline';
+import { getLinkStatus, countLinkStatuses, linkStatusBadge, LINK_STATUSES, LINK_STATUS_STYLES } from './src/linkStatus';
+import type { LinkStatus } from './src/linkStatus';
+import type { TimelineControl } from './src/timelineControl';
+import type { ExportPin, ExportLink, ExportView } from './src/exporters';
+import type { ResilienceTool, ResilienceView } from './src/resiliencePanel';
+import { resolveIconKind, getIconAsset, getIconPose, preloadIconAssets, renderIconLegend, ICON_REGISTRY, ICON_ASSET_SIZE } from './src/icons';
 
 // Destructure Deck.gl layer constructors for easier access.
 const { ScatterplotLayer, ArcLayer, GoogleMapsOverlay, DataFilterExtension, TextLayer } = deck;
@@ -82,6 +145,9 @@ const BLACK_MAP_STYLE: google.maps.MapTypeStyle[] = [
     },
 ];
 
+/** Map types offered in the map type control, in display order. */
+const MAP_TYPE_IDS: string[] = ["no_labels_map", "white_map", "black_map", "satellite"];
+
 // ---------------------- Types & Data ----------------------
 
 /** Custom properties for GeoJSON features. */
@@ -99,49 +165,29 @@ type Data = GeoJSON.FeatureCollection<GeoJSON.Geometry, Properties> | any[];
 // Data sources
 const CONNECTIONS_DATA_URL: string = "database/connections.json";
 const POINTS_DATA_URL: string = "database/points.json";
-
-let processedConnections: any[] = [];
-let processedPins: any[] = [];
-let overlappingPins: any[] = [];
-let aggregatedConnections: any[] = []; // Holds connections aggregated by source/target pair.
+const TAXONOMY_DATA_URL: string = "database/taxonomy.json";
+/** Optional position histories of the moving assets. */
+const TRACKS_DATA_URL: string = "database/tracks.json";
+/** Optional connection rules: which connections to include, exclude, restyle or relabel. */
+const RULES_DATA_URL: string = "database/rules.json";
+const TOURS_BASE_URL: string = "database/tours/";
+
+/** Pin groups, connection types and IER categories, loaded from TAXONOMY_DATA_URL. */
+let taxonomy: Taxonomy;
+/** Connection rules loaded from RULES_DATA_URL, evaluated while deriving the data. */
+let connectionRules: Rule[] = [];
+let rulesTool: RulesTool | null = null;
+
+let processedConnections: Edge[] = [];
+let processedPins: Node[] = [];
+let overlappingPins: PinCluster[] = [];
+let aggregatedConnections: AggregatedEdge[] = []; // Holds connections aggregated by source/target pair.
+let dataIssues: DataIssue[] = []; // Validation results for the raw data files.
+let sourceData: EditableData = { points: [], connections: [] }; // Records as read from the data files (or as edited).
+let pointMap = new Map<string, RawPoint>(); // Points by name; connections resolve their endpoints here.
 
 // ---------------------- Helper Functions ----------------------
 
-/**
- * Retrieve a property from an object, optionally checking nested 'properties'.
- */
-function getProp(d: any, key: string): any {
-    return d?.[key] ?? d?.properties?.[key];
-}
-
-/**
- * Normalize and return the connection type for a feature.
- * Converts types like "N_TYPE" to "N" and ensures the result is uppercase. */
-function getConnType(d: any): string {
-    const t = getProp(d, "Connection_type") ?? getProp(d, "connection_type");
-    const up = String(t ?? "").trim().toUpperCase();
-    if (up === "N_TYPE") return "N";
-    return up; // "N" | "C" | "HF" | (others)
-}
-
-/**
- * Get the IER property of a connection and return it as an uppercased string array.
- */
-function getIERArray(d: any): string[] {
-    const ierValue = getProp(d, "IER");
-    if (Array.isArray(ierValue)) {
-        return ierValue.map(item => String(item ?? '').toUpperCase());
-    }
-    return [];
-}
-
-/**
- * Retrieve the name property from a feature.
- */
-function getPointName(d: any): string {
-    return getProp(d, "name") ?? "";
-}
-
 /**
  * Toggle display of a DOM element.
  */
@@ -150,236 +196,45 @@ function toggleDisplay(el: HTMLElement, force?: boolean) {
     el.style.display = shouldShow ? "flex" : "none";
 }
 
-/**
- * Generates an SVG data URL for a pie chart icon.
- * @param colors - An array of RGBA color arrays for the pie slices.
- * @returns A string containing the data URL for the SVG icon.
- */
-function createPieIcon(colors: [number, number, number, number][]): string {
-    const radius = 12;
-    const diameter = radius * 2;
-    const numSlices = colors.length;
-
-    if (numSlices === 0) return '';
-    if (numSlices === 1) {
-        const [r, g, b, a] = colors[0];
-        return `data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='${diameter}' height='${diameter}' viewBox='0 0 ${diameter} ${diameter}'%3E%3Ccircle cx='${radius}' cy='${radius}' r='${radius}' fill='rgba(${r},${g},${b},${a/255})' stroke='black' stroke-width='1' /%3E%3C/svg%3E`;
-    }
-
-    const sliceAngle = 360 / numSlices;
-    let svg = `<svg xmlns='http://www.w3.org/2000/svg' width='${diameter}' height='${diameter}' viewBox='0 0 ${diameter} ${diameter}'>`;
-
-    let startAngle = -90;
-    for (let i = 0; i < numSlices; i++) {
-        const endAngle = startAngle + sliceAngle;
-        const [r, g, b, a] = colors[i];
-        const x1 = radius + radius * Math.cos(Math.PI * startAngle / 180);
-        const y1 = radius + radius * Math.sin(Math.PI * startAngle / 180);
-        const x2 = radius + radius * Math.cos(Math.PI * endAngle / 180);
-        const y2 = radius + radius * Math.sin(Math.PI * endAngle / 180);
-        const largeArcFlag = sliceAngle > 180 ? 1 : 0;
-        svg += `<path d='M${radius},${radius} L${x1},${y1} A${radius},${radius} 0 ${largeArcFlag},1 ${x2},${y2} Z' fill='rgba(${r},${g},${b},${a/255})' stroke='black' stroke-width='1' />`;
-        startAngle = endAngle;
-    }
-
-    svg += `</svg>`;
-    return `data:image/svg+xml,${encodeURIComponent(svg)}`;
-}
-
 // ---------------------- Pin Type Logic ----------------------
 
-/** Defines the possible color-coded groups for pins. */
-type PointType =
-    | "YELLOW_GROUP"
-    | "PURPLE_GROUP"
-    | "ORANGE_GROUP"
-    | "GREEN_GROUP"
-    | "RED_GROUP"
-    | "TURQUOISE_GROUP"
-    | "VIOLET_GROUP"
-    | "BLUE_GROUP"
-    | "PINK_GROUP"
-    | "WHITE_GROUP"
-    | "OKC_GROUP"
-    | "MAGENTA_GROUP" | "GREY_GROUP" | "PEACH_GROUP";
-
-/**
- * Encapsulates pin group logic for mapping pin names to colors and types.
- */
-const PinLogic = {
-    ALL_POINT_TYPES: [
-        "RED_GROUP", "TURQUOISE_GROUP", "YELLOW_GROUP", "GREEN_GROUP",
-        "PURPLE_GROUP", "ORANGE_GROUP", "BLUE_GROUP", "VIOLET_GROUP",
-        "PINK_GROUP", "WHITE_GROUP", "MAGENTA_GROUP", "OKC_GROUP", "GREY_GROUP", "PEACH_GROUP",
-    ] as PointType[],
-
-    // RGBA color map for each pin group
-    PIN_COLOR_MAP: {
-        RED_GROUP: [200, 0, 0, 220],
-        TURQUOISE_GROUP: [64, 224, 208, 220],
-        YELLOW_GROUP: [255, 255, 0, 220],
-        GREEN_GROUP: [0, 128, 0, 220],
-        PURPLE_GROUP: [128, 0, 128, 220],
-        ORANGE_GROUP: [255, 165, 0, 220],
-        BLUE_GROUP: [0, 120, 255, 220],
-        VIOLET_GROUP: [130, 42, 245, 220],
-        PINK_GROUP: [255, 105, 180, 220],
-        WHITE_GROUP: [197, 110, 255, 255],
-        MAGENTA_GROUP: [255, 0, 255, 255],
-        GREY_GROUP: [169, 169, 169, 220],
-        OKC_GROUP: [0, 255, 255, 220],
-        PEACH_GROUP: [255, 143, 180, 220]
-    } as Record<PointType, [number, number, number, number]>,
-
-    // Pin name to group mapping
-    // NOTE: There is a typo in the original data. "Site A", "Site B", and "Site C"
-    // are assigned to ORANGE_GROUP under a WHITE_GROUP comment block. This has been preserved.
-    // Similarly, "Beale HFCGS" is assigned to MAGENTA_GROUP under a comment for that group,
-    // but "Bale HFCGS" is assigned to GREEN_GROUP.
-    // Any pin name not found in this map will default to BLUE_GROUP.
-    PIN_LOOKUP_MAP: {
-        // VIOLET_GROUP
-        "sb": "VIOLET_GROUP",
-        "Ship" : "VIOLET_GROUP",
-
-        // YELLOW_GROUP
-        "Point 13": "YELLOW_GROUP",
-        "E6-1": "YELLOW_GROUP",
-        "E6-2": "YELLOW_GROUP",
-        "E6-3": "YELLOW_GROUP",
-        "E6-4": "YELLOW_GROUP",
-        "E6-5": "YELLOW_GROUP",
-        "E6-6": "YELLOW_GROUP",
-        "E6-7": "YELLOW_GROUP",
-        "E6-8": "YELLOW_GROUP",
-
-        // PURPLE_GROUP
-        "Support Team": "PURPLE_GROUP",
-        "B": "PURPLE_GROUP",
-
-        // GREEN_GROUP
-        "Bale HFCGS": "GREEN_GROUP",
-        "M": "GREEN_GROUP",
-        "NE": "GREEN_GROUP",
-        "bg": "GREEN_GROUP",
-
-        // RED_GROUP
-        "FOB1": "RED_GROUP",
-        "FOB2": "RED_GROUP",
-
-        // TURQUOISE_GROUP
-        "PENT": "TURQUOISE_GROUP",
-        "COS": "TURQUOISE_GROUP",
-        "TB": "TURQUOISE_GROUP",
-        "RR": "TURQUOISE_GROUP",
-        "AZ": "TURQUOISE_GROUP",
-        "IP": "TURQUOISE_GROUP",
-
-        // PINK_GROUP
-        "SAN": "PINK_GROUP",
-        "SBL": "PINK_GROUP",
-
-        // WHITE_GROUP
-        "Site A": "ORANGE_GROUP",
-        "Site B": "ORANGE_GROUP",
-        "Site C": "ORANGE_GROUP",
-
-        // WHITE_GROUP
-        "Cutler": "WHITE_GROUP",
-        "Grindavik": "WHITE_GROUP",
-        "Awase": "WHITE_GROUP",
-        "Harold E. Holt": "WHITE_GROUP",
-        "Aguada": "WHITE_GROUP",
-        "Naples": "WHITE_GROUP",
-        "Dixon": "WHITE_GROUP",
-        "Jim Creek": "WHITE_GROUP",
-        "La Moure": "WHITE_GROUP",
-        "Norfolk": "WHITE_GROUP",
-        "Yokosuka": "WHITE_GROUP",
-        "LUL" : "WHITE_GROUP",
-
-        // MAGENTA_GROUP HFGCS
-        "H_AK": "MAGENTA_GROUP",
-        "Beale HFCGS": "MAGENTA_GROUP",
-        "E": "MAGENTA_GROUP",
-        "Point 6": "MAGENTA_GROUP",
-        "Grand Forks": "MAGENTA_GROUP",
-        "Wahiawa": "MAGENTA_GROUP",
-
-        "LRT1": "GREY_GROUP",
-        "LRT2": "GREY_GROUP",
-        "LRT3" : "GREY_GROUP",
-
-        "MOB": "OKC_GROUP",
-
-        "NAOC" : "PEACH_GROUP"
-
-    } as Record<string, PointType>,
-};
-
 let activePointTypes = new Set<PointType>();
 let activeTypes = new Set<string>();
 let activeIerTypes = new Set<string>();
 
 /**
- * Determine pin type (group) from a feature.
+ * Determine pin type (group) from a feature using the taxonomy's membership rules.
  */
 function getPinType(d: any): PointType {
-    const name = getPointName(d);
-    return PinLogic.PIN_LOOKUP_MAP[name] ?? "BLUE_GROUP";
+    return getGroup(taxonomy, d);
 }
 
 /**
  * Get RGBA color for a pin feature based on type.
- * Defaults to BLUE_GROUP color if the type is not found. */
+ * Defaults to the taxonomy's default group color if the type is not found. */
 function colorPinkByType(d: any): [number, number, number, number] {
-    return PinLogic.PIN_COLOR_MAP[getPinType(d)] ?? [0, 120, 255, 220]; // Default to BLUE_GROUP color
+    return getGroupColor(taxonomy, getPinType(d));
 }
 
 // ---------------------- Connection Styling & Labeling ----------------------
 
-type ConnType = "N" | "C" | "HF" | "RT" | "TR" | "SAT" | "HF L" | "U L" | "SL" | "V";
-const ALL_TYPES: string[] = ["N", "C", "HF", "RT", "TR", "SAT", "HF L", "U L", "SL" , "V"];
-
 /** Flag to control visibility of on-map connection labels. */
 let showConnectionLabels = false;
 /** Flag to control visibility of on-map pin labels. */
 let showPinLabels = false;
 
 /**
- * Get RGBA color for a connection feature based on type.
+ * Get RGBA color for a connection feature based on type, unless a restyle rule overrides it.
  */
 function colorByTypeRGBA(d: any): [number, number, number, number] {
-    switch (getConnType(d)) {
-        case "N": return [0, 128, 200, 220]; // Blue
-        case "TR": return [255, 165, 0, 220]; // Orange
-        case "C": return [0, 200, 0, 220];
-        case "RT": return [200, 0, 0, 220]; // Now Red
-        case "HF": return [255, 105, 180, 220]; // Now Pink
-        case "SAT": return [79, 201, 75, 220];
-        case "HF L": return [255, 255, 0, 220];
-        case "U L": return [8, 232, 222, 220]; // Turquoise-like
-        case "SL": return [255, 0, 127, 220]; // Hot Pink
-        case "V" : return [113, 115, 255, 220];
-
-        default: return [128, 128, 128, 200]; // Default Grey
-    }
+    return d?._style?.color ?? getConnectionStyle(taxonomy, getConnType(d)).color;
 }
 
 /**
- * Get tilt value for a connection feature based on type.
+ * Get tilt value for a connection feature based on type, unless a restyle rule overrides it.
  */
 function getHeightByType(d: any): number {
-    switch (getConnType(d)) {
-        //case "N": return 5;
-        //case "C": return 10; // Example of unused height
-        case "SL": return 0.96;
-        case "SAT": return 0.9;
-        case "HF L": return 0.8;
-        case "U L": return 0.7;
-        case "HF": return 0.5;
-        default: return 0.5;
-    }
+    return d?._style?.height ?? getConnectionStyle(taxonomy, getConnType(d)).height;
 }
 
 /**
@@ -472,56 +327,142 @@ function getAggregatedWidth(d: any): number {
 
 // ---------------------- Filtering (GPU) ----------------------
 
-// Coordinates for specific locations used in filtering.
-const HUB_LNG = -82.492696;
-const HUB_LAT = 27.8602;
-const HUB_EPS = 1e-6;
-let hideHubConnections = false;
+/** Sites chosen in the focus / exclude panel: their links are hidden, or the only ones shown. */
+let nodeFilter: NodeFilter = EMPTY_NODE_FILTER;
+let nodeFilterTool: NodeFilterTool | null = null;
 
-const HUB2_LNG = 9.077841; // EU
-const HUB2_LAT = 48.734481;
-let hideHub2Connections = false;
+/** Statistics dashboard; clicking its charts applies filters. */
+let statsTool: StatsTool | null = null;
 
 let showAggregatedConnections = false; // State for toggling aggregated layer
+/** Flow mode: dashes travel along the visible arcs, animated by `animateLayers`. */
+let showFlow = false;
+let animationFrame: number | null = null;
+
+/** Status-aware link styling: down links outlined in red, degraded ones pulsed, unknown ones faded. */
+let showLinkStatus = false;
+/** Link statuses passing the status filter. */
+let activeStatuses = new Set<LinkStatus>(LINK_STATUSES);
+const UNKNOWN_STATUS_ALPHA = 0.3;
+
+/** Site or link emphasised by the running tour, if any. */
+let tourHighlight: TourHighlight | null = null;
+
+/** Path traced by the route tool; while set, other arcs are dimmed. */
+let routePath: PathHop[] | null = null;
+let routeTool: RouteTool | null = null;
+
+/** Polyline and range rings drawn by the measure tool; while measuring, map clicks add points. */
+let measureView: MeasureView | null = null;
+let measureTool: MeasureTool | null = null;
+const MEASURE_COLOR: [number, number, number, number] = [255, 215, 0, 255];
+
+/** Site chosen with "Only this site's links" in the detail panel; other links are hidden while set. */
+let siteFilter: string | null = null;
+let siteDetailPanel: SiteDetailPanel | null = null;
+
+/** Site picked in the search box, pulsed for a few seconds after the camera arrives. */
+let searchPulse: { name: string; startedAt: number } | null = null;
+/** Pin group the search enabled to reveal its result; hidden again by the next search. */
+let searchRevealedGroup: PointType | null = null;
+const SEARCH_PULSE_MS = 3000;
+
+/** In-browser editor for the source data; while editing, pin and map clicks go to it. */
+let editorTool: EditorTool | null = null;
+
+/** Single-point-of-failure analysis and simulated failures shown by the resilience tool. */
+let resilienceView: ResilienceView | null = null;
+let resilienceTool: ResilienceTool | null = null;
+const FAILED_LINK_COLOR: [number, number, number, number] = [120, 120, 120, 90];
 
-/** State for the demonstration sequence. */
-let demoStep = 0;
+/**
+ * Return true if a connection (or aggregated connection) touches a site failed in the resilience tool.
+ */
+function touchesFailedSite(d: any): boolean {
+    return !!resilienceView && (resilienceView.failed.has(getPointName(d?.from)) || resilienceView.failed.has(getPointName(d?.to)));
+}
 
 /**
- * Helper for proximity comparison.
+ * Fade a link colour when the status-aware style is on and the link's status is unknown.
  */
-function near(a: number, b: number, eps = HUB_EPS) {
-    return Math.abs(a - b) <= eps;
+function withStatusStyle(color: [number, number, number, number], status: LinkStatus): [number, number, number, number] {
+    return showLinkStatus && status === "unknown" ? [color[0], color[1], color[2], Math.round(color[3] * UNKNOWN_STATUS_ALPHA)] : color;
 }
 
 /**
- * Return true if a connection touches HUB 1 coordinates.
+ * Colour accessor for arcs: the connection type colour, or grey once an endpoint has failed.
  */
-function connectsToHub(d: any): boolean {
-    const s = getSourcePos(d);
-    const t = getTargetPos(d);
-    if (!Array.isArray(s) || !Array.isArray(t)) return false;
-    const [slng, slat] = s;
-    const [tlng, tlat] = t;
-    return (near(slng, HUB_LNG) && near(slat, HUB_LAT)) ||
-           (near(tlng, HUB_LNG) && near(tlat, HUB_LAT));
+function arcColor(d: any): [number, number, number, number] {
+    return touchesFailedSite(d) ? FAILED_LINK_COLOR : withStatusStyle(colorByTypeRGBA(d), d._status);
 }
 
 /**
- * Return true if a connection touches HUB 2 coordinates.
+ * Colour accessor for aggregated arcs, faded by their combined status like `arcColor`.
  */
-function connectsToHub2(d: any): boolean {
-    const s = getSourcePos(d);
-    const t = getTargetPos(d);
-    if (!Array.isArray(s) || !Array.isArray(t)) return false;
-    const [slng, slat] = s;
-    const [tlng, tlat] = t;
-    return (near(slng, HUB2_LNG) && near(slat, HUB2_LAT)) ||
-           (near(tlng, HUB2_LNG) && near(tlat, HUB2_LAT));
+function aggregatedArcColor(d: any): [number, number, number, number] {
+    return touchesFailedSite(d) ? FAILED_LINK_COLOR : withStatusStyle(getAggregatedColor(d), d._status);
+}
+
+/**
+ * Key that changes whenever the failed sites change, for arc colour update triggers.
+ */
+function failureKey() {
+    return resilienceView ? Array.from(resilienceView.failed).sort().join("|") : "";
+}
+
+/**
+ * Tooltip line rolling up the status of a site's links, e.g. "2 of 5 links down"; empty when none is known.
+ */
+function linkStatusBadgeHtml(name: string): string {
+    const badge = linkStatusBadge(countLinkStatuses(processedConnections, name));
+    return badge ? `<div style="color:${toCssColor(LINK_STATUS_STYLES[badge.status].color)};">&#x25CF; ${badge.text}</div>` : '';
+}
+
+/**
+ * Key that changes with the inputs of the arc colour accessors, for their update triggers.
+ */
+function arcColorKey() {
+    return `${failureKey()}|status:${showLinkStatus ? 1 : 0}`;
 }
 
+// Time window from the timeline control (null shows all times), and the origin times are encoded from.
+let timeWindow: TimeWindow | null = null;
+let timeOrigin = 0;
+let timelineControl: TimelineControl | null = null;
+
+/** Asset tracks, the names they belong to, and each tracked asset's position at `trackTime()`. */
+let tracks: Track[] = [];
+let trackedNames = new Set<string>();
+let trackSamples = new Map<string, TrackSample>();
+let trackOptions: TrackOptions = DEFAULT_TRACK_OPTIONS;
+
 let overlay: any;
-const dataFilterExt = new deck.DataFilterExtension({ filterSize: 1 });
+// Filter values are [passes the filters, start, end]; see filterValue() and filterRange().
+const dataFilterExt = new deck.DataFilterExtension({ filterSize: 3 });
+
+/**
+ * Filter value for a record: 1 if it passes the filters, then its start and end as GPU filter minutes.
+ */
+function filterValue(visible: boolean, d: any): [number, number, number] {
+    return [visible ? 1 : 0, d._t0 ?? -TIME_UNBOUNDED, d._t1 ?? TIME_UNBOUNDED];
+}
+
+/**
+ * Filter range matching `filterValue`: passes the filters, starts before the window ends and
+ * ends after it starts. Moving the window only changes this range, so scrubbing stays cheap.
+ */
+function filterRange(): [number, number][] {
+    const start = timeWindow ? encodeTime(timeWindow.start, timeOrigin) : -TIME_UNBOUNDED;
+    const end = timeWindow ? encodeTime(timeWindow.end, timeOrigin) : TIME_UNBOUNDED;
+    return [[1, 1], [-TIME_UNBOUNDED, end], [start, TIME_UNBOUNDED]];
+}
+
+/**
+ * True if a connection or pin exists during the time window.
+ */
+function isInTimeWindow(d: any): boolean {
+    return isInWindow(d._span ?? getTimeSpan(d), timeWindow);
+}
 
 /**
  * Generates a key representing the current filter state for Deck.gl update triggers.
@@ -529,115 +470,329 @@ const dataFilterExt = new deck.DataFilterExtension({ filterSize: 1 });
 function filterKey() {
     return [
         Array.from(activeTypes).sort().join(","),
-        `hub1:${hideHubConnections ? 1 : 0}`,
-        `hub2:${hideHub2Connections ? 1 : 0}`,
+        `nodes:${nodeFilter.mode}:${nodeFilter.names.join(",")}`,
         Array.from(activePointTypes).sort().join(","),
         Array.from(activeIerTypes).sort().join(","),
         `aggregated:${showAggregatedConnections ? 1 : 0}`, // Add aggregated connections state
+        `site:${siteFilter ?? ""}`,
+        `status:${Array.from(activeStatuses).sort().join(",")}`,
     ].join("|") + `|connLabels:${showConnectionLabels ? 1 : 0}` +
       `|pinLabels:${showPinLabels ? 1 : 0}`;
 }
 
+// ---------------------- Filter Predicates ----------------------
+// Shared by the layers' DataFilterExtension accessors and by exports of the filtered view.
+
+/**
+ * Current state of the filter controls, for the pipeline's predicates.
+ */
+function currentFilters(): FilterState {
+    return {
+        connTypes: activeTypes,
+        pinGroups: activePointTypes,
+        ierTypes: activeIerTypes,
+        statuses: activeStatuses,
+        nodeFilter,
+        site: siteFilter,
+    };
+}
+
+/**
+ * Filtering logic for connections; see `isEdgeVisible`.
+ */
+function isConnectionVisible(d: Edge): boolean {
+    return isEdgeVisible(d, currentFilters());
+}
+
+/**
+ * Filtering logic for aggregated connections: visible if *any* of the constituent types (and statuses) are active.
+ */
+function isAggregatedConnectionVisible(d: AggregatedEdge): boolean {
+    return isAggregatedEdgeVisible(d, currentFilters());
+}
+
+/**
+ * Filtering logic for the IER view: a connection is visible if at least one of its IER types is active,
+ * regardless of its connection type.
+ */
+function isIerConnectionVisible(d: Edge): boolean {
+    return isIerEdgeVisible(d, currentFilters());
+}
+
+/**
+ * A pin group (overlapping pins) is visible if any of its constituent pin types are active.
+ */
+function isPinGroupVisible(d: PinCluster): boolean {
+    return isClusterVisible(d, currentFilters());
+}
+
+/**
+ * A single pin is visible if its pin type is active.
+ */
+function isPinVisible(d: Node): boolean {
+    return isNodeVisible(d, currentFilters());
+}
+
+/**
+ * A connection is shown if it passes the filters of the current view (IER or by type) and is in
+ * the time window. Used for counts and statistics.
+ */
+function isConnectionShown(d: Edge): boolean {
+    return (activeIerTypes.size > 0 ? isIerConnectionVisible(d) : isConnectionVisible(d)) && isInTimeWindow(d);
+}
+
+/**
+ * A pin is shown if its group is active and it is in the time window.
+ */
+function isPinShown(d: Node): boolean {
+    return isPinVisible(d) && isInTimeWindow(d);
+}
+
+/**
+ * Collect the pins and links that pass the current filters and time window, from the same data
+ * and predicates the visible layers use: the IER view, the aggregated view or individual links.
+ */
+function getVisibleView(): ExportView {
+    const pins: ExportPin[] = processedPins.filter(p => isPinVisible(p) && isInTimeWindow(p)).map(p => ({
+        name: getPointName(p),
+        position: p.geometry.coordinates as [number, number],
+        group: p._pinType,
+        groupLabel: taxonomy.groupByKey.get(p._pinType)?.label ?? p._pinType,
+        color: colorPinkByType(p),
+        properties: { ...p.properties },
+    }));
+
+    const aggregated = activeIerTypes.size === 0 && showAggregatedConnections;
+    const links: ExportLink[] = aggregated
+        ? aggregatedConnections.filter(isAggregatedConnectionVisible).map(d => ({
+            from: getPointName(d.from),
+            to: getPointName(d.to),
+            fromPosition: d._sourcePos,
+            toPosition: d._targetPos,
+            types: d._connTypes,
+            ier: d._ierTypes,
+            count: d._count,
+            color: getAggregatedColor(d),
+        }))
+        : processedConnections.filter(d => (activeIerTypes.size > 0 ? isIerConnectionVisible(d) : isConnectionVisible(d)) && isInTimeWindow(d)).map(d => ({
+            from: getPointName(d.from),
+            to: getPointName(d.to),
+            fromPosition: d._sourcePos,
+            toPosition: d._targetPos,
+            types: [d._connType],
+            ier: d._ierTypes,
+            count: 1,
+            color: colorByTypeRGBA(d),
+        }));
+
+    return { pins, links, aggregated };
+}
+
+/**
+ * Legend for snapshots: only the checked connection types and pin groups, in taxonomy order.
+ */
+function getSnapshotLegend(): LegendSection[] {
+    return [
+        { title: "Connections", items: taxonomy.connectionTypes.filter(t => activeTypes.has(t.key)).map(t => ({ label: t.key, color: t.color })) },
+        { title: "Pins", items: taxonomy.groups.filter(g => activePointTypes.has(g.key)).map(g => ({ label: g.label, color: g.color })) },
+        ...(showLinkStatus ? [{
+            title: "Link status",
+            items: LINK_STATUSES.filter(s => activeStatuses.has(s)).map(s => ({ label: LINK_STATUS_STYLES[s].label, color: LINK_STATUS_STYLES[s].color })),
+        }] : []),
+    ];
+}
+
+/**
+ * Static Maps equivalent of the map's current map type.
+ */
+function getStaticBasemap(map: google.maps.Map): { mapType: string; styles: google.maps.MapTypeStyle[] } {
+    switch (map.getMapTypeId()) {
+        case "satellite": return { mapType: "satellite", styles: [] };
+        case "white_map": return { mapType: "roadmap", styles: WHITE_MAP_STYLE };
+        case "black_map": return { mapType: "roadmap", styles: BLACK_MAP_STYLE };
+        default: return { mapType: "roadmap", styles: PERMANENT_HIDE_LABELS_STYLE };
+    }
+}
+
 // ---------------------- Build Layers ----------------------
 
+/**
+ * Opacity of the degraded-link pulse at a time in seconds: one slow breath every 1.5 s.
+ */
+function statusPulseOpacity(seconds: number): number {
+    return 0.25 + 0.75 * (0.5 + 0.5 * Math.sin((seconds * 2 * Math.PI) / 1.5));
+}
+
+/**
+ * Animation loop for flow mode and degraded-link pulses: each frame only the animated layers
+ * are cloned with a new time, so the other layers and all attributes are left alone. Stops
+ * once neither is shown.
+ */
+function animateLayers() {
+    if ((!showFlow && !showLinkStatus) || !overlay) {
+        animationFrame = null;
+        return;
+    }
+    const now = performance.now() / 1000;
+    const layers: any[] = overlay.props.layers;
+    // Skip the redraw while the status style is on but no degraded link is shown.
+    if (layers.some(layer => (layer.id === 'flow' || layer.id === 'status-pulse') && layer.props.data.length > 0)) {
+        overlay.setProps({
+            layers: layers.map(layer =>
+                layer.id === 'flow' ? layer.clone({ flowTime: now }) :
+                layer.id === 'status-pulse' ? layer.clone({ opacity: statusPulseOpacity(now) }) :
+                layer),
+        });
+    }
+    animationFrame = requestAnimationFrame(animateLayers);
+}
+
+/**
+ * Start the animation loop if it isn't running.
+ */
+function startAnimation() {
+    if (animationFrame === null) animationFrame = requestAnimationFrame(animateLayers);
+}
+
 /**
  * Constructs and returns all Deck.gl layers for the map overlay.
  */
 function buildLayers(connectionsData: any[], pinsData: any[]) {
     const isIerFilterActive = activeIerTypes.size > 0;
-    /**
-     * Shared filtering logic for connections. A connection is visible if:
-     * 1. Its connection type is active.
-     * 2. It's not a hidden HUB connection.
-     * 3. The pin types of BOTH its start and end points are active.
-     */
-    const getConnectionFilterValue = (d: any) => {
-        const sourcePinTypeVisible = activePointTypes.has(d._sourcePinType);
-        const targetPinTypeVisible = activePointTypes.has(d._targetPinType);
-        // When IER filters are inactive, this part of the filter is ignored.
-        const ierVisible = !isIerFilterActive || d._ierTypes.some((ierType: string) => activeIerTypes.has(ierType));
-
-        return (
-            activeTypes.has(d._connType) &&
-            (!hideHubConnections || !d._isHub1) &&
-            (!hideHub2Connections || !d._isHub2) &&
-            sourcePinTypeVisible && targetPinTypeVisible && ierVisible
-        ) ? 1 : 0;
-    };
+    // Dim the regular arcs while a traced route is shown on its own layer, or under the flow dashes.
+    const arcOpacity = routePath ? 0.15 : showFlow ? 0.35 : 1;
+    const getConnectionFilterValue = (d: any) => filterValue(isConnectionVisible(d), d);
+    const getAggregatedFilterValue = (d: any) => filterValue(isAggregatedConnectionVisible(d), d);
 
     // Layer for the main connection lines (arcs).
     const connectionsLayer = new ArcLayer({
         id: "flights",
+        opacity: arcOpacity,
         // Hide this layer if IER filters are active or if aggregated view is on.
         data: isIerFilterActive || showAggregatedConnections ? [] : connectionsData,
         getSourcePosition: (d: any) => getSourcePos(d),
         getTargetPosition: (d: any) => getTargetPos(d),
-        getSourceColor: colorByTypeRGBA,
-        getTargetColor: (d: any) => colorByTypeRGBA(d), // Use same color for target for a solid line
+        getSourceColor: arcColor,
+        getTargetColor: (d: any) => arcColor(d), // Use same color for target for a solid line
         getHeight: (d: any) => getHeightByType(d),
         getWidth: 2,
         pickable: true, // Allow picking (hover, click)
         greatCircle: true,
         getFilterValue: getConnectionFilterValue,
-        filterRange: [1, 1],
+        filterRange: filterRange(),
         extensions: [dataFilterExt],
-        updateTriggers: { getFilterValue: filterKey() }
+        updateTriggers: { getFilterValue: filterKey(), getSourceColor: arcColorKey(), getTargetColor: arcColorKey() }
     });
 
     // New layer for aggregated connections, showing thickness based on count
     const aggregatedConnectionsLayer = new ArcLayer({
         id: "aggregated-connections",
+        opacity: arcOpacity,
         // Show only if aggregated view is on AND IER filters are not active.
         data: !isIerFilterActive && showAggregatedConnections ? aggregatedConnections : [],
         getSourcePosition: (d: any) => d._sourcePos,
         getTargetPosition: (d: any) => d._targetPos,
-        getSourceColor: getAggregatedColor,
-        getTargetColor: getAggregatedColor,
+        getSourceColor: aggregatedArcColor,
+        getTargetColor: aggregatedArcColor,
         // Thickness scales with the number of aggregated connections
         getWidth: (d: any) => getAggregatedWidth(d), // Adjust multiplier for desired thickness
         getHeight: (d: any) => 0.5, // Use a consistent height for aggregated arcs
         pickable: true,
         greatCircle: true,
         // Filter based on whether *any* of the constituent types are active
-        getFilterValue: (d: any) => {
-            const anyConnTypeActive = d._connTypes.some((type: string) => activeTypes.has(type));
-            const sourcePinTypeVisible = activePointTypes.has(d._sourcePinType);
-            const targetPinTypeVisible = activePointTypes.has(d._targetPinType);
-            // When IER filters are inactive, this part of the filter is ignored.
-            const ierVisible = !isIerFilterActive || d._ierTypes.some((ierType: string) => activeIerTypes.has(ierType));
-            return (anyConnTypeActive && (!hideHubConnections || !d._isHub1) && (!hideHub2Connections || !d._isHub2) && sourcePinTypeVisible && targetPinTypeVisible && ierVisible) ? 1 : 0;
-        },
-        filterRange: [1, 1],
+        getFilterValue: getAggregatedFilterValue,
+        filterRange: filterRange(),
         extensions: [dataFilterExt],
-        updateTriggers: { getFilterValue: filterKey() }
+        updateTriggers: { getFilterValue: filterKey(), getSourceColor: arcColorKey(), getTargetColor: arcColorKey() }
     });
 
     // New layer specifically for IER-filtered connections.
     const ierConnectionsLayer = new ArcLayer({
         id: "ier-connections",
+        opacity: arcOpacity,
         // Only show this layer if an IER filter is active.
         data: isIerFilterActive ? connectionsData : [],
         getSourcePosition: (d: any) => getSourcePos(d),
         getTargetPosition: (d: any) => getTargetPos(d),
-        getSourceColor: colorByTypeRGBA, // Color by connection type
-        getTargetColor: colorByTypeRGBA,
+        getSourceColor: arcColor, // Color by connection type
+        getTargetColor: arcColor,
         getWidth: 2,
         pickable: true,
         greatCircle: true,
-        getFilterValue: (d: any) => {
-            // A connection is visible if at least one of its IER types is active.
-            const ierVisible = d._ierTypes.some((ierType: string) => activeIerTypes.has(ierType));
-            const sourcePinTypeVisible = activePointTypes.has(d._sourcePinType);
-            const targetPinTypeVisible = activePointTypes.has(d._targetPinType);
-
-            return (ierVisible &&
-                (!hideHubConnections || !d._isHub1) &&
-                (!hideHub2Connections || !d._isHub2) &&
-                sourcePinTypeVisible && targetPinTypeVisible) ? 1 : 0;
-        },
-        filterRange: [1, 1],
+        getFilterValue: (d: any) => filterValue(isIerConnectionVisible(d), d),
+        filterRange: filterRange(),
         extensions: [dataFilterExt],
-        updateTriggers: { getFilterValue: filterKey() }
+        updateTriggers: { getFilterValue: filterKey(), getSourceColor: arcColorKey(), getTargetColor: arcColorKey() }
+    });
+
+    // Arcs currently shown (IER, aggregated or individual), for the flow and status layers drawn with them.
+    const shownAggregated = !isIerFilterActive && showAggregatedConnections;
+    const shownArcs = shownAggregated ? aggregatedConnections : connectionsData;
+    const isShownArcVisible = isIerFilterActive ? isIerConnectionVisible : shownAggregated ? isAggregatedConnectionVisible : isConnectionVisible;
+    const getShownArcHeight = (d: any) => shownAggregated ? 0.5 : getHeightByType(d);
+
+    // Status-aware style: a red outline under down links and a pulsing arc over degraded ones
+    // (its opacity is animated by `animateLayers`). Unknown links are faded by the arc colours.
+    const statusDownLayer = new ArcLayer({
+        id: 'status-down',
+        data: showLinkStatus ? shownArcs.filter(d => d._status === "down" && !touchesFailedSite(d)) : [],
+        getSourcePosition: (d: any) => d._sourcePos,
+        getTargetPosition: (d: any) => d._targetPos,
+        getSourceColor: LINK_STATUS_STYLES.down.color,
+        getTargetColor: LINK_STATUS_STYLES.down.color,
+        getHeight: getShownArcHeight,
+        getWidth: (d: any) => (shownAggregated ? getAggregatedWidth(d) : 2) + 4,
+        greatCircle: true,
+        getFilterValue: (d: any) => filterValue(isShownArcVisible(d), d),
+        filterRange: filterRange(),
+        extensions: [dataFilterExt],
+        updateTriggers: { getFilterValue: filterKey() },
+        parameters: { depthTest: false }
+    });
+
+    const statusPulseLayer = new ArcLayer({
+        id: 'status-pulse',
+        data: showLinkStatus ? shownArcs.filter(d => d._status === "degraded" && !touchesFailedSite(d)) : [],
+        opacity: statusPulseOpacity(performance.now() / 1000),
+        getSourcePosition: (d: any) => d._sourcePos,
+        getTargetPosition: (d: any) => d._targetPos,
+        getSourceColor: LINK_STATUS_STYLES.degraded.color,
+        getTargetColor: LINK_STATUS_STYLES.degraded.color,
+        getHeight: getShownArcHeight,
+        getWidth: (d: any) => (shownAggregated ? getAggregatedWidth(d) : 2) + 2,
+        greatCircle: true,
+        getFilterValue: (d: any) => filterValue(isShownArcVisible(d), d),
+        filterRange: filterRange(),
+        extensions: [dataFilterExt],
+        updateTriggers: { getFilterValue: filterKey() },
+        parameters: { depthTest: false }
+    });
+
+    // Flow mode: dashes over the shown arcs, under the same filters. Down links carry no traffic.
+    // Aggregated links carrying traffic both ways get a second, reversed set of dashes.
+    const flowSource = showFlow ? shownArcs : [];
+    const flowData = flowSource.filter(d => !touchesFailedSite(d) && (d._statuses ?? [d._status]).some((s: LinkStatus) => s !== "down")).flatMap(d => {
+        const flow = { d, speed: d._flowSpeed, dashes: flowDashCount(d._sourcePos, d._targetPos) };
+        return d._bidirectional ? [flow, { ...flow, speed: -flow.speed }] : [flow];
+    });
+
+    const flowLayer = new FlowArcLayer({
+        id: 'flow',
+        data: flowData,
+        getSourcePosition: (f: any) => f.d._sourcePos,
+        getTargetPosition: (f: any) => f.d._targetPos,
+        getSourceColor: (f: any) => shownAggregated ? getAggregatedColor(f.d) : colorByTypeRGBA(f.d),
+        getTargetColor: (f: any) => shownAggregated ? getAggregatedColor(f.d) : colorByTypeRGBA(f.d),
+        getHeight: (f: any) => getShownArcHeight(f.d),
+        getWidth: 4,
+        greatCircle: true,
+        getFlow: (f: any) => [f.speed, f.dashes],
+        flowTime: performance.now() / 1000,
+        getFilterValue: (f: any) => filterValue(isShownArcVisible(f.d), f.d),
+        filterRange: filterRange(),
+        extensions: [dataFilterExt],
+        updateTriggers: { getFilterValue: filterKey() },
+        parameters: { depthTest: false }
     });
 
     // New layer for persistent on-map aggregated connection labels.
@@ -680,15 +835,8 @@ function buildLayers(connectionsData: any[], pinsData: any[]) {
         padding: [4, 6], 
         
         // Use the same filtering logic as the aggregatedConnectionsLayer
-        getFilterValue: (d: any) => {
-            const anyConnTypeActive = d._connTypes.some((type: string) => activeTypes.has(type));
-            const sourcePinTypeVisible = activePointTypes.has(d._sourcePinType);
-            const targetPinTypeVisible = activePointTypes.has(d._targetPinType);
-            // When IER filters are inactive, this part of the filter is ignored.
-            const ierVisible = !isIerFilterActive || d._ierTypes.some((ierType: string) => activeIerTypes.has(ierType));
-            return (anyConnTypeActive && (!hideHubConnections || !d._isHub1) && (!hideHub2Connections || !d._isHub2) && sourcePinTypeVisible && targetPinTypeVisible && ierVisible) ? 1 : 0;
-        },
-        filterRange: [1, 1],
+        getFilterValue: getAggregatedFilterValue,
+        filterRange: filterRange(),
         extensions: [dataFilterExt],
         updateTriggers: { getFilterValue: filterKey() },
         
@@ -709,6 +857,7 @@ function buildLayers(connectionsData: any[], pinsData: any[]) {
         // Position label at the midpoint of the connection's chord.
         getPosition: getLabelMidpoint,
         getText: (d: any) => {
+            if (d?._label) return d._label;
             const fromObj = d?.from;
             const toObj = d?.to;
             const fromName = fromObj?.properties?.name ?? "Unknown Start";
@@ -729,14 +878,15 @@ function buildLayers(connectionsData: any[], pinsData: any[]) {
         fontSettings: {
             sdf: true // Use Signed Distance Field textures for robustness
         },
-        characterSet: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789.,:()[]- \n\u25b6', 
+        // Labels from relabel rules can use any character.
+        characterSet: 'auto',
         getPixelOffset: [0, -10], // Offset to appear slightly above the line.
         getAlignmentBaseline: 'center',
         getTextAnchor: 'middle',
         padding: [4, 6], 
         // Use the same filtering logic as the ArcLayer to ensure labels only appear on visible lines
         getFilterValue: getConnectionFilterValue,
-        filterRange: [1, 1],
+        filterRange: filterRange(),
         extensions: [dataFilterExt],
         updateTriggers: { getFilterValue: filterKey() },
         // Ensure connection labels are drawn on top of other layers.
@@ -746,6 +896,8 @@ function buildLayers(connectionsData: any[], pinsData: any[]) {
             depthMask: false
         }
     });
+    const getPinFilterValue = (d: any) => filterValue(isPinGroupVisible(d), d);
+
     // Layer for circular "pin" markers.
     const pinsLayer = new deck.IconLayer({
         id: "pins",
@@ -763,14 +915,67 @@ function buildLayers(connectionsData: any[], pinsData: any[]) {
         }),
         getPosition: (d: any) => d.geometry.coordinates,
         sizeScale: 1,
-        getSize: 24,
+        // Pins with an asset draw the pie larger so it shows as a coloured ring around the image.
+        getSize: (d: any) => d.assetUrl ? 36 : 24,
         // Filter based on whether any of the constituent pin types are active
-        getFilterValue: (d: any) => d.pinTypes.some((type: PointType) => activePointTypes.has(type)) ? 1 : 0,
-        filterRange: [1, 1],
+        getFilterValue: getPinFilterValue,
+        filterRange: filterRange(),
+        extensions: [dataFilterExt],
+        updateTriggers: { getFilterValue: filterKey() }
+    });
+
+    const assetPins = overlappingPins.filter(d => d.assetUrl);
+
+    // Layer for pins rendered as their icon asset (aircraft, ships, trailers), drawn over the ring.
+    const pinAssetsLayer = new deck.IconLayer({
+        id: "pin-assets",
+        data: assetPins,
+        pickable: true,
+        autoHighlight: true,
+        billboard: false,
+        getIcon: (d: any) => {
+            // Moving assets turn (or mirror) to face their heading.
+            const pose = getIconPose(d.iconKind, d._heading);
+            return {
+                id: pose?.id ?? d.iconKind,
+                url: pose?.url ?? d.assetUrl,
+                width: ICON_ASSET_SIZE,
+                height: ICON_ASSET_SIZE,
+            };
+        },
+        getAngle: (d: any) => getIconPose(d.iconKind, d._heading)?.angle ?? 0,
+        getPosition: (d: any) => d.geometry.coordinates,
+        sizeScale: 1,
+        getSize: 24,
+        getFilterValue: getPinFilterValue,
+        filterRange: filterRange(),
         extensions: [dataFilterExt],
         updateTriggers: { getFilterValue: filterKey() }
     });
 
+    // Count badge for asset pins that stand in for several overlapping pins.
+    const pinCountLayer = new TextLayer({
+        id: 'pin-counts',
+        data: assetPins.filter(d => d.count > 1),
+        pickable: false,
+        getPosition: (d: any) => d.geometry.coordinates,
+        getText: (d: any) => `${d.count}`,
+        getSize: 11,
+        getColor: [255, 255, 255, 255],
+        background: true,
+        getBackgroundColor: [0, 0, 0, 220],
+        padding: [1, 3],
+        getPixelOffset: [14, -14],
+        getFilterValue: getPinFilterValue,
+        filterRange: filterRange(),
+        extensions: [dataFilterExt],
+        updateTriggers: { getFilterValue: filterKey() },
+        parameters: {
+            depthTest: false,
+            depthMask: false
+        }
+    });
+
     // Layer for persistent on-map pin labels.
     const pinTextLayer = new TextLayer({
         id: 'pin-labels',
@@ -788,8 +993,8 @@ function buildLayers(connectionsData: any[], pinsData: any[]) {
         getColor: [255, 255, 255, 255],
         getSize: 14,
         getPixelOffset: (d: any) => d._labelOffset || [0, 20], // Use pre-calculated offset for overlapping pins.
-        getFilterValue: (d: any) => activePointTypes.has(d._pinType) ? 1 : 0,
-        filterRange: [1, 1],
+        getFilterValue: (d: any) => filterValue(isPinVisible(d), d),
+        filterRange: filterRange(),
         extensions: [dataFilterExt],
         updateTriggers: { getFilterValue: filterKey() },
         background: true,
@@ -805,92 +1010,320 @@ function buildLayers(connectionsData: any[], pinsData: any[]) {
         }
     });
 
-    return [connectionsLayer, aggregatedConnectionsLayer, ierConnectionsLayer, individualConnectionTextLayer, aggregatedConnectionTextLayer, pinsLayer, pinTextLayer];
+    // Tour highlights: a ring around a site and/or a heavier arc over a link.
+    const highlightedPins = tourHighlight?.point ? pinsData.filter(p => getPointName(p) === tourHighlight!.point) : [];
+    const highlightLink = tourHighlight?.link;
+    const highlightedConnections = highlightLink ? connectionsData.filter(c => {
+        const from = getPointName(c.from);
+        const to = getPointName(c.to);
+        const endpointsMatch = (from === highlightLink.from && to === highlightLink.to) ||
+            (from === highlightLink.to && to === highlightLink.from);
+        return endpointsMatch && (!highlightLink.type || c._connType === highlightLink.type.toUpperCase());
+    }) : [];
+
+    const highlightPointLayer = new ScatterplotLayer({
+        id: 'tour-highlight-point',
+        data: highlightedPins,
+        getPosition: (d: any) => d.geometry.coordinates,
+        radiusUnits: 'pixels',
+        getRadius: 22,
+        stroked: true,
+        filled: false,
+        lineWidthUnits: 'pixels',
+        getLineWidth: 3,
+        getLineColor: [255, 255, 255, 255],
+        parameters: { depthTest: false }
+    });
+
+    const highlightLinkLayer = new ArcLayer({
+        id: 'tour-highlight-link',
+        data: highlightedConnections,
+        getSourcePosition: (d: any) => getSourcePos(d),
+        getTargetPosition: (d: any) => getTargetPos(d),
+        getSourceColor: [255, 255, 255, 255],
+        getTargetColor: colorByTypeRGBA,
+        getHeight: (d: any) => getHeightByType(d),
+        getWidth: 6,
+        greatCircle: true,
+        parameters: { depthTest: false }
+    });
+
+    // Route tool: the traced path on its own layer, plus rings on its start (green) and end (red).
+    const routeEdges = routePath ? routePath.flatMap(hop => hop.edges.map(e => e.connection)) : [];
+    const routeEndpoints = routePath && routePath.length > 0
+        ? [
+            { name: routePath[0].from, color: [0, 200, 0, 255] },
+            { name: routePath[routePath.length - 1].to, color: [220, 0, 0, 255] },
+        ].map(end => ({ ...end, pin: pinsData.find(p => getPointName(p) === end.name) })).filter(end => end.pin)
+        : [];
+
+    const routePathLayer = new ArcLayer({
+        id: 'route-path',
+        data: routeEdges,
+        getSourcePosition: (d: any) => getSourcePos(d),
+        getTargetPosition: (d: any) => getTargetPos(d),
+        getSourceColor: colorByTypeRGBA,
+        getTargetColor: colorByTypeRGBA,
+        getHeight: (d: any) => getHeightByType(d),
+        getWidth: 5,
+        pickable: true,
+        greatCircle: true,
+        parameters: { depthTest: false }
+    });
+
+    const routeEndpointsLayer = new ScatterplotLayer({
+        id: 'route-endpoints',
+        data: routeEndpoints,
+        getPosition: (d: any) => d.pin.geometry.coordinates,
+        radiusUnits: 'pixels',
+        getRadius: 18,
+        stroked: true,
+        filled: false,
+        lineWidthUnits: 'pixels',
+        getLineWidth: 3,
+        getLineColor: (d: any) => d.color,
+        parameters: { depthTest: false }
+    });
+
+    const pinsByName = new Map(pinsData.map(p => [getPointName(p), p]));
+
+    // Tracks of the moving assets whose pins are shown: optionally the whole path, faintly, and a
+    // tail fading out behind each asset's current position.
+    const shownTracks = tracks.filter(t => {
+        const pin = pinsByName.get(t.name);
+        return pin && isPinVisible(pin) && isInTimeWindow(pin);
+    });
+    const trackColor = (t: Track) => colorPinkByType(pinsByName.get(t.name));
+
+    const trackPathsLayer = new deck.PathLayer({
+        id: 'track-paths',
+        data: trackOptions.showPaths ? shownTracks : [],
+        getPath: (t: Track) => t.fixes.map(f => f.position),
+        getColor: (t: Track) => [...trackColor(t).slice(0, 3), 80],
+        widthUnits: 'pixels',
+        getWidth: 2,
+        parameters: { depthTest: false }
+    });
+
+    const trackTailsLayer = new deck.TripsLayer({
+        id: 'track-tails',
+        data: shownTracks,
+        getPath: (t: Track) => t.fixes.map(f => f.position),
+        // Minutes from the time origin, like the filter values, so they fit float32.
+        getTimestamps: (t: Track) => t.fixes.map(f => encodeTime(f.time, timeOrigin)),
+        getColor: (t: Track) => trackColor(t).slice(0, 3),
+        currentTime: encodeTime(trackTime(), timeOrigin),
+        trailLength: trackOptions.tailMs / (60 * 1000),
+        fadeTrail: true,
+        widthUnits: 'pixels',
+        getWidth: 4,
+        capRounded: true,
+        jointRounded: true,
+        parameters: { depthTest: false }
+    });
+
+    // Resilience tool: bridge links drawn heavier, and rings on cut, failed and cut-off sites.
+    const resilienceSites = resilienceView ? [
+        ...Array.from(resilienceView.articulationPoints).map(name => ({ name, color: [255, 140, 0, 255], filled: false })),
+        ...Array.from(resilienceView.affected).map(name => ({ name, color: [220, 0, 0, 255], filled: true })),
+        ...Array.from(resilienceView.failed).map(name => ({ name, color: [40, 40, 40, 255], filled: true })),
+    ].map(site => ({ ...site, pin: pinsByName.get(site.name) })).filter(site => site.pin) : [];
+
+    const resilienceBridgesLayer = new ArcLayer({
+        id: 'resilience-bridges',
+        data: resilienceView ? resilienceView.bridges.map(b => b.edges[0].connection) : [],
+        getSourcePosition: (d: any) => getSourcePos(d),
+        getTargetPosition: (d: any) => getTargetPos(d),
+        getSourceColor: (d: any) => touchesFailedSite(d) ? FAILED_LINK_COLOR : [255, 140, 0, 255],
+        getTargetColor: (d: any) => touchesFailedSite(d) ? FAILED_LINK_COLOR : [255, 140, 0, 255],
+        getHeight: (d: any) => getHeightByType(d),
+        getWidth: 4,
+        pickable: true,
+        greatCircle: true,
+        updateTriggers: { getSourceColor: failureKey(), getTargetColor: failureKey() }
+    });
+
+    const resilienceSitesLayer = new ScatterplotLayer({
+        id: 'resilience-sites',
+        data: resilienceSites,
+        getPosition: (d: any) => d.pin.geometry.coordinates,
+        radiusUnits: 'pixels',
+        getRadius: 16,
+        stroked: true,
+        filled: true,
+        getFillColor: (d: any) => d.filled ? [...d.color.slice(0, 3), 110] : [0, 0, 0, 0],
+        lineWidthUnits: 'pixels',
+        getLineWidth: 3,
+        getLineColor: (d: any) => d.color,
+        parameters: { depthTest: false }
+    });
+
+    // Measure tool: the measured polyline along great circles, its vertices and segment lengths,
+    // and range rings labelled with their radius.
+    const measureSegments = measureView?.segments ?? [];
+    const measureRings = measureView?.rings
+        ? measureView.rings.radiiKm.map(km => ({ km, path: rangeRing(measureView!.rings!.center, km) }))
+        : [];
+    const measureUnit = measureView?.unit ?? "km";
+
+    const measurePathLayer = new deck.PathLayer({
+        id: 'measure-path',
+        data: [...measureSegments.map(s => greatCirclePath(s.from, s.to)), ...measureRings.map(r => r.path)],
+        getPath: (path: [number, number][]) => path,
+        getColor: MEASURE_COLOR,
+        widthUnits: 'pixels',
+        getWidth: 2,
+        parameters: { depthTest: false }
+    });
+
+    const measurePointsLayer = new ScatterplotLayer({
+        id: 'measure-points',
+        data: measureView?.points ?? [],
+        getPosition: (d: any) => d.position,
+        radiusUnits: 'pixels',
+        getRadius: 5,
+        stroked: true,
+        getFillColor: MEASURE_COLOR,
+        lineWidthUnits: 'pixels',
+        getLineWidth: 1,
+        getLineColor: [0, 0, 0, 255],
+        parameters: { depthTest: false }
+    });
+
+    const measureLabelsLayer = new TextLayer({
+        id: 'measure-labels',
+        data: [
+            // Segment labels sit at the middle of each great-circle path.
+            ...measureSegments.map(s => {
+                const path = greatCirclePath(s.from, s.to);
+                return { position: path[Math.floor(path.length / 2)], text: `${formatDistance(s.km, measureUnit)}\n${formatBearing(s.bearing)}` };
+            }),
+            // Ring labels sit on the north of each ring.
+            ...measureRings.map(r => ({ position: r.path[0], text: formatDistance(r.km, measureUnit) })),
+        ],
+        getPosition: (d: any) => d.position,
+        getText: (d: any) => d.text,
+        getColor: [255, 255, 255, 255],
+        getSize: 12,
+        background: true,
+        getBackgroundColor: [0, 0, 0, 200],
+        padding: [2, 4],
+        characterSet: 'auto',
+        parameters: { depthTest: false }
+    });
+
+    // Search result: a ring that expands and fades once a second while the pulse runs.
+    const pulsePhase = searchPulse ? ((performance.now() - searchPulse.startedAt) % 1000) / 1000 : 0;
+    const searchPulseLayer = new ScatterplotLayer({
+        id: 'search-pulse',
+        data: searchPulse ? pinsData.filter(p => getPointName(p) === searchPulse!.name) : [],
+        getPosition: (d: any) => d.geometry.coordinates,
+        radiusUnits: 'pixels',
+        getRadius: 14 + 26 * pulsePhase,
+        stroked: true,
+        filled: false,
+        lineWidthUnits: 'pixels',
+        getLineWidth: 4,
+        getLineColor: [255, 215, 0, Math.round(255 * (1 - pulsePhase))],
+        parameters: { depthTest: false }
+    });
+
+    return [statusDownLayer, connectionsLayer, aggregatedConnectionsLayer, ierConnectionsLayer, statusPulseLayer, flowLayer, trackPathsLayer, trackTailsLayer, resilienceBridgesLayer, routePathLayer, highlightLinkLayer, individualConnectionTextLayer, aggregatedConnectionTextLayer, pinsLayer, pinAssetsLayer, pinCountLayer, resilienceSitesLayer, routeEndpointsLayer, highlightPointLayer, searchPulseLayer, pinTextLayer, measurePathLayer, measurePointsLayer, measureLabelsLayer];
 }
 
 // ---------------------- UI: Legend and Controls ----------------------
 
+/** Checkbox class of each legend kind's filter. */
+const LEGEND_CHECKBOX_CLASSES: Record<LegendKind, string> = { conn: "conn-cb", pin: "pin-cb", ier: "ier-cb", status: "status-cb" };
+
 /**
- * Adds UI panels for multi-filter controls (connections and pins) to the document.
+ * One legend row: filter checkbox, swatch, label with its description, and a live count.
  */
-function addMultiFilterControls(map: google.maps.Map, onChange: () => void) {
-    const connItems: { key: string; label: string; color: string }[] = [
-        { key: "N", label: "Blue", color: "rgb(0,128,200)" },
-        { key: "C", label: "Green", color: "rgb(0,200,0)" },
-        { key: "RT", label: "Red", color: "rgb(200,0,0)" },
-        { key: "HF", label: "Pink", color: "rgb(255,105,180)" },
-        { key: "TR", label: "Orange", color: "rgb(255,165,0)" },
-        { key: "SAT", label: "Light Green", color: "rgb(79, 201, 75)" },
-        { key: "HF L", label: "Yellow", color: "rgb(255, 255, 0)" },
-        { key: "U L", label: "Turquoise", color: "rgb(64,224,208)" },
-        { key: "SL", label: "Hot Pink", color: "rgb(255,0,127)" },
-        { key: "V", label: "Light Purple", color: "rgb(113,115,255)"}
-    ];
-    const pinItems: { key: PointType; label: string; color: string }[] = [
-        { key: "PINK_GROUP", label: "Pink", color: "rgb(255, 105, 180)" },
-        { key: "VIOLET_GROUP", label: "Violet", color: "rgb(130, 42, 245)" },
-        { key: "RED_GROUP", label: "Red", color: "rgb(200, 0, 0)" },
-        { key: "TURQUOISE_GROUP", label: "Turquoise", color: "rgb(64, 224, 208)" },
-        { key: "YELLOW_GROUP", label: "Yellow", color: "rgb(255, 255, 0)" },
-        { key: "GREEN_GROUP", label: "Green", color: "rgb(0, 128, 0)" },
-        { key: "PURPLE_GROUP", label: "Purple", color: "rgb(128, 0, 128)" },
-        { key: "ORANGE_GROUP", label: "Orange", color: "rgb(255, 165, 0)" },
-        { key: "BLUE_GROUP", label: "Blue", color: "rgb(0, 120, 255)" },
-        { key: "WHITE_GROUP", label: "Lilac", color: "rgb(197, 110, 255)" },
-        { key: "OKC_GROUP", label: "Cyan", color: "rgb(0, 255, 255)" },
-        { key: "MAGENTA_GROUP", label: "Magenta", color: "rgb(255, 0, 255)" },
-        { key: "GREY_GROUP", label: "Grey", color: "rgb(169, 169, 169)" },
-        { key: "PEACH_GROUP", label: "Peach", color: "rgb(255, 143, 127)"}
-    ];
-
-    const ierItems: { key: string; label: string }[] = [
-        { key: "LOCATION", label: "Location" },
-        { key: "LOGISTICS", label: "Logistics" },
-        { key: "NRP", label: "NRP" },
-        { key: "SIT", label: "SIT" },
-        { key: "MESSAGE", label: "Message" },
-        { key: "DEFAULT", label: "Default" },
-    ];
-    const controlsContainer = document.createElement('div');
-    controlsContainer.innerHTML = `<button id="filters-toggle" title="Show/Hide filters" style="position: absolute; z-index: 10; top: 60px; left: 220px; padding:8px 10px; border:1px solid #ccc; border-radius:8px; background:#ffffff; box-shadow:0 2px 8px rgba(0,0,0,.15); font: 13px system-ui, sans-serif; cursor:pointer;">Filters</button>`;
-    document.body.appendChild(controlsContainer);
+function legendRowHtml(kind: LegendKind, entry: LegendEntry, checked: boolean): string {
+    const key = escapeHtml(entry.key);
+    return `
+        <label class="legend-row" title="${escapeHtml(entry.description)}">
+            <input type="checkbox" class="${LEGEND_CHECKBOX_CLASSES[kind]}" data-key="${key}" ${checked ? 'checked' : ''}>
+            ${entry.color ? `<span class="swatch" style="background:${toCssColor(entry.color)};"></span>` : ''}
+            <span class="legend-text">${escapeHtml(entry.label)}<span class="legend-desc">${escapeHtml(entry.description)}</span></span>
+            <span class="legend-count" data-kind="${kind}" data-key="${key}"></span>
+        </label>
+    `;
+}
 
-    const controlsAndButtonContainer = document.createElement('div');
-    controlsAndButtonContainer.innerHTML = `
-        <div id="controls-container" style="position:absolute; z-index:5; top:60px; left:10px; font: 13px system-ui, sans-serif; display:flex; flex-direction:column; gap:10px; max-width: 200px; max-height: calc(100vh - 80px); overflow-y: auto; padding-right: 5px;">
+/**
+ * Fill in the legend's counts: how many connections and pins of each kind pass every filter and
+ * the time window, out of how many exist. Kinds with nothing in the data are greyed out.
+ */
+function updateLegendCounts() {
+    const counts: Record<LegendKind, Map<string, KindCount>> = {
+        conn: countKinds(processedConnections, d => [d._connType], isConnectionShown),
+        pin: countKinds(processedPins, d => [d._pinType], isPinShown),
+        ier: countKinds(processedConnections, d => d._ierTypes, isConnectionShown),
+        status: countKinds(processedConnections, d => [d._status], isConnectionShown),
+    };
+    document.querySelectorAll<HTMLSpanElement>('.legend-count').forEach(span => {
+        const count = getKindCount(counts[span.dataset.kind as LegendKind], span.dataset.key!);
+        span.textContent = formatKindCount(count);
+        span.title = `${count.visible} shown of ${count.total}`;
+        span.closest('label')?.classList.toggle('legend-empty', count.total === 0);
+    });
+}
+
+/**
+ * Bring the legend counts and statistics up to date. Called where filters, the time window or
+ * the data change, not on every redraw: animations rebuild the layers each frame.
+ */
+function refreshCounts() {
+    updateLegendCounts();
+    statsTool?.refresh();
+}
+
+/**
+ * Adds UI panels for multi-filter controls (connections and pins) to the document.
+ */
+function addMultiFilterControls(map: google.maps.Map, onChange: () => void) {
+    // Legend and filter entries are generated from the taxonomy and the layers' styling functions,
+    // so they can't drift from what is drawn. Their counts are filled in by `updateLegendCounts`.
+    const { conn: connItems, pin: pinItems, ier: ierItems, status: statusItems } = buildLegend(taxonomy);
+    const iconLegendHtml = renderIconLegend(processedPins);
+
+    const controlsContainer = document.createElement('div');
+    controlsContainer.innerHTML = `<button id="filters-toggle" title="Show/Hide filters" style="position: absolute; z-index: 10; top: 60px; left: 220px; padding:8px 10px; border:1px solid #ccc; border-radius:8px; background:#ffffff; box-shadow:0 2px 8px rgba(0,0,0,.15); font: 13px system-ui, sans-serif; cursor:pointer;">Filters</button>`;
+    document.body.appendChild(controlsContainer);
+
+    const controlsAndButtonContainer = document.createElement('div');
+    controlsAndButtonContainer.innerHTML = `
+        <div id="controls-container" style="position:absolute; z-index:5; top:60px; left:10px; font: 13px system-ui, sans-serif; display:flex; flex-direction:column; gap:10px; max-width: 200px; max-height: calc(100vh - 80px); overflow-y: auto; padding-right: 5px;">
             
             <div id="connection-legend-box" class="legend-box">
                 <div class="legend-header"><h2 style="font-size:16px; margin:0;">Connections</h2><button class="toggle-btn" data-target="connection-legend-box">-</button></div>
                 <div id="conn-button-section" class="button-section">
                     <button id="all-conn-btn">All / None</button>
                     </div>
-                <div class="filter-toggles-section">
-                    <label><input type="checkbox" id="hub1-cb" ${hideHubConnections ? 'checked' : ''}> Hide FL</label>
-                    <label><input type="checkbox" id="hub2-cb" ${hideHub2Connections ? 'checked' : ''}> Hide EU</label>
-                </div>
-                ${connItems.map(({ key, label, color }) => `
-                    <label>
-                        <input type="checkbox" class="conn-cb" data-key="${key}" ${activeTypes.has(key) ? 'checked' : ''}>
-                        <span class="swatch" style="background:${color};"></span>
-                        ${label}
+                ${connItems.map(entry => legendRowHtml("conn", entry, activeTypes.has(entry.key))).join('')}
+                <div class="status-section">
+                    <label title="Outline down links in red, pulse degraded links and fade links of unknown status">
+                        <input type="checkbox" id="show-status-cb" ${showLinkStatus ? 'checked' : ''}>
+                        Show Link Status
                     </label>
-                `).join('')}
+                    ${statusItems.map(entry => legendRowHtml("status", entry, activeStatuses.has(entry.key as LinkStatus))).join('')}
+                </div>
                 <label>
                     <input type="checkbox" id="show-aggregated-cb" ${showAggregatedConnections ? 'checked' : ''}>
                     Aggregate Connections
                 </label>
+                <label>
+                    <input type="checkbox" id="show-flow-cb" ${showFlow ? 'checked' : ''}>
+                    Animate Flow
+                </label>
             </div>
             <div id="ier-legend-box" class="legend-box">
                 <div class="legend-header"><h2 style="font-size:16px; margin:0;">IER Type</h2><button class="toggle-btn" data-target="ier-legend-box">-</button></div>
                 <div id="ier-button-section" class="button-section">
                     <button id="all-ier-btn">All / None</button>
                 </div>
-                ${ierItems.map(({ key, label }) => `
-                    <label>
-                        <input type="checkbox" class="ier-cb" data-key="${key}" ${activeIerTypes.has(key) ? 'checked' : ''}>
-                        ${label}
-                    </label>
-                `).join('')}
+                ${ierItems.map(entry => legendRowHtml("ier", entry, activeIerTypes.has(entry.key))).join('')}
             </div>
 
             <div class="legend-box">
@@ -899,14 +1332,14 @@ function addMultiFilterControls(map: google.maps.Map, onChange: () => void) {
                     <button id="all-pins-btn">All / None</button>
                     <button id="tooltip-btn">${showPinLabels ? 'Hide Labels' : 'Show Labels'}</button>
                 </div>
-                ${pinItems.map(({ key, label, color }) => `
-                    <label>
-                        <input type="checkbox" class="pin-cb" data-key="${key}" ${activePointTypes.has(key) ? 'checked' : ''}>
-                        <span class="swatch" style="background:${color};"></span>
-                        ${label}
-                    </label>
-                `).join('')}
+                ${pinItems.map(entry => legendRowHtml("pin", entry, activePointTypes.has(entry.key))).join('')}
             </div>
+
+            ${iconLegendHtml ? `
+            <div id="icons-legend-box" class="legend-box">
+                <div class="legend-header"><h2 style="font-size:16px; margin:0;">Icons</h2><button class="toggle-btn" data-target="icons-legend-box">-</button></div>
+                ${iconLegendHtml}
+            </div>` : ''}
         </div>
         <div id="top-right-panel" style="position: absolute; z-index: 10; top: 10px; right: 10px;">
             </div>
@@ -923,13 +1356,6 @@ function addMultiFilterControls(map: google.maps.Map, onChange: () => void) {
                 border-bottom: 1px solid #eee; 
                 padding-bottom: 8px;
             }
-            .filter-toggles-section {
-                 display:flex; 
-                flex-wrap:wrap; 
-                gap:8px; 
-                border-bottom: 1px solid #eee;
-                padding-bottom: 8px;
-            }
             .button-section button { 
                 padding:6px 10px; 
                 border:1px solid #ccc; 
@@ -938,8 +1364,21 @@ function addMultiFilterControls(map: google.maps.Map, onChange: () => void) {
                 cursor:pointer; 
                 flex-grow: 1;
             }
+            .status-section {
+                display:flex;
+                flex-direction:column;
+                gap:10px;
+                border-top: 1px solid #eee;
+                border-bottom: 1px solid #eee;
+                padding: 8px 0;
+            }
             /* Decreased swatch size for smaller box */
             .swatch { display:inline-block; width:8px; height:8px; border-radius:2px; border:1px solid rgba(0,0,0,.2); } 
+            .legend-text { flex:1; min-width:0; }
+            .legend-desc { display:block; font-size:11px; color:#666; white-space:nowrap; overflow:hidden; text-overflow:ellipsis; }
+            .legend-count { font-size:11px; color:#555; font-variant-numeric: tabular-nums; }
+            /* Kinds with nothing in the data. */
+            .legend-box label.legend-empty { opacity:.45; }
         </style>
     `;
     document.body.appendChild(controlsAndButtonContainer);
@@ -979,16 +1418,6 @@ function addMultiFilterControls(map: google.maps.Map, onChange: () => void) {
         updateMap();
     });
 
-    document.getElementById('hub1-cb')?.addEventListener('change', (e) => {
-        hideHubConnections = (e.target as HTMLInputElement).checked;
-        updateMap();
-    });
-
-    document.getElementById('hub2-cb')?.addEventListener('change', (e) => {
-        hideHub2Connections = (e.target as HTMLInputElement).checked;
-        updateMap();
-    });
-
     document.querySelectorAll<HTMLInputElement>('.conn-cb').forEach(cb => {
         cb.addEventListener('change', () => {
             const key = cb.dataset.key as string;
@@ -1005,9 +1434,9 @@ function addMultiFilterControls(map: google.maps.Map, onChange: () => void) {
     });
 
     document.getElementById('all-pins-btn')?.addEventListener('click', () => {
-        const isAllActive = activePointTypes.size === PinLogic.ALL_POINT_TYPES.length;
+        const isAllActive = activePointTypes.size === pinItems.length;
         activePointTypes.clear();
-        if (!isAllActive) PinLogic.ALL_POINT_TYPES.forEach(type => activePointTypes.add(type));
+        if (!isAllActive) pinItems.forEach(item => activePointTypes.add(item.key));
         document.querySelectorAll<HTMLInputElement>('.pin-cb').forEach(cb => cb.checked = !isAllActive);
         updateMap();
     });
@@ -1028,11 +1457,31 @@ function addMultiFilterControls(map: google.maps.Map, onChange: () => void) {
         });
     });
 
+    document.getElementById('show-status-cb')?.addEventListener('change', (e) => {
+        showLinkStatus = (e.target as HTMLInputElement).checked;
+        updateMap();
+        if (showLinkStatus) startAnimation();
+    });
+
+    document.querySelectorAll<HTMLInputElement>('.status-cb').forEach(cb => {
+        cb.addEventListener('change', () => {
+            const key = cb.dataset.key as LinkStatus;
+            if (cb.checked) activeStatuses.add(key); else activeStatuses.delete(key);
+            updateMap();
+        });
+    });
+
     document.getElementById('show-aggregated-cb')?.addEventListener('change', (e) => {
         showAggregatedConnections = (e.target as HTMLInputElement).checked;
         updateMap();
     });
 
+    document.getElementById('show-flow-cb')?.addEventListener('change', (e) => {
+        showFlow = (e.target as HTMLInputElement).checked;
+        updateMap();
+        if (showFlow) startAnimation();
+    });
+
     // Logic for the "Show Labels" button to toggle the persistent TextLayer for PINS
     document.getElementById('tooltip-btn')?.addEventListener('click', (e) => {
         showPinLabels = !showPinLabels;
@@ -1061,10 +1510,195 @@ function addMultiFilterControls(map: google.maps.Map, onChange: () => void) {
     });
 }
 
+/**
+ * Adds a "Copy link" button to the top-right panel that copies a deep link to the current view.
+ */
+function addCopyLinkButton(map: google.maps.Map) {
+    const panel = document.getElementById('top-right-panel');
+    if (!panel) return;
+
+    const copyLinkButton = document.createElement('button');
+    copyLinkButton.id = 'copy-link-btn';
+    copyLinkButton.textContent = 'Copy link';
+    copyLinkButton.title = 'Copy a link to this exact view (camera, map type, filters and labels)';
+    copyLinkButton.style.cssText = `
+        padding: 8px 10px; border: 1px solid #ccc; border-radius: 8px;
+        background: #ffffff; box-shadow: 0 2px 8px rgba(0,0,0,.15);
+        font: 13px system-ui, sans-serif; cursor: pointer;
+    `;
+    copyLinkButton.addEventListener('click', async () => {
+        writeViewStateToUrl(map);
+        const url = window.location.href;
+        try {
+            await navigator.clipboard.writeText(url);
+            copyLinkButton.textContent = 'Link copied';
+        } catch {
+            // Clipboard access can be refused (e.g. insecure context); let the user copy by hand.
+            window.prompt('Copy this link:', url);
+        }
+        setTimeout(() => { copyLinkButton.textContent = 'Copy link'; }, 1500);
+    });
+    panel.appendChild(copyLinkButton);
+}
+
+/**
+ * Apply the filter matching a clicked statistics element: only that connection type, IER
+ * category or pair of pin groups, or only the links of that site.
+ */
+function applyStatsSelection(selection: Exclude<StatsSelection, { kind: "locate" }>) {
+    switch (selection.kind) {
+        case "type":
+            // Type filters only apply outside the IER view.
+            activeTypes = new Set([selection.key]);
+            activeIerTypes = new Set();
+            break;
+        case "ier":
+            activeIerTypes = new Set([selection.key]);
+            break;
+        case "groups":
+            activePointTypes = new Set(selection.groups);
+            break;
+        case "site":
+            nodeFilter = { mode: "focus", names: [selection.name] };
+            break;
+    }
+}
+
+/**
+ * Sync every filter checkbox and label toggle button with the current filter state,
+ * for use after the state is changed programmatically (saved views, demonstration).
+ */
+function syncControls() {
+    document.querySelectorAll<HTMLInputElement>('.conn-cb').forEach(cb => {
+        cb.checked = activeTypes.has(cb.dataset.key as string);
+    });
+    document.querySelectorAll<HTMLInputElement>('.pin-cb').forEach(cb => {
+        cb.checked = activePointTypes.has(cb.dataset.key as PointType);
+    });
+    document.querySelectorAll<HTMLInputElement>('.ier-cb').forEach(cb => {
+        cb.checked = activeIerTypes.has(cb.dataset.key as string);
+    });
+    document.querySelectorAll<HTMLInputElement>('.status-cb').forEach(cb => {
+        cb.checked = activeStatuses.has(cb.dataset.key as LinkStatus);
+    });
+
+    const setChecked = (id: string, checked: boolean) => {
+        const cb = document.getElementById(id) as HTMLInputElement | null;
+        if (cb) cb.checked = checked;
+    };
+    setChecked('show-aggregated-cb', showAggregatedConnections);
+    setChecked('show-status-cb', showLinkStatus);
+    setChecked('show-flow-cb', showFlow);
+
+    const connLabelButton = document.getElementById('toggle-conn-labels-btn');
+    if (connLabelButton) connLabelButton.textContent = showConnectionLabels ? 'Hide Details' : 'Show Details';
+    const pinLabelButton = document.getElementById('tooltip-btn');
+    if (pinLabelButton) pinLabelButton.textContent = showPinLabels ? 'Hide Labels' : 'Show Labels';
+    nodeFilterTool?.refresh();
+}
+
+// ---------------------- View State ----------------------
+
+/**
+ * Snapshot the current camera, map type, filter sets and toggles.
+ */
+function getViewState(map: google.maps.Map): ViewState {
+    const center = map.getCenter();
+    return {
+        center: { lat: center?.lat() ?? 0, lng: center?.lng() ?? 0 },
+        zoom: map.getZoom() ?? 0,
+        tilt: map.getTilt() ?? 0,
+        heading: map.getHeading() ?? 0,
+        mapTypeId: map.getMapTypeId() ?? "no_labels_map",
+        connTypes: Array.from(activeTypes),
+        pinGroups: Array.from(activePointTypes),
+        ierTypes: Array.from(activeIerTypes),
+        nodes: [...nodeFilter.names],
+        nodeMode: nodeFilter.mode,
+        aggregated: showAggregatedConnections,
+        connLabels: showConnectionLabels,
+        pinLabels: showPinLabels,
+        linkStatuses: Array.from(activeStatuses),
+        statusStyle: showLinkStatus,
+        flow: showFlow,
+        siteFilter,
+    };
+}
+
+/**
+ * Return the current camera position.
+ */
+function getCamera(map: google.maps.Map): CameraState {
+    const center = map.getCenter();
+    return {
+        center: { lat: center?.lat() ?? 0, lng: center?.lng() ?? 0 },
+        zoom: map.getZoom() ?? 0,
+        tilt: map.getTilt() ?? 0,
+        heading: map.getHeading() ?? 0,
+    };
+}
+
+/**
+ * Animate the camera to a named point, zooming in to at least `minZoom`.
+ * @returns Resolves when the camera arrives; immediately if there is no such point.
+ */
+function flyToPoint(map: google.maps.Map, name: string, minZoom = 8): Promise<void> {
+    const coords = asLngLat(processedPins.find(p => getPointName(p) === name));
+    if (!coords) return Promise.resolve();
+    const from = getCamera(map);
+    const to = { ...from, center: { lat: coords[1], lng: coords[0] }, zoom: Math.max(from.zoom, minZoom) };
+    return animateCamera(camera => map.moveCamera(camera), from, to, { duration: 1500 });
+}
+
+/**
+ * Apply the filter and toggle parts of a view state. Keys unknown to the taxonomy are dropped,
+ * and anything the state omits is left unchanged.
+ */
+function applyFilterState(state: Partial<ViewState>) {
+    if (state.connTypes) activeTypes = new Set(state.connTypes.filter(key => taxonomy.connTypeByKey.has(key)));
+    if (state.pinGroups) activePointTypes = new Set(state.pinGroups.filter(key => taxonomy.groupByKey.has(key)));
+    if (state.ierTypes) {
+        const known = new Set(taxonomy.ierTypes.map(t => t.key));
+        activeIerTypes = new Set(state.ierTypes.filter(key => known.has(key)));
+    }
+    if (state.nodes) nodeFilter = { ...nodeFilter, names: Array.from(new Set(state.nodes)) };
+    if (state.nodeMode) nodeFilter = { ...nodeFilter, mode: state.nodeMode };
+    if (state.aggregated !== undefined) showAggregatedConnections = state.aggregated;
+    if (state.connLabels !== undefined) showConnectionLabels = state.connLabels;
+    if (state.pinLabels !== undefined) showPinLabels = state.pinLabels;
+    if (state.linkStatuses) activeStatuses = new Set(state.linkStatuses.filter((s): s is LinkStatus => (LINK_STATUSES as string[]).includes(s)));
+    if (state.statusStyle !== undefined) showLinkStatus = state.statusStyle;
+    if (state.flow !== undefined) showFlow = state.flow;
+    if (state.siteFilter !== undefined) siteFilter = state.siteFilter;
+}
+
+/**
+ * Restore a complete view state: filters and toggles, controls, camera and map type.
+ */
+function applyViewState(map: google.maps.Map, state: ViewState, onChange: () => void) {
+    applyFilterState(state);
+    syncControls();
+    map.moveCamera({ center: state.center, zoom: state.zoom, tilt: state.tilt, heading: state.heading });
+    if (MAP_TYPE_IDS.includes(state.mapTypeId)) map.setMapTypeId(state.mapTypeId);
+    onChange();
+    if (showLinkStatus || showFlow) startAnimation();
+}
+
+/**
+ * Mirror the current view state into the URL hash without adding browser history entries.
+ */
+function writeViewStateToUrl(map: google.maps.Map) {
+    const hash = `#${encodeViewState(getViewState(map))}`;
+    if (window.location.hash !== hash) {
+        history.replaceState(null, "", hash);
+    }
+}
+
 // ---------------------- Clicked Coordinates Display ----------------------
 
 /**
- * Adds a UI panel to display the coordinates of the last map click.
+ * Adds a UI panel to display the coordinates of the last map click, as decimal degrees, DMS and
+ * MGRS, each with a button copying it.
  */
 function addCoordinatesUI() {
     const coordsContainer = document.createElement("div");
@@ -1082,15 +1716,33 @@ function addCoordinatesUI() {
     title.style.cssText = `font-size: 14px; margin: 0;`;
     coordsContainer.appendChild(title);
 
-    const latText = document.createElement("div");
-    latText.id = "lat-display";
-    latText.textContent = "Latitude: -";
-    coordsContainer.appendChild(latText);
-
-    const lngText = document.createElement("div");
-    lngText.id = "lng-display";
-    lngText.textContent = "Longitude: -";
-    coordsContainer.appendChild(lngText);
+    // Each format is a line of text with a button copying it to the clipboard.
+    const addCoordinateLine = (id: string, placeholder: string) => {
+        const row = document.createElement("div");
+        row.style.cssText = `display: flex; align-items: center; gap: 6px;`;
+        const text = document.createElement("span");
+        text.id = id;
+        text.textContent = placeholder;
+        text.style.cssText = `flex: 1; white-space: nowrap;`;
+        const copyBtn = document.createElement("button");
+        copyBtn.textContent = "Copy";
+        copyBtn.title = "Copy to the clipboard";
+        copyBtn.style.cssText = `padding: 0 4px; font-size: 11px; cursor: pointer;`;
+        copyBtn.onclick = () => {
+            const value = text.dataset.value;
+            if (!value) return;
+            navigator.clipboard.writeText(value).then(
+                () => { copyBtn.textContent = "Copied"; },
+                () => { copyBtn.textContent = "Failed"; },
+            ).finally(() => setTimeout(() => { copyBtn.textContent = "Copy"; }, 1500));
+        };
+        row.append(text, copyBtn);
+        coordsContainer.appendChild(row);
+    };
+    addCoordinateLine("lat-display", "Latitude: -");
+    addCoordinateLine("lng-display", "Longitude: -");
+    addCoordinateLine("dms-display", "DMS: -");
+    addCoordinateLine("mgrs-display", "MGRS: -");
 
     const clearBtn = document.createElement("button");
     clearBtn.textContent = "Clear";
@@ -1108,188 +1760,317 @@ function addCoordinatesUI() {
  * Updates the displayed map click coordinates in the UI panel.
  */
 function updateCoordinatesUI(lat: number | null, lng: number | null) {
-    const latEl = document.getElementById("lat-display");
-    const lngEl = document.getElementById("lng-display");
-    if (latEl && lngEl) {
-        latEl.textContent = `Latitude: ${lat !== null ? lat.toFixed(6) : '-'}`;
-        lngEl.textContent = `Longitude: ${lng !== null ? lng.toFixed(6) : '-'}`;
-    }
+    const known = lat !== null && lng !== null;
+    // The copy buttons copy the value without its label.
+    const lines: [string, string, string | null][] = [
+        ["lat-display", "Latitude", lat !== null ? lat.toFixed(6) : null],
+        ["lng-display", "Longitude", lng !== null ? lng.toFixed(6) : null],
+        ["dms-display", "DMS", known ? formatDms(lat!, lng!) : null],
+        // MGRS doesn't cover the poles.
+        ["mgrs-display", "MGRS", known ? formatMgrs(lat!, lng!) : null],
+    ];
+    lines.forEach(([id, label, value]) => {
+        const el = document.getElementById(id);
+        if (!el) return;
+        el.textContent = `${label}: ${value ?? '-'}`;
+        el.dataset.value = value ?? "";
+    });
 }
 
 // ---------------------- Data Pre-processing ----------------------
 
 /**
- * Fetches and pre-processes connection and point data to optimize rendering.
+ * Fetches the taxonomy and data files and pre-processes them to optimize rendering.
  * This computes values once on load rather than on every render.
  */
 async function preprocessData() {
-    const [connectionsJson, pointsJson] = await Promise.all([
+    const [connectionsJson, pointsJson, taxonomyJson] = await Promise.all([
         fetch(CONNECTIONS_DATA_URL).then(res => res.json()),
-        fetch(POINTS_DATA_URL).then(res => res.json())
+        fetch(POINTS_DATA_URL).then(res => res.json()),
+        fetch(TAXONOMY_DATA_URL).then(res => res.json())
     ]);
 
-    // Create a lookup map for points by name for efficient access.
+    // The taxonomy defines every group and type, so an unusable one stops the load.
+    const taxonomyIssues = validateTaxonomy(taxonomyJson);
+    if (taxonomyIssues.some(i => i.severity === "error")) {
+        throw new Error(`Invalid ${TAXONOMY_DATA_URL}:\n${formatReport(taxonomyIssues)}`);
+    }
+    taxonomy = compileTaxonomy(taxonomyJson as TaxonomyConfig);
+
+    // Broken rules are reported with the data issues and skipped.
+    const rulesJson = await loadRules();
+    const ruleIssues = rulesJson === null ? [] : validateRules(rulesJson, schemaFromTaxonomy(taxonomy));
+    connectionRules = parseRules(rulesJson);
+
     const allPoints = (pointsJson?.type === "FeatureCollection" ? pointsJson.features : pointsJson);
-    const pointMap = new Map<string, Feature>();
-    allPoints.forEach((p: Feature) => {
-        const name = getPointName(p); // getPointName handles nested properties
-        if (name) pointMap.set(name, p);
-    });
+    await deriveData({ points: allPoints, connections: connectionsJson }, [...taxonomyIssues, ...ruleIssues]);
+}
 
-    // Add HUB2 since it's referenced in connections but not in points.json
-    pointMap.set("HUB2", {
-        type: "Feature",
-        properties: { name: "HUB2" },
-        geometry: { type: "Point", coordinates: [HUB2_LNG, HUB2_LAT] }
-    });
+/**
+ * Fetches the rules file. A missing file means no rules; one that fails to parse is logged.
+ */
+async function loadRules(): Promise<unknown> {
+    try {
+        const res = await fetch(RULES_DATA_URL);
+        if (!res.ok) return null;
+        return await res.json();
+    } catch (err) {
+        console.warn(`Could not load ${RULES_DATA_URL}: ${(err as Error).message}`);
+        return null;
+    }
+}
 
-    // Pre-process connections: filter, resolve point references, and pre-calculate properties.
-    processedConnections = connectionsJson
-        .filter((c: any) => {
-            const connType = getConnType(c);
-            if (connType === 'TR') {
-                const fromName = getProp(c, "from");
-                const toPoint = pointMap.get(getProp(c, "to"));
-                const toLng = toPoint?.geometry.type === 'Point' ? toPoint.geometry.coordinates[0] : undefined;
-                if (toLng == null) return true; // Keep if destination is unknown.
-
-                // Mississippi River is approximately at -90 longitude
-                if (fromName === 'Ohio Pin') {
-                    return toLng > -90; // East of Mississippi
-                }
-                if (fromName === 'FOB1') {
-                    return toLng < -90; // West of Mississippi
-                }
-            } // Note: This logic seems very specific and might need review if data changes.
-            return true; // Keep all other connections
-        })
-        .map((c: any) => {
-            const fromPoint = pointMap.get(getProp(c, "from"));
-            const toPoint = pointMap.get(getProp(c, "to"));
-            // Pre-calculate pin types for the connection's endpoints.
-            const sourcePinType = fromPoint ? getPinType(fromPoint) : "BLUE_GROUP";
-            const targetPinType = toPoint ? getPinType(toPoint) : "BLUE_GROUP";
+/**
+ * Derives everything the layers draw from the source records: validation issues, resolved
+ * connections, pin types, pie icons, aggregated connections and label offsets.
+ * Runs on load and again after every edit.
+ * @param extraIssues - Issues found before the data (e.g. in the taxonomy), reported with it.
+ */
+async function deriveData(data: EditableData, extraIssues: DataIssue[] = []) {
+    sourceData = data;
+    const connectionsJson = data.connections;
+    const allPoints = data.points;
 
-            return {
-                ...c,
-                from: fromPoint,
-                to: toPoint,
-                _sourcePos: fromPoint?.geometry?.type === 'Point' ? (fromPoint.geometry as GeoJSON.Point).coordinates : undefined,
-                _targetPos: toPoint?.geometry?.type === 'Point' ? (toPoint.geometry as GeoJSON.Point).coordinates : undefined,
-                _connType: getConnType(c),
-                _ierTypes: getIERArray(c), // Pre-calculate IER types for filtering
-                _sourcePinType: sourcePinType,
-                _targetPinType: targetPinType,
-                _isHub1: connectsToHub({ _sourcePos: (fromPoint?.geometry as GeoJSON.Point)?.coordinates, _targetPos: (toPoint?.geometry as GeoJSON.Point)?.coordinates }),
-                _isHub2: connectsToHub2({ _sourcePos: (fromPoint?.geometry as GeoJSON.Point)?.coordinates, _targetPos: (toPoint?.geometry as GeoJSON.Point)?.coordinates })
-            };
-        })
-        .filter(c => c._sourcePos && c._targetPos); // Filter out connections with missing point coordinates.
-
-    // Pre-process points to calculate and cache their type.
-    processedPins = allPoints.map((p: any) => {
-        p._pinType = getPinType(p); // Pre-calculate pin type for all points
-        // All points are treated as pins.
-        return p;
-    });
+    // Validate the raw files so dropped or unstyled records are reported rather than lost silently.
+    dataIssues = [...extraIssues, ...validateData(connectionsJson, { type: "FeatureCollection", features: allPoints }, schemaFromTaxonomy(taxonomy))];
+    if (dataIssues.length > 0) console.warn(formatReport(dataIssues));
 
-    // --- Group overlapping pins and create pie chart icons ---
-    const pinsByLocation = new Map<string, any[]>();
-    processedPins.forEach(p => {
-        const coords = p.geometry.coordinates.join(',');
-        if (!pinsByLocation.has(coords)) {
-            pinsByLocation.set(coords, []);
-        }
-        pinsByLocation.get(coords)!.push(p);
-    });
+    // Index the points by name and pick the origin times are encoded from.
+    ({ pointMap, timeOrigin } = createContext(data, taxonomy));
 
-    overlappingPins = Array.from(pinsByLocation.values()).map(pins => {
-        const firstPin = pins[0];
-        const pinTypes = pins.map(p => p._pinType);
-        const colors = pins.map(p => colorPinkByType(p));
-        const iconUrl = createPieIcon(colors);
-
-        return {
-            ...firstPin, // Use first pin for position and base properties
-            count: pins.length,
-            pinTypes: pinTypes,
-            originalPins: pins,
-            iconUrl: iconUrl,
-        };
-    });
+    // Load icon images up front so missing assets fall back to the pie-chart pin.
+    await preloadIconAssets(allPoints.map(resolveIconKind).filter((kind): kind is string => kind !== null));
 
-    // Aggregate connections for the new layer
-    const aggregatedConnectionsMap = new Map<string, {
-        from: Feature | undefined;
-        to: Feature | undefined;
-        _sourcePos: [number, number];
-        _targetPos: [number, number];
-        _connTypes: Set<string>;
-        _ierTypes: Set<string>; // Add aggregated IER types
-        _count: number;
-        _sourcePinType: PointType;
-        _targetPinType: PointType;
-        _isHub1: boolean;
-        _isHub2: boolean;
-    }>();
-
-    processedConnections.forEach(conn => {
-        // Create a canonical key for each from/to pair of coordinates,
-        // regardless of direction, by sorting the coordinate strings before creating the key.
-        const pos1Str = conn._sourcePos.join(',');
-        const pos2Str = conn._targetPos.join(',');
-        const key = [pos1Str, pos2Str].sort().join('|');
-        if (!aggregatedConnectionsMap.has(key)) {
-            aggregatedConnectionsMap.set(key, {
-                from: conn.from,
-                to: conn.to,
-                _sourcePos: conn._sourcePos,
-                _targetPos: conn._targetPos,
-                _connTypes: new Set<string>(),
-                _ierTypes: new Set<string>(), // Initialize IER types set
-                _count: 0,
-                _sourcePinType: conn._sourcePinType, // Corrected from conn.sourcePinType
-                _targetPinType: conn._targetPinType, // Corrected from conn.targetPinType
-                _isHub1: false, // Will be OR-ed
-                _isHub2: false  // Will be OR-ed
-            });
-        }
-        const aggregated = aggregatedConnectionsMap.get(key)!;
-        aggregated._connTypes.add(conn._connType);
-        conn._ierTypes.forEach((ier: string) => aggregated._ierTypes.add(ier)); // Aggregate IER types
-        aggregated._count++;
-        aggregated._isHub1 = aggregated._isHub1 || conn._isHub1;
-        aggregated._isHub2 = aggregated._isHub2 || conn._isHub2;
+    const model = buildModel(data, pipelineContext());
+    processedConnections = model.edges;
+    overlappingPins = model.clusters;
+    processedPins = model.nodes;
+
+    applyTrackPositions();
+    aggregateConnections();
+    rulesTool?.refresh();
+}
+
+/**
+ * What the pipeline needs from the map: taxonomy, points, time origin, moving assets, loaded
+ * icons and connection rules.
+ */
+function pipelineContext(): PipelineContext {
+    return { taxonomy, pointMap, timeOrigin, movingNames: trackedNames, positionOf: pointPosition, iconAsset: getIconAsset, rules: connectionRules };
+}
+
+/**
+ * Aggregate the connections in the time window by site pair, for the aggregated view and its labels.
+ * Re-run when the window moves so counts and types match the connections that exist in it.
+ */
+function aggregateConnections() {
+    aggregatedConnections = aggregateEdges(processedConnections.filter(isInTimeWindow));
+}
+
+/**
+ * Fetches the tours listed in the tours manifest. Tours that fail to load or
+ * validate are skipped with a warning so one bad file doesn't hide the rest.
+ */
+async function loadTours(): Promise<Tour[]> {
+    try {
+        const files: string[] = await fetch(`${TOURS_BASE_URL}index.json`).then(res => res.json());
+        const results = await Promise.all(files.map(file =>
+            fetch(TOURS_BASE_URL + file)
+                .then(res => res.json())
+                .then(parseTour)
+                .catch(err => {
+                    console.warn(`Skipping tour ${file}: ${err.message}`);
+                    return null;
+                })
+        ));
+        return results.filter((t): t is Tour => t !== null);
+    } catch (err) {
+        console.warn(`Could not load the tour list: ${(err as Error).message}`);
+        return [];
+    }
+}
+
+// ---------------------- Tracks ----------------------
+
+/**
+ * Time the moving assets are shown at: the end of the timeline window, or now while all times are shown.
+ */
+function trackTime(): number {
+    return timeWindow ? timeWindow.end : Date.now();
+}
+
+/**
+ * Position a point is drawn at: where its track puts it, or its own coordinates.
+ */
+function pointPosition(p: any): [number, number] | undefined {
+    if (p?.geometry?.type !== 'Point') return undefined;
+    return trackSamples.get(getPointName(p))?.position ?? p.geometry.coordinates;
+}
+
+/**
+ * Move the tracked assets to their positions at `trackTime()`: their pins, markers and the ends
+ * of their connections. Pins are moved as copies, so the source points keep their coordinates.
+ */
+function applyTrackPositions() {
+    trackSamples = new Map(tracks.filter(t => pointMap.has(t.name)).map(t => [t.name, sampleTrack(t, trackTime())]));
+    if (trackSamples.size === 0) return;
+
+    const placed = new Map<string, any>();
+    processedPins = processedPins.map(p => {
+        const sample = trackSamples.get(getPointName(p));
+        if (!sample) return p;
+        const pin = { ...p, geometry: { ...p.geometry, coordinates: sample.position }, _heading: sample.heading };
+        placed.set(getPointName(p), pin);
+        return pin;
     });
+    overlappingPins = overlappingPins.map(group => {
+        const pin = placed.get(getPointName(group));
+        return pin && group._locationKey === locationKey(pin, trackedNames)
+            ? { ...group, geometry: pin.geometry, _heading: pin._heading, originalPins: [pin] }
+            : group;
+    });
+    processedConnections = processedConnections.map(c => {
+        const from = trackSamples.get(getPointName(c.from));
+        const to = trackSamples.get(getPointName(c.to));
+        return from || to ? { ...c, _sourcePos: from?.position ?? c._sourcePos, _targetPos: to?.position ?? c._targetPos } : c;
+    });
+}
 
-    aggregatedConnections = Array.from(aggregatedConnectionsMap.values()).map(agg => ({
-        ...agg,
-        _connTypes: Array.from(agg._connTypes), // Convert Set to Array for easier use
-        _ierTypes: Array.from(agg._ierTypes) // Convert IER Set to Array
-    }));
+/**
+ * Fetches the tracks file. A missing file means no tracks; one that fails to parse is logged.
+ */
+async function loadTracks(): Promise<(ParsedTracks & { source: string }) | null> {
+    try {
+        const res = await fetch(TRACKS_DATA_URL);
+        if (!res.ok) return null;
+        return { ...parseTracksJson(await res.json()), source: TRACKS_DATA_URL };
+    } catch (err) {
+        console.warn(`Could not load ${TRACKS_DATA_URL}: ${(err as Error).message}`);
+        return null;
+    }
+}
+
+/**
+ * Use a new set of tracks, e.g. from a file or the tracks file loaded at startup.
+ */
+function setTracks(list: Track[]) {
+    tracks = list;
+    trackedNames = new Set(list.map(t => t.name));
+    trackSamples = new Map();
+}
+
+// ---------------------- Live Updates ----------------------
+
+let liveRefreshFrame: number | null = null;
+let liveTimesChanged = false;
 
-    // --- Assign label offsets for overlapping pins ---
-    overlappingPins.forEach(pinGroup => {
-        if (pinGroup.count > 1) { // Only apply special offsets for overlapping pins
-            const numSlices = pinGroup.count;
-            const sliceAngle = 360 / numSlices;
-            const offsetRadius = 45; // Distance of the label from the center of the icon
-
-            pinGroup.originalPins.forEach((p: any, i: number) => {
-                // Calculate the angle for the middle of the slice
-                const midAngle = -90 + (i * sliceAngle) + (sliceAngle / 2);
-                const midAngleRad = midAngle * (Math.PI / 180);
-
-                // Convert polar coordinates (radius, angle) to Cartesian coordinates (x, y) for the offset
-                const offsetX = offsetRadius * Math.cos(midAngleRad);
-                const offsetY = offsetRadius * Math.sin(midAngleRad);
-                p._labelOffset = [offsetX, offsetY];
-            });
+/**
+ * Rebuild the marker at one location from the pins now there, dropping it when none are left.
+ */
+function regroupLocation(key: string) {
+    const pins = processedPins.filter(p => locationKey(p, trackedNames) === key);
+    const index = overlappingPins.findIndex(group => group._locationKey === key);
+    const groups = overlappingPins.slice();
+    if (pins.length === 0) {
+        if (index >= 0) groups.splice(index, 1);
+    } else if (index >= 0) {
+        groups[index] = buildCluster(pins, pipelineContext());
+    } else {
+        groups.push(buildCluster(pins, pipelineContext()));
+    }
+    overlappingPins = groups;
+}
+
+/**
+ * Re-process the source connections at the given indices (e.g. after an endpoint moved),
+ * keeping `processedConnections` in source order.
+ */
+function reprocessConnections(indices: Set<number>) {
+    if (indices.size === 0) return;
+    const updated = buildEdges(sourceData.connections, pipelineContext(), indices);
+    processedConnections = processedConnections
+        .filter(c => !indices.has(c._index))
+        .concat(updated)
+        .sort((a, b) => a._index - b._index);
+}
+
+/**
+ * Apply one live message to the source and processed data. The change is drawn on the next
+ * `scheduleLiveRefresh` frame. It is not an edit: the editor takes it into every step of its
+ * history, so undo and redo keep it.
+ * @returns A description of why the message could not be applied, or null.
+ */
+function applyLiveMessage(msg: LiveMessage): string | null {
+    let update: LiveUpdate;
+    try {
+        update = applyLiveUpdate(sourceData, msg);
+    } catch (err) {
+        return (err as Error).message;
+    }
+    const previous = sourceData;
+    sourceData = update.data;
+    editorTool?.applyExternalChange(data => applyLiveUpdate(data, msg).data);
+
+    switch (msg.type) {
+        case "point-added": {
+            const raw: RawPoint = sourceData.points[sourceData.points.length - 1];
+            pointMap.set(getPointName(raw), raw);
+            const point = processNode(raw, pipelineContext());
+            processedPins = [...processedPins, point];
+            regroupLocation(locationKey(point, trackedNames));
+            reprocessConnections(update.connections);
+            liveTimesChanged = true;
+            // Draw the plain pin now and its icon once the asset has loaded.
+            const iconKind = point._iconKind;
+            if (iconKind && !getIconAsset(iconKind)) {
+                preloadIconAssets([iconKind]).then(() => {
+                    regroupLocation(locationKey(point, trackedNames));
+                    scheduleLiveRefresh();
+                });
+            }
+            break;
         }
-    });
+        case "point-moved":
+        case "point-removed": {
+            const old = previous.points.find((p: any) => getPointName(p) === msg.name);
+            if (msg.type === "point-moved") {
+                const raw: RawPoint = sourceData.points.find((p: any) => getPointName(p) === msg.name);
+                pointMap.set(msg.name, raw);
+                const point = processNode(raw, pipelineContext());
+                processedPins = processedPins.map(p => getPointName(p) === msg.name ? point : p);
+                regroupLocation(locationKey(point, trackedNames));
+            } else {
+                pointMap.delete(msg.name);
+                processedPins = processedPins.filter(p => getPointName(p) !== msg.name);
+            }
+            regroupLocation(locationKey(old, trackedNames));
+            reprocessConnections(update.connections);
+            liveTimesChanged = true;
+            break;
+        }
+        case "connection-status":
+            reprocessConnections(update.connections);
+            break;
+    }
+    return null;
+}
 
-    // Flatten originalPins back into processedPins for the label layer
-    processedPins = overlappingPins.flatMap(group => group.originalPins);
+/**
+ * Re-aggregate and redraw once per frame, however many live messages arrived in it.
+ */
+function scheduleLiveRefresh() {
+    if (liveRefreshFrame !== null) return;
+    liveRefreshFrame = requestAnimationFrame(() => {
+        liveRefreshFrame = null;
+        applyTrackPositions();
+        aggregateConnections();
+        rulesTool?.refresh();
+        refreshCounts();
+        overlay?.setProps({ layers: buildLayers(processedConnections, processedPins) });
+        // Added or moved points can widen the time extent.
+        if (liveTimesChanged) timelineControl?.refresh();
+        liveTimesChanged = false;
+    });
 }
 
 // ---------------------- Initialization ----------------------
@@ -1298,12 +2079,16 @@ async function preprocessData() {
  * Initializes the Google Map, Deck.gl overlay, UI controls, and event listeners.
  */
 async function initMap(): Promise<void> {
+    // View state from a shared link, if any; anything it omits keeps the defaults.
+    const initialView = decodeViewState(window.location.hash);
+
     const map = new google.maps.Map(
         document.getElementById("map") as HTMLElement,
         {
-            center: { lat: 39.5, lng: -98.35 },
-            zoom: 4,
-            tilt: 30,
+            center: initialView.center ?? { lat: 39.5, lng: -98.35 },
+            zoom: initialView.zoom ?? 4,
+            tilt: initialView.tilt ?? 30,
+            heading: initialView.heading ?? 0,
             mapId: "90f87356969d889c",
             draggableCursor: 'default',
             draggingCursor: 'grabbing',
@@ -1312,7 +2097,7 @@ async function initMap(): Promise<void> {
             mapTypeControlOptions: {
                 style: google.maps.MapTypeControlStyle.HORIZONTAL_BAR,
                 position: google.maps.ControlPosition.TOP_LEFT,
-                mapTypeIds: ["no_labels_map", "white_map", "black_map", "satellite"],
+                mapTypeIds: MAP_TYPE_IDS,
             },
         }
     );
@@ -1335,205 +2120,312 @@ async function initMap(): Promise<void> {
     });
     map.mapTypes.set("black_map", blackMapType);
 
-    map.setMapTypeId("no_labels_map"); // Set the default map type
+    // Set the default map type, unless the link names another offered one.
+    map.setMapTypeId(initialView.mapTypeId && MAP_TYPE_IDS.includes(initialView.mapTypeId) ? initialView.mapTypeId : "no_labels_map");
 
-    // Fetch and process data before rendering layers
+    // Fetch and process data before rendering layers; tracks decide which pins are moving assets.
+    const startupTracks = await loadTracks();
+    setTracks(startupTracks?.tracks ?? []);
     await preprocessData();
 
     // Define the update function shared by all controls
     const layerUpdateCallback = () => {
+        refreshCounts();
         overlay.setProps({ layers: buildLayers(processedConnections, processedPins) });
+        writeViewStateToUrl(map);
     };
 
+    // Initialize with all filters off by default, then apply any filters from the link.
+    // This happens before the controls are built so their initial checked state matches.
+    activeTypes = new Set();
+    activePointTypes = new Set();
+    activeIerTypes = new Set(); // Initialize IER filter set
+    applyFilterState(initialView);
+
     // Add UI components
     addCoordinatesUI();
+    addDataIssuesPanel(dataIssues);
     // Add multi-filter controls, which includes all filtering and label toggles.
     addMultiFilterControls(map, layerUpdateCallback);
+    addCopyLinkButton(map);
+    const topRightPanel = document.getElementById('top-right-panel');
+    if (topRightPanel) {
+        addExportMenu(topRightPanel, getVisibleView);
+        addSavedViewsPanel(topRightPanel, () => getViewState(map), state => applyViewState(map, state, layerUpdateCallback));
+        routeTool = addRoutePanel(topRightPanel, {
+            getPointNames: () => processedPins.map(getPointName).filter(Boolean),
+            getConnections: () => processedConnections,
+            getActiveTypes: () => activeTypes,
+            connectionTypes: taxonomy.connectionTypes,
+            onPathChange: path => {
+                routePath = path;
+                layerUpdateCallback();
+            },
+        });
+        measureTool = addMeasurePanel(topRightPanel, {
+            getPointNames: () => processedPins.map(getPointName).filter(Boolean),
+            getPosition: name => {
+                const pin = processedPins.find(p => getPointName(p) === name);
+                return pin ? asLngLat(pin) : null;
+            },
+            onChange: view => {
+                measureView = view;
+                layerUpdateCallback();
+            },
+        });
+        nodeFilterTool = addNodeFilterPanel(topRightPanel, {
+            getPointNames: () => processedPins.map(getPointName).filter(Boolean),
+            getFilter: () => nodeFilter,
+            setFilter: filter => {
+                nodeFilter = filter;
+                layerUpdateCallback();
+            },
+        });
+        statsTool = addStatsPanel(topRightPanel, {
+            getStats: () => computeStats({
+                edges: processedConnections.filter(isConnectionShown),
+                nodes: processedPins.filter(isPinShown),
+                allEdges: processedConnections,
+                groupOrder: taxonomy.groups.map(g => g.key),
+            }),
+            typeColor: key => getConnectionStyle(taxonomy, key).color,
+            groupLabel: key => taxonomy.groupByKey.get(key)?.label ?? key,
+            groupColor: key => getGroupColor(taxonomy, key),
+            ierLabel: key => taxonomy.ierTypes.find(t => t.key === key)?.label ?? key,
+            onSelect: selection => {
+                if (selection.kind === "locate") {
+                    locateSite(selection.name);
+                    return;
+                }
+                applyStatsSelection(selection);
+                syncControls();
+                layerUpdateCallback();
+            },
+        });
+        rulesTool = addRulesPanel(topRightPanel, {
+            getRules: () => connectionRules,
+            explain: () => explainRules(sourceData.connections, pipelineContext()),
+        });
+        resilienceTool = addResiliencePanel(topRightPanel, {
+            getConnections: () => processedConnections,
+            connectionTypes: taxonomy.connectionTypes,
+            getGroupLabel: name => {
+                const pin = processedPins.find(p => getPointName(p) === name);
+                const key = pin ? pin._pinType : taxonomy.defaultGroup;
+                return taxonomy.groupByKey.get(key)?.label ?? key;
+            },
+            onChange: view => {
+                resilienceView = view;
+                layerUpdateCallback();
+            },
+        });
+        editorTool = addEditorPanel(topRightPanel, {
+            map,
+            getData: () => sourceData,
+            groups: taxonomy.groups,
+            connectionTypes: taxonomy.connectionTypes,
+            ierTypes: taxonomy.ierTypes,
+            iconKinds: Object.entries(ICON_REGISTRY).map(([key, icon]) => ({ key, label: icon.label })),
+            onDataChange: async data => {
+                await deriveData(data);
+                timelineControl?.refresh();
+                layerUpdateCallback();
+            },
+        });
+        // Imports go through the editor so they can be undone and exported like any other edit.
+        addImportPanel(topRightPanel, {
+            getData: () => sourceData,
+            extraPointNames: schemaFromTaxonomy(taxonomy).extraPointNames ?? [],
+            applyData: (label, data) => editorTool!.applyData(label, data),
+        });
+        addSnapshotPanel(topRightPanel, {
+            getCamera: () => ({ ...getCamera(map), width: map.getDiv().clientWidth, height: map.getDiv().clientHeight }),
+            getBasemap: () => getStaticBasemap(map),
+            apiKey: import.meta.env.VITE_GOOGLE_MAPS_API_KEY,
+            buildLayers: () => buildLayers(processedConnections, processedPins),
+            getLegend: getSnapshotLegend,
+        });
+        addTracksPanel(topRightPanel, {
+            setTracks: async list => {
+                setTracks(list);
+                // Re-derive so tracked assets get markers of their own and their links follow them.
+                await deriveData(sourceData);
+                timelineControl?.refresh();
+                layerUpdateCallback();
+            },
+            setOptions: options => {
+                trackOptions = options;
+                layerUpdateCallback();
+            },
+            hasPoint: name => pointMap.has(name),
+        }, startupTracks);
+        addLivePanel(topRightPanel, {
+            defaultUrl: import.meta.env.VITE_LIVE_FEED_URL,
+            onMessages: messages => {
+                const problems = messages.map(applyLiveMessage).filter((p): p is string => p !== null);
+                scheduleLiveRefresh();
+                return problems;
+            },
+        });
+    }
 
-    // Initialize with all filters off by default.
-    activeTypes = new Set();
-    activePointTypes = new Set();
-    activeIerTypes = new Set(); // Initialize IER filter set
-
-    // Create and display the "Fly from OKC to HUB" button on load
-    const flyToButton = document.createElement('button');
-    flyToButton.id = 'fly-to-btn';
-    flyToButton.textContent = 'Fly from OKC to HUB';
-    flyToButton.style.cssText = `
-        position: absolute; z-index: 10; top: 60px; left: 280px;
-        padding: 8px 10px; border: 1px solid #ccc; border-radius: 8px;
-        background: #ffffff; box-shadow: 0 2px 8px rgba(0,0,0,.15);
-        font: 13px system-ui, sans-serif; cursor: pointer;
-    `;
-    flyToButton.addEventListener('click', () => {
-        const okcCoords = { lat: 35.4676, lng: -97.5164 };
-        const hubCoords = { lat: 39.4204, lng: -118.7242 };
-        const ZOOM_DURATION = 1500; // 1.5 seconds for zoom
-        const PAN_DURATION = 4000; // 4 seconds for pan
-        const PAUSE_DURATION = 1000; // 1 second pause
-
-        // 1. Animate zoom into OKC.
-        const zoomStartTime = performance.now();
-        const animateZoom = (currentTime: number) => {
-            const elapsedTime = currentTime - zoomStartTime;
-            const progress = Math.min(elapsedTime / ZOOM_DURATION, 1);
-            const easedProgress = 1 - Math.pow(1 - progress, 3); // easeOutCubic
-
-            const currentZoom = 5 + (10 - 5) * easedProgress; // Zoom from 5 to 10
-            const currentTilt = 0 + (45 - 0) * easedProgress; // Tilt from 0 to 45
-
-            map.moveCamera({ center: okcCoords, zoom: currentZoom, tilt: currentTilt });
-
-            if (progress < 1) {
-                requestAnimationFrame(animateZoom);
-            } else {
-                // 2. After zoom is complete, pause.
-                setTimeout(() => {
-                    // 3. Animate pan from OKC to HUB with a zoom-out/zoom-in effect.
-                    const panStartTime = performance.now();
-                    const animatePan = (panCurrentTime: number) => {
-                        const panElapsedTime = panCurrentTime - panStartTime;
-                        const panProgress = Math.min(panElapsedTime / PAN_DURATION, 1);
-                        const panEasedProgress = 1 - Math.pow(1 - panProgress, 3); // easeOutCubic
-
-                        // Interpolate zoom to create an "arc" effect
-                        const startZoom = 10;
-                        const midZoom = 6; // Zoom out to this level at the halfway point
-                        let currentZoom;
-
-                        if (panEasedProgress <= 0.5) {
-                            // First half: Zoom out from 10 to 6
-                            const zoomOutProgress = panEasedProgress * 2; // Map [0, 0.5] to [0, 1]
-                            currentZoom = startZoom + (midZoom - startZoom) * zoomOutProgress;
-                        } else {
-                            // Second half: Zoom in from 6 to 10
-                            const zoomInProgress = (panEasedProgress - 0.5) * 2; // Map [0.5, 1] to [0, 1]
-                            currentZoom = midZoom + (startZoom - midZoom) * zoomInProgress;
-                        }
-
-                        const currentLat = okcCoords.lat + (hubCoords.lat - okcCoords.lat) * panEasedProgress;
-                        const currentLng = okcCoords.lng + (hubCoords.lng - okcCoords.lng) * panEasedProgress;
-
-                        map.moveCamera({
-                            center: { lat: currentLat, lng: currentLng },
-                            zoom: currentZoom,
-                            tilt: 45,
-                        });
-
-                        if (panProgress < 1) {
-                            requestAnimationFrame(animatePan);
-                        }
-                    };
-                    requestAnimationFrame(animatePan);
-                }, PAUSE_DURATION);
-            }
-        };
+    siteDetailPanel = addSiteDetailPanel({
+        getPoint: name => processedPins.find(p => getPointName(p) === name) ?? null,
+        getConnections: () => processedConnections,
+        getGroup: point => {
+            const key = getPinType(point);
+            return { key, label: taxonomy.groupByKey.get(key)?.label ?? key, color: getGroupColor(taxonomy, key) };
+        },
+        flyTo: name => flyToPoint(map, name, 0),
+        getSiteFilter: () => siteFilter,
+        setSiteFilter: name => {
+            siteFilter = name;
+            layerUpdateCallback();
+        },
+    });
 
-        // Set initial view and kick off the animation.
-        map.moveCamera({ center: okcCoords, zoom: 5, heading: 0, tilt: 0 });
-        requestAnimationFrame(animateZoom);
+    // Keep the URL in step with camera and map type changes.
+    map.addListener('idle', () => writeViewStateToUrl(map));
+    map.addListener('maptypeid_changed', () => writeViewStateToUrl(map));
+
+    // Tour picker and player, in the spot the fly-to/demonstration buttons used to occupy.
+    const tourContainer = document.createElement('div');
+    tourContainer.style.cssText = `position: absolute; z-index: 10; top: 60px; left: 280px;`;
+    document.getElementById('map')?.appendChild(tourContainer);
+    addTourPanel(tourContainer, await loadTours(), {
+        getCamera: () => getCamera(map),
+        moveCamera: camera => map.moveCamera(camera),
+        resolvePoint: name => {
+            const pin = processedPins.find(p => getPointName(p) === name);
+            const coords = pin ? asLngLat(pin) : null;
+            return coords ? { lat: coords[1], lng: coords[0] } : null;
+        },
+        getFilters: () => ({
+            connTypes: Array.from(activeTypes),
+            pinGroups: Array.from(activePointTypes),
+            ierTypes: Array.from(activeIerTypes),
+        }),
+        setFilters: filters => {
+            applyFilterState(filters);
+            syncControls(); // Sync UI with new filter state
+            layerUpdateCallback();
+        },
+        setHighlight: highlight => {
+            tourHighlight = highlight;
+            layerUpdateCallback();
+        },
     });
-    const mapDiv = document.getElementById('map');
-    if (mapDiv) {
-        mapDiv.appendChild(flyToButton);
-    }
 
-    // Create and display the new button underneath the "Fly to" button.
-    const newButton = document.createElement('button');
-    newButton.id = 'new-button';
-    newButton.textContent = 'New Button';
-    newButton.textContent = 'Demonstration';
-    newButton.style.cssText = `
-        position: absolute; z-index: 10; top: 105px; left: 280px;
-        padding: 8px 10px; border: 1px solid #ccc; border-radius: 8px;
-        background: #ffffff; box-shadow: 0 2px 8px rgba(0,0,0,.15);
-        font: 13px system-ui, sans-serif; cursor: pointer;
-    `;
-    if (mapDiv) {
-        mapDiv.appendChild(newButton);
-    }
+    // Site search, centred along the top edge.
+    const searchContainer = document.createElement('div');
+    searchContainer.style.cssText = `position: absolute; z-index: 10; top: 10px; left: 50%; transform: translateX(-50%);`;
+    document.getElementById('map')?.appendChild(searchContainer);
 
-    // Function to update UI checkboxes based on active filter sets
-    const updateCheckboxes = () => {
-        document.querySelectorAll<HTMLInputElement>('.conn-cb').forEach(cb => {
-            cb.checked = activeTypes.has(cb.dataset.key as ConnType);
-        });
-        document.querySelectorAll<HTMLInputElement>('.pin-cb').forEach(cb => {
-            cb.checked = activePointTypes.has(cb.dataset.key as PointType);
-        });
+    /** Redraw every frame while the search pulse runs. */
+    const animatePulse = () => {
+        if (searchPulse && performance.now() - searchPulse.startedAt > SEARCH_PULSE_MS) searchPulse = null;
+        overlay.setProps({ layers: buildLayers(processedConnections, processedPins) });
+        if (searchPulse) requestAnimationFrame(animatePulse);
     };
-
-    /**
-     * Runs an automated demonstration sequence with delays.
-     */
-    async function runDemonstration() {
-        // Helper to pause execution
-        const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
-
-        newButton.disabled = true;
-        newButton.textContent = "Running Demo...";
-
-        // Step 1: Turn off all filters, reveal OKC pin, and center camera.
-        activeTypes.clear();
-        activePointTypes.clear();
-        activePointTypes.add("OKC_GROUP"); // "MOB" is in OKC_GROUP
-        const okcPin = processedPins.find(p => getPointName(p) === "MOB");
-        const okcCoords = okcPin && 'geometry' in okcPin && okcPin.geometry.type === 'Point' ? asLngLat(okcPin) : null;
-        if (okcCoords) {
-            map.panTo({ lat: okcCoords[1], lng: okcCoords[0] });
-            map.setZoom(6);
+    const hideRevealedGroup = () => {
+        if (!searchRevealedGroup) return;
+        activePointTypes.delete(searchRevealedGroup);
+        searchRevealedGroup = null;
+        syncControls();
+    };
+    /** Fly to a site and pulse it, showing its pin group until the next search if it is hidden. */
+    const locateSite = async (name: string) => {
+        hideRevealedGroup();
+        const group = getPinType(processedPins.find(p => getPointName(p) === name));
+        if (!activePointTypes.has(group)) {
+            activePointTypes.add(group);
+            searchRevealedGroup = group;
+            syncControls();
         }
-        updateCheckboxes(); // Sync UI with new filter state
+        searchPulse = null;
         layerUpdateCallback();
-
-        await delay(2000); // Wait for 2 seconds
-
-        // Step 2: Reveal P nodes and RT connections
-        activePointTypes.add("RED_GROUP"); // 'P' pins are in RED_GROUP
-        map.setZoom(5);
-        activeTypes.add("RT");
-        updateCheckboxes();
-        layerUpdateCallback();
-
-        await delay(2000); // Wait for another 2 seconds
-
-        // Step 3: Zoom out further, reveal S pins and TR connections
-        map.setZoom(4); // Zoom out further
-        activePointTypes.add("BLUE_GROUP"); // 'S' pins are in BLUE_GROUP
-        activeTypes.add("TR");
-        updateCheckboxes();
-        layerUpdateCallback();
-
-        newButton.disabled = false;
-        newButton.textContent = "Run Demonstration";
-    }
-
-    // Initialize button text
-    newButton.textContent = "Run Demonstration";
-
-    newButton.addEventListener('click', () => {
-        runDemonstration();
+        await flyToPoint(map, name);
+        searchPulse = { name, startedAt: performance.now() };
+        requestAnimationFrame(animatePulse);
+    };
+    addSearchBox(searchContainer, {
+        getPoints: () => processedPins,
+        onSelect: locateSite,
+        onClear: () => {
+            hideRevealedGroup();
+            searchPulse = null;
+            layerUpdateCallback();
+        },
     });
 
     map.addListener('click', (e: google.maps.MapMouseEvent) => {
         const ll = e.latLng;
         if (ll) updateCoordinatesUI(ll.lat(), ll.lng());
+        if (ll) editorTool?.mapClick(ll.lat(), ll.lng());
+        if (ll && measureTool?.isMeasuring()) measureClick(e, ll);
     });
+
+    /**
+     * Add a measured point where the map was clicked, snapped to the pin under the pointer if any.
+     */
+    const measureClick = (e: google.maps.MapMouseEvent, ll: google.maps.LatLng) => {
+        const event = e.domEvent;
+        let pin: any = null;
+        if (overlay && event && 'clientX' in event) {
+            const rect = map.getDiv().getBoundingClientRect();
+            pin = overlay.pickObject({ x: event.clientX - rect.left, y: event.clientY - rect.top, radius: 4, layerIds: ['pins', 'pin-assets'] })?.object;
+        }
+        const position = pin ? asLngLat(pin) : null;
+        if (pin && position) measureTool!.addPoint(position, getPointName((pin.originalPins ?? [pin])[0]));
+        else measureTool!.addPoint([ll.lng(), ll.lat()]);
+    };
     
     // Initialize the overlay with the first set of layers
+    refreshCounts();
     overlay = new GoogleMapsOverlay({
         layers: buildLayers(processedConnections, processedPins),
-        
+
+        // Clicks on pins feed whichever tool is waiting for a site, or open the site's details.
+        onClick: ({ object, layer }) => {
+            if (!object) return;
+            // While measuring, the map click handler takes pin clicks too, snapping to the pin.
+            if (measureTool?.isMeasuring()) return;
+            if (editorTool?.isEditing() && (layer?.id === 'flights' || layer?.id === 'ier-connections')) {
+                editorTool.pickConnection(object._index);
+                return;
+            }
+            if (layer?.id !== 'pins' && layer?.id !== 'pin-assets') return;
+            // Overlapping pins share a marker; the first pin in the group stands for it.
+            const names: string[] = (object.originalPins ?? [object]).map(getPointName);
+            if (editorTool?.isEditing()) editorTool.pickPoint(names[0]);
+            else if (routeTool?.isPicking()) routeTool.pickPoint(names[0]);
+            else if (nodeFilterTool?.isPicking()) nodeFilterTool.pickPoint(names[0]);
+            else if (resilienceTool?.isSimulating()) resilienceTool.toggleFailure(names[0]);
+            else siteDetailPanel?.show(names);
+        },
+
         // Tooltip displayed on hover.
         getTooltip: ({ object, layer }) => {
             if (!object) return null;
+            // Names, tech, types and IER values can come from imports or the live feed; escape them all.
+
+            // Known link statuses; links without one show nothing.
+            const statusHtml = (statuses: LinkStatus[]) => {
+                const known = LINK_STATUSES.filter(s => s !== "unknown" && statuses.includes(s));
+                return known.length ? `<div>Status: ${known.map(s => LINK_STATUS_STYLES[s].label).join(', ')}</div>` : '';
+            };
             
+            // Great-circle length of a link between its drawn endpoints.
+            const lengthHtml = (d: any) => d._sourcePos && d._targetPos
+                ? `<div>Length: ${formatDistance(distanceKm(d._sourcePos, d._targetPos))} (${formatDistance(distanceKm(d._sourcePos, d._targetPos), "nm")})</div>`
+                : '';
+
             // Tooltip for pins and icons.
-            if (layer?.id === 'pins' && object.count > 1) {
+            if ((layer?.id === 'pins' || layer?.id === 'pin-assets') && object.count > 1) {
                 const pinList = object.originalPins.map((p: any) => {
                     const name = p?.properties?.name ?? "Pin";
                     const [lng, lat] = asLngLat(p) ?? [];
-                    return `<div><b>${name}</b></div><div>(Lat: ${fmt(lat)}, Lng: ${fmt(lng)})</div>`;
+                    return `<div><b>${escapeHtml(String(name))}</b></div><div>(Lat: ${fmt(lat)}, Lng: ${fmt(lng)})</div>${linkStatusBadgeHtml(name)}`;
                 }).join('<hr style="margin: 2px 0; border-color: #555;">');
                 return {
                     html: `
@@ -1544,15 +2436,18 @@ async function initMap(): Promise<void> {
                         </div>
                     `
                 };
-            } else if (layer?.id === 'pins') {
+            } else if (layer?.id === 'pins' || layer?.id === 'pin-assets') {
                 const name = object?.properties?.name ?? (layer?.id === "pins" ? "Pin" : "Icon");
                 const [lng, lat] = asLngLat(object) ?? [];
+                const iconHtml = object.iconKind ? `<div><b>Icon</b>: ${ICON_REGISTRY[object.iconKind].label}</div>` : '';
                 return {
                     html: `
                         <div style="font-family:system-ui; font-size:12px; line-height:1.35; color:white">
-                            <div><b>${name}</b></div>
+                            <div><b>${escapeHtml(String(name))}</b></div>
+                            ${iconHtml}
                             <div><b>Lat</b>: ${fmt(lat)}</div>
                             <div><b>Lng</b>: ${fmt(lng)}</div>
+                            ${linkStatusBadgeHtml(name)}
                         </div>
                     `
                 };
@@ -1564,15 +2459,17 @@ async function initMap(): Promise<void> {
                 const toName = object?.to?.properties?.name ?? "Unknown End";
                 const fromTech = object?.from?.properties?.tech;
                 const toTech = object?.to?.properties?.tech;
-                const connTypes = object?._connTypes?.join(', ') ?? "N/A";
+                const connTypes = escapeHtml(object?._connTypes?.join(', ') ?? "N/A");
                 const count = object?._count ?? 0;
-                const fromString = `"${fromName}"${fromTech ? ` (${fromTech})` : ''}`;
-                const toString = `"${toName}"${toTech ? ` (${toTech})` : ''}`;
+                const fromString = `"${escapeHtml(String(fromName))}"${fromTech ? ` (${escapeHtml(String(fromTech))})` : ''}`;
+                const toString = `"${escapeHtml(String(toName))}"${toTech ? ` (${escapeHtml(String(toTech))})` : ''}`;
                 return {
                     html: `
                         <div style="font-family:system-ui; font-size:12px; line-height:1.35; color:white">
                             <div><b>${fromString} &rarr; ${toString}</b></div>
                             <div style="margin-top:4px;">Types (${count}): ${connTypes || 'N/A'}</div>
+                            ${lengthHtml(object)}
+                            ${statusHtml(object._statuses ?? [])}
                         </div>
                     `
                 };
@@ -1587,15 +2484,22 @@ async function initMap(): Promise<void> {
             const fromTech = fromObj?.properties?.tech;
             const toTech = toObj?.properties?.tech;
             const ierArray = getIERArray(object);
-            const ierHtml = ierArray.length > 0 ? `<div style="margin-top:4px;">IER: ${ierArray.join(', ')}</div>` : '';
+            const ierHtml = ierArray.length > 0 ? `<div style="margin-top:4px;">IER: ${escapeHtml(ierArray.join(', '))}</div>` : '';
+            const linkStatusHtml = statusHtml([object._status ?? getLinkStatus(object)]);
+            const rulesHtml = object._rules?.length
+                ? `<div>Rules: ${object._rules.map((m: RuleMatch) => `${escapeHtml(m.id)} (${escapeHtml(m.action)})`).join(', ')}</div>`
+                : '';
 
             return {
                 html: `
                     <div style="font-family:system-ui; font-size:12px; line-height:1.35; color: white">
-                        <div>From: "${fromName}" (${fromTech ?? 'N/A'})</div>
-                        <div>To: "${toName}" (${toTech ?? 'N/A'})</div>
-                        <div style="margin-top:4px;">Type: ${connType}</div>
+                        <div>From: "${escapeHtml(String(fromName))}" (${escapeHtml(String(fromTech ?? 'N/A'))})</div>
+                        <div>To: "${escapeHtml(String(toName))}" (${escapeHtml(String(toTech ?? 'N/A'))})</div>
+                        <div style="margin-top:4px;">Type: ${escapeHtml(connType)}</div>
+                        ${lengthHtml(object)}
                         ${ierHtml}
+                        ${linkStatusHtml}
+                        ${rulesHtml}
                     </div>
                 `
             };
@@ -1603,6 +2507,21 @@ async function initMap(): Promise<void> {
     });
 
     overlay.setMap(map);
+    // A status style or flow restored from the URL animates from the start.
+    if (showLinkStatus || showFlow) startAnimation();
+
+    // Timeline: moving the window changes the filter range and re-aggregates the connections in it.
+    // The window isn't part of the shared view state, so this skips the URL update during playback.
+    timelineControl = addTimelineControl({
+        getExtent: () => timeExtent([...processedConnections, ...processedPins].map(d => d._span).concat(tracks.map(trackSpan))),
+        onChange: window => {
+            timeWindow = window;
+            applyTrackPositions();
+            aggregateConnections();
+            refreshCounts();
+            overlay.setProps({ layers: buildLayers(processedConnections, processedPins) });
+        },
+    });
 }
 
 // Export initMap to the global window object for the Maps API to call it.
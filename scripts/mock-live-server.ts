@@ -0,0 +1,137 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Mock live feed for development: replays a scripted event file to every client, over
+ * Server-Sent Events at /events and WebSocket at /ws.
+ *
+ * Usage: npm run mock:live -- [events.json] [--port 8787] [--loop]
+ *
+ * The event file is {"loop"?: boolean, "events": [{"after": ms, "message": ...}]}, where
+ * `after` is the delay since the previous event and `message` is sent as one frame (a
+ * message or an array of messages; see src/liveFeed.ts). Each client gets its own replay
+ * from the start.
+ */
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import type { Socket } from 'node:net';
+
+const ROOT = resolve(__dirname, '..');
+const DEFAULT_EVENTS_FILE = resolve(ROOT, 'database/live/demo-events.json');
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+interface ScriptedEvent {
+    after: number;
+    message: unknown;
+}
+
+const args = process.argv.slice(2);
+const portIndex = args.indexOf('--port');
+const port = portIndex >= 0 ? Number(args[portIndex + 1]) : 8787;
+const file = args.find((arg, i) => !arg.startsWith('--') && (portIndex < 0 || i !== portIndex + 1)) ?? DEFAULT_EVENTS_FILE;
+
+const script = JSON.parse(readFileSync(resolve(file), 'utf8'));
+const events: ScriptedEvent[] = script.events ?? [];
+const loop = args.includes('--loop') || script.loop === true;
+if (!Number.isFinite(port) || events.length === 0) {
+    console.error('Usage: npm run mock:live -- [events.json] [--port 8787] [--loop]');
+    process.exit(1);
+}
+
+/**
+ * Send the scripted frames to one client until the script ends or the client goes away.
+ * @returns A function that stops the replay.
+ */
+function replay(send: (text: string) => void, done: () => void): () => void {
+    let index = 0;
+    let timer: ReturnType<typeof setTimeout>;
+    const next = () => {
+        if (index === events.length) {
+            if (!loop) return done();
+            index = 0;
+        }
+        const event = events[index++];
+        timer = setTimeout(() => {
+            send(JSON.stringify(event.message));
+            next();
+        }, Math.max(0, event.after ?? 0));
+    };
+    next();
+    return () => clearTimeout(timer);
+}
+
+/**
+ * Encode a text frame as the server sends it: final, unmasked.
+ */
+function webSocketFrame(text: string): Buffer {
+    const payload = Buffer.from(text, 'utf8');
+    let header: Buffer;
+    if (payload.length < 126) {
+        header = Buffer.from([0x81, payload.length]);
+    } else if (payload.length < 65536) {
+        header = Buffer.alloc(4);
+        header[0] = 0x81;
+        header[1] = 126;
+        header.writeUInt16BE(payload.length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[0] = 0x81;
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    return Buffer.concat([header, payload]);
+}
+
+const server = createServer((req, res) => {
+    if (req.url?.split('?')[0] !== '/events') {
+        res.writeHead(404, { 'Access-Control-Allow-Origin': '*' }).end('Live events are at /events (SSE) and /ws (WebSocket).\n');
+        return;
+    }
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'Access-Control-Allow-Origin': '*',
+    });
+    console.log(`SSE client connected (${req.socket.remoteAddress})`);
+    const stop = replay(text => res.write(`data: ${text}\n\n`), () => res.end());
+    req.on('close', stop);
+});
+
+// Just enough of RFC 6455 for a browser to receive text frames.
+server.on('upgrade', (req, socket: Socket) => {
+    const key = req.headers['sec-websocket-key'];
+    if (req.url?.split('?')[0] !== '/ws' || typeof key !== 'string') {
+        socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+        return;
+    }
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write([
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '', '',
+    ].join('\r\n'));
+    console.log(`WebSocket client connected (${socket.remoteAddress})`);
+
+    const stop = replay(
+        text => socket.write(webSocketFrame(text)),
+        () => socket.end(Buffer.from([0x88, 0])),
+    );
+    socket.on('data', data => {
+        // Answer a close frame (opcode 8) by closing; other client frames are ignored.
+        if ((data[0] & 0x0f) === 0x8) socket.end(Buffer.from([0x88, 0]));
+    });
+    socket.on('close', stop);
+    socket.on('error', stop);
+});
+
+server.listen(port, () => {
+    console.log(`Replaying ${events.length} event(s) from ${file}${loop ? ' in a loop' : ''}`);
+    console.log(`  SSE:       http://localhost:${port}/events`);
+    console.log(`  WebSocket: ws://localhost:${port}/ws`);
+});
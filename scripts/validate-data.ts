@@ -0,0 +1,74 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Headless data validation for CI.
+ *
+ * Usage: npm run validate:data -- [--json] [--warnings-as-errors] [--no-baseline] [--update-baseline]
+ *
+ * Exits non-zero when any error-level issue is found (or any issue at all
+ * with --warnings-as-errors) that database/validation-baseline.json doesn't
+ * list as known. --no-baseline ignores that file; --update-baseline rewrites
+ * it to accept every current issue.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { validateData, validateTaxonomy, validateRules, schemaFromTaxonomy, formatReport, createBaseline, compareWithBaseline } from '../src/validation';
+import type { ValidationSchema, ValidationBaseline } from '../src/validation';
+import { compileTaxonomy } from '../src/taxonomy';
+
+const ROOT = resolve(__dirname, '..');
+const CONNECTIONS_FILE = resolve(ROOT, 'database/connections.json');
+const POINTS_FILE = resolve(ROOT, 'database/points.json');
+const TAXONOMY_FILE = resolve(ROOT, 'database/taxonomy.json');
+const RULES_FILE = resolve(ROOT, 'database/rules.json');
+const BASELINE_FILE = resolve(ROOT, 'database/validation-baseline.json');
+
+const args = new Set(process.argv.slice(2));
+
+const connectionsJson = JSON.parse(readFileSync(CONNECTIONS_FILE, 'utf8'));
+const pointsJson = JSON.parse(readFileSync(POINTS_FILE, 'utf8'));
+const taxonomyJson = JSON.parse(readFileSync(TAXONOMY_FILE, 'utf8'));
+// The rules file is optional.
+const rulesJson = existsSync(RULES_FILE) ? JSON.parse(readFileSync(RULES_FILE, 'utf8')) : null;
+
+// Data can only be checked against a usable taxonomy.
+const taxonomyIssues = validateTaxonomy(taxonomyJson);
+const issues = taxonomyIssues.some(i => i.severity === 'error')
+    ? taxonomyIssues
+    : validateAgainst(schemaFromTaxonomy(compileTaxonomy(taxonomyJson)));
+
+/**
+ * Validate the rules and data files against a usable taxonomy's schema.
+ */
+function validateAgainst(schema: ValidationSchema) {
+    return [
+        ...taxonomyIssues,
+        ...(rulesJson === null ? [] : validateRules(rulesJson, schema)),
+        ...validateData(connectionsJson, pointsJson, schema),
+    ];
+}
+
+if (args.has('--update-baseline')) {
+    writeFileSync(BASELINE_FILE, JSON.stringify(createBaseline(issues), null, 2) + '\n');
+    console.log(`Wrote ${issues.length} known issue(s) to ${BASELINE_FILE}.`);
+    process.exit(0);
+}
+
+// Known issues are reported but don't fail the run; only new ones do.
+const baseline: ValidationBaseline = !args.has('--no-baseline') && existsSync(BASELINE_FILE)
+    ? JSON.parse(readFileSync(BASELINE_FILE, 'utf8'))
+    : { version: 1, issues: [] };
+const { known, added, fixed } = compareWithBaseline(issues, baseline);
+
+if (args.has('--json')) {
+    console.log(JSON.stringify({ added, known, fixed }, null, 2));
+} else {
+    console.log(added.length === 0 && known.length > 0 ? "No new data issues." : formatReport(added));
+    if (known.length > 0) console.log(`\n${known.length} known issue(s) accepted by the baseline; run with --no-baseline to list them.`);
+    if (fixed.length > 0) console.log(`${fixed.length} baseline issue(s) no longer occur; run with --update-baseline to drop them.`);
+}
+
+const failing = args.has('--warnings-as-errors') ? added : added.filter(i => i.severity === 'error');
+process.exitCode = failing.length > 0 ? 1 : 0;
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Collapsible "Data issues" panel listing the results of `validateData()`.
+ */
+
+import { groupIssues, ISSUE_TITLES } from './validation';
+import type { DataIssue } from './validation';
+import { escapeHtml } from './html';
+
+/**
+ * Adds a collapsible panel listing data issues, grouped by kind.
+ * The panel starts minimized; nothing is added when there are no issues.
+ */
+export function addDataIssuesPanel(issues: DataIssue[]) {
+    if (issues.length === 0) return;
+
+    const errors = issues.filter(i => i.severity === "error").length;
+    const warnings = issues.length - errors;
+
+    const panel = document.createElement("div");
+    panel.id = "data-issues-box";
+    panel.className = "legend-box minimized";
+    panel.style.cssText = `
+        position: absolute; z-index: 5; bottom: 30px; left: 10px;
+        font: 13px system-ui, sans-serif;
+        max-width: 360px; max-height: 40vh; overflow-y: auto;
+    `;
+
+    panel.innerHTML = `
+        <div class="legend-header">
+            <h2 style="font-size:16px; margin:0;">Data issues
+                <span style="font-size:12px; font-weight:normal; color:${errors ? '#c00' : '#a60'};">(${errors} errors, ${warnings} warnings)</span>
+            </h2>
+            <button class="toggle-btn" id="data-issues-toggle">+</button>
+        </div>
+        ${groupIssues(issues).map(([code, list]) => `
+            <details>
+                <summary><b>${ISSUE_TITLES[code]}</b> (${list.length})</summary>
+                <ul style="margin:4px 0; padding-left:18px;">
+                    ${list.map(i => `
+                        <li style="color:${i.severity === 'error' ? '#c00' : '#a60'};">
+                            <span style="color:#222;">${escapeHtml(i.message)}</span>
+                        </li>
+                    `).join('')}
+                </ul>
+            </details>
+        `).join('')}
+    `;
+    document.body.appendChild(panel);
+
+    const toggle = document.getElementById("data-issues-toggle");
+    toggle?.addEventListener("click", () => {
+        panel.classList.toggle("minimized");
+        toggle.textContent = panel.classList.contains("minimized") ? "+" : "-";
+    });
+}
@@ -0,0 +1,186 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Site detail side panel, opened by clicking a pin:
+ * - Every property on the feature, plus its pin group and colour.
+ * - Incoming and outgoing connections grouped by type, with great-circle lengths, IER tags and
+ *   clickable peers.
+ * - Degree summary, link status roll-up and a button that filters the map to this site's links.
+ */
+
+import { escapeHtml } from './html';
+import { getPointName } from './model';
+import { toCssColor } from './taxonomy';
+import type { RGBA } from './taxonomy';
+import { getLinkStatus, countLinkStatuses, linkStatusBadge, LINK_STATUS_STYLES } from './linkStatus';
+import type { LinkStatus } from './linkStatus';
+import { distanceKm } from './geo';
+import { formatDistance } from './measure';
+
+/** What the detail panel needs from the map. */
+export interface SiteDetailHost {
+    /** Return the point with this name, or null if there is none. */
+    getPoint(name: string): any | null;
+    getConnections(): any[];
+    /** Pin group of a point. */
+    getGroup(point: any): { key: string; label: string; color: RGBA };
+    /** Move the camera to a site. */
+    flyTo(name: string): void;
+    getSiteFilter(): string | null;
+    /** Show only this site's links, or all links again when null. */
+    setSiteFilter(name: string | null): void;
+}
+
+export interface SiteDetailPanel {
+    /** Show the first site; any others share its location and are offered as links. */
+    show(names: string[]): void;
+    hide(): void;
+}
+
+/** One end of a connection, seen from the site being shown. */
+interface SiteLink {
+    direction: "in" | "out";
+    peer: string;
+    ier: string[];
+    status: LinkStatus;
+    /** Great-circle length, or null if an end has no position. */
+    km: number | null;
+}
+
+/**
+ * Collect a site's links, grouped by connection type in type order.
+ */
+function linksOf(name: string, connections: any[]): Map<string, SiteLink[]> {
+    const byType = new Map<string, SiteLink[]>();
+    connections.forEach(c => {
+        const from = getPointName(c.from);
+        const to = getPointName(c.to);
+        if (from !== name && to !== name) return;
+        const type = c._connType ?? "";
+        if (!byType.has(type)) byType.set(type, []);
+        byType.get(type)!.push({
+            direction: from === name ? "out" : "in",
+            peer: from === name ? to : from,
+            ier: c._ierTypes ?? [],
+            status: c._status ?? getLinkStatus(c),
+            km: c._sourcePos && c._targetPos ? distanceKm(c._sourcePos, c._targetPos) : null,
+        });
+    });
+    return new Map(Array.from(byType.entries()).sort((a, b) => a[0].localeCompare(b[0])));
+}
+
+/**
+ * Format a property value for display.
+ */
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined) return "";
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Adds the (initially hidden) site detail panel to the page.
+ */
+export function addSiteDetailPanel(host: SiteDetailHost): SiteDetailPanel {
+    let names: string[] = [];
+
+    const panel = document.createElement("div");
+    panel.id = "site-detail-box";
+    panel.className = "legend-box";
+    panel.style.cssText = `
+        position: absolute; z-index: 10; top: 10px; right: 250px; width: 300px;
+        max-height: calc(100vh - 60px); overflow-y: auto;
+        font: 13px system-ui, sans-serif; display: none;
+    `;
+    document.body.appendChild(panel);
+
+    const render = () => {
+        const name = names[0];
+        const point = name ? host.getPoint(name) : null;
+        if (!point) {
+            panel.style.display = "none";
+            return;
+        }
+
+        const group = host.getGroup(point);
+        const [lng, lat] = point.geometry?.coordinates ?? [];
+        const links = linksOf(name, host.getConnections());
+        const all = Array.from(links.values()).flat();
+        const inDegree = all.filter(l => l.direction === "in").length;
+        const peers = new Set(all.map(l => l.peer));
+        const filtered = host.getSiteFilter() === name;
+        const badge = linkStatusBadge(countLinkStatuses(host.getConnections(), name));
+
+        const peerButton = (peer: string) => host.getPoint(peer)
+            ? `<a href="#" class="site-peer" data-name="${escapeHtml(peer)}">${escapeHtml(peer)}</a>`
+            : `<span style="color:#a00;" title="Not in points.json">${escapeHtml(peer)}</span>`;
+
+        panel.innerHTML = `
+            <div class="legend-header">
+                <h2 style="font-size:16px; margin:0;">${escapeHtml(name)}</h2>
+                <button class="toggle-btn" id="site-detail-close" title="Close">&times;</button>
+            </div>
+            <div style="display:flex; align-items:center; gap:6px;">
+                <span style="width:12px; height:12px; border-radius:50%; background:${toCssColor(group.color)};"></span>
+                ${escapeHtml(group.label)}
+            </div>
+            ${names.length > 1 ? `
+                <div style="color:#555;">Also at this location: ${names.slice(1).map(peerButton).join(", ")}</div>
+            ` : ""}
+            <table style="border-collapse:collapse;">
+                ${Object.entries(point.properties ?? {}).map(([key, value]) => `
+                    <tr><td style="padding-right:8px; color:#555; vertical-align:top;">${escapeHtml(key)}</td><td>${escapeHtml(formatValue(value))}</td></tr>
+                `).join('')}
+                <tr><td style="padding-right:8px; color:#555;">lat, lng</td><td>${typeof lat === "number" ? `${lat.toFixed(5)}, ${lng.toFixed(5)}` : ""}</td></tr>
+            </table>
+            <div><b>${all.length}</b> link(s): ${inDegree} in, ${all.length - inDegree} out, ${peers.size} distinct peer(s).</div>
+            ${badge ? `
+                <div style="align-self:flex-start; padding:2px 8px; border-radius:10px; color:#fff; background:${toCssColor(LINK_STATUS_STYLES[badge.status].color)};">${escapeHtml(badge.text)}</div>
+            ` : ""}
+            <div class="button-section">
+                <button id="site-filter-btn">${filtered ? "Show all links" : "Only this site's links"}</button>
+            </div>
+            ${Array.from(links.entries()).map(([type, list]) => `
+                <details open>
+                    <summary><b>${escapeHtml(type || "(no type)")}</b> (${list.length})</summary>
+                    <ul style="margin:4px 0; padding-left:18px;">
+                        ${list.map(l => `
+                            <li>${l.direction === "out" ? "&rarr;" : "&larr;"} ${peerButton(l.peer)}
+                                ${l.km !== null ? `<span style="color:#555;">${formatDistance(l.km)}</span>` : ""}
+                                ${l.status !== "unknown" ? `<span style="color:${toCssColor(LINK_STATUS_STYLES[l.status].color)};" title="${LINK_STATUS_STYLES[l.status].label}">&#x25CF;</span>` : ""}
+                                ${l.ier.length ? `<span style="color:#555;">&middot; IER: ${escapeHtml(l.ier.join(", "))}</span>` : ""}
+                            </li>
+                        `).join('')}
+                    </ul>
+                </details>
+            `).join('')}
+        `;
+        panel.style.display = "flex";
+
+        panel.querySelector("#site-detail-close")?.addEventListener("click", hide);
+        panel.querySelector("#site-filter-btn")?.addEventListener("click", () => {
+            host.setSiteFilter(filtered ? null : name);
+            render();
+        });
+        panel.querySelectorAll<HTMLAnchorElement>(".site-peer").forEach(a => {
+            a.addEventListener("click", e => {
+                e.preventDefault();
+                const peer = a.dataset.name!;
+                host.flyTo(peer);
+                show([peer]);
+            });
+        });
+    };
+
+    const show = (next: string[]) => {
+        names = next;
+        render();
+    };
+
+    const hide = () => {
+        names = [];
+        render();
+    };
+
+    return { show, hide };
+}
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Tests for the edit history, including changes that arrive from outside the editor.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createEditHistory, addPoint, deletePoint } from './editor';
+import { applyLiveUpdate } from './liveFeed';
+import type { EditableData } from './editor';
+
+function point(name: string, lng: number, lat: number) {
+    return { type: "Feature", properties: { name }, geometry: { type: "Point", coordinates: [lng, lat] } };
+}
+
+const initial: EditableData = {
+    points: [point("A", 0, 0), point("B", 1, 0)],
+    connections: [{ from: "A", to: "B", Connection_type: "N" }],
+};
+const names = (data: EditableData) => data.points.map(p => p.properties.name);
+
+describe("createEditHistory", () => {
+    it("undoes and redoes edits", () => {
+        const history = createEditHistory(initial);
+        history.apply("Added C", data => addPoint(data, { name: "C", lng: 2, lat: 0 }));
+        expect(names(history.current())).toEqual(["A", "B", "C"]);
+        expect(history.undo()).toBe("Added C");
+        expect(names(history.current())).toEqual(["A", "B"]);
+        expect(history.redo()).toBe("Added C");
+        expect(history.changes()).toEqual(["Added C"]);
+    });
+
+    it("keeps live changes through undo and redo", () => {
+        const history = createEditHistory(initial);
+        history.apply("Added C", data => addPoint(data, { name: "C", lng: 2, lat: 0 }));
+        history.undo();
+        history.applyExternal(data => applyLiveUpdate(data, { type: "point-moved", name: "A", coordinates: [5, 5] }).data);
+        history.applyExternal(data => applyLiveUpdate(data, { type: "connection-status", status: "up", from: "B", to: "C", connectionType: "SAT" }).data);
+
+        expect(history.current().points[0].geometry.coordinates).toEqual([5, 5]);
+        expect(history.current().connections).toHaveLength(2);
+        history.redo();
+        expect(history.current().points[0].geometry.coordinates).toEqual([5, 5]);
+        expect(history.current().connections[1]).toMatchObject({ from: "B", to: "C", status: "up" });
+        expect(history.changes()).toEqual(["Added C"]);
+        history.undo();
+        expect(history.canUndo()).toBe(false);
+    });
+
+    it("leaves steps a live change doesn't apply to as they are", () => {
+        const history = createEditHistory(initial);
+        history.apply("Deleted A", data => { deletePoint(data, "A"); });
+        history.applyExternal(data => applyLiveUpdate(data, { type: "point-moved", name: "A", coordinates: [5, 5] }).data);
+        expect(names(history.current())).toEqual(["B"]);
+        history.undo();
+        expect(history.current().points[0].geometry.coordinates).toEqual([5, 5]);
+    });
+});
@@ -0,0 +1,212 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Edits to the source data (points.json and connections.json) with undo/redo.
+ * Edits work on plain copies of the file records; derived `_`-prefixed fields added by
+ * preprocessing are stripped, so exports keep the shape of the original files.
+ */
+
+import { getPointName } from './model';
+
+/** The two editable data files: GeoJSON point features and raw connection records. */
+export interface EditableData {
+    points: any[];
+    connections: any[];
+}
+
+export interface NewPoint {
+    name: string;
+    lng: number;
+    lat: number;
+    group?: string;
+    tech?: string;
+    icon?: string;
+}
+
+export interface NewConnection {
+    from: string;
+    to: string;
+    type: string;
+    ier?: string[];
+}
+
+// ---------------------- Copies and Export ----------------------
+
+/**
+ * Copy a record without the `_`-prefixed fields added during preprocessing.
+ */
+function cleanRecord(record: any): any {
+    return JSON.parse(JSON.stringify(record, (key, value) => (key.startsWith("_") ? undefined : value)));
+}
+
+/**
+ * Return a deep copy of the data with derived fields removed.
+ */
+export function cloneData(data: EditableData): EditableData {
+    return { points: data.points.map(cleanRecord), connections: data.connections.map(cleanRecord) };
+}
+
+/**
+ * The points in the shape of `database/points.json`.
+ */
+export function toPointsFile(data: EditableData) {
+    return {
+        type: "FeatureCollection",
+        features: data.points.map(p => {
+            const { type, properties, geometry } = cleanRecord(p);
+            return { type, properties, geometry };
+        }),
+    };
+}
+
+/**
+ * The connections in the shape of `database/connections.json`.
+ */
+export function toConnectionsFile(data: EditableData) {
+    return data.connections.map(cleanRecord);
+}
+
+// ---------------------- Edits ----------------------
+// Each edit mutates the data it is given and throws an Error describing why it can't be made.
+
+/**
+ * Return the point with this name.
+ * @throws Error if there is none.
+ */
+function findPoint(data: EditableData, name: string): any {
+    const point = data.points.find(p => getPointName(p) === name);
+    if (!point) throw new Error(`There is no point named "${name}" in points.json.`);
+    return point;
+}
+
+/**
+ * Add a point. Empty optional properties are left out.
+ */
+export function addPoint(data: EditableData, point: NewPoint) {
+    const name = point.name.trim();
+    if (!name) throw new Error("A point needs a name.");
+    if (data.points.some(p => getPointName(p) === name)) throw new Error(`A point named "${name}" already exists.`);
+    if (!Number.isFinite(point.lng) || !Number.isFinite(point.lat)) throw new Error("A point needs a location.");
+
+    const properties: Record<string, string> = { name };
+    if (point.group) properties.group = point.group;
+    if (point.tech?.trim()) properties.tech = point.tech.trim();
+    if (point.icon) properties.icon = point.icon;
+    data.points.push({
+        type: "Feature",
+        properties,
+        geometry: { type: "Point", coordinates: [point.lng, point.lat] },
+    });
+}
+
+/**
+ * Move a point to a new location.
+ */
+export function movePoint(data: EditableData, name: string, lng: number, lat: number) {
+    findPoint(data, name).geometry = { type: "Point", coordinates: [lng, lat] };
+}
+
+/**
+ * Delete a point and every connection to or from it.
+ * @returns The number of connections removed with it.
+ */
+export function deletePoint(data: EditableData, name: string): number {
+    const point = findPoint(data, name);
+    data.points = data.points.filter(p => p !== point);
+    const before = data.connections.length;
+    data.connections = data.connections.filter(c => c.from !== name && c.to !== name);
+    return before - data.connections.length;
+}
+
+/**
+ * Add a connection between two existing points.
+ */
+export function addConnection(data: EditableData, link: NewConnection) {
+    findPoint(data, link.from);
+    findPoint(data, link.to);
+    if (link.from === link.to) throw new Error("A connection needs two different points.");
+    if (!link.type) throw new Error("A connection needs a type.");
+
+    const record: Record<string, unknown> = { from: link.from, to: link.to, Connection_type: link.type };
+    if (link.ier?.length) record.IER = link.ier;
+    data.connections.push(record);
+}
+
+/**
+ * Delete the connection at an index of `data.connections`.
+ */
+export function deleteConnection(data: EditableData, index: number) {
+    if (!data.connections[index]) throw new Error(`There is no connection #${index}.`);
+    data.connections.splice(index, 1);
+}
+
+// ---------------------- History ----------------------
+
+export interface EditHistory {
+    current(): EditableData;
+    /**
+     * Apply an edit to a copy of the current data and make it current.
+     * @throws The edit's Error; the current data is left unchanged.
+     */
+    apply(label: string, edit: (data: EditableData) => void): void;
+    /**
+     * Apply a change made outside the editor (e.g. by the live feed) to every step, done or
+     * undone, so undo and redo keep it. It can't be undone itself and isn't listed in `changes()`.
+     * Steps where the change throws (say, a moved point an edit deleted) are left as they are.
+     */
+    applyExternal(change: (data: EditableData) => EditableData): void;
+    /** Step back one edit. Returns its label, or null if there was nothing to undo. */
+    undo(): string | null;
+    /** Re-apply the last undone edit. Returns its label, or null if there was nothing to redo. */
+    redo(): string | null;
+    canUndo(): boolean;
+    canRedo(): boolean;
+    /** Labels of the edits applied since the initial data, oldest first. */
+    changes(): string[];
+}
+
+/**
+ * Creates an undo/redo history that starts from a copy of `initial`.
+ */
+export function createEditHistory(initial: EditableData): EditHistory {
+    // Snapshots are small (a few hundred records), so each step stores the whole data set.
+    const done: { label: string; data: EditableData }[] = [{ label: "", data: cloneData(initial) }];
+    let undone: { label: string; data: EditableData }[] = [];
+
+    const current = () => done[done.length - 1].data;
+
+    return {
+        current,
+        apply(label, edit) {
+            const next = cloneData(current());
+            edit(next);
+            done.push({ label, data: next });
+            undone = [];
+        },
+        applyExternal(change) {
+            [...done, ...undone].forEach(step => {
+                try {
+                    step.data = change(step.data);
+                } catch {
+                    // Not applicable to this step.
+                }
+            });
+        },
+        undo() {
+            if (done.length <= 1) return null;
+            const step = done.pop()!;
+            undone.push(step);
+            return step.label;
+        },
+        redo() {
+            const step = undone.pop();
+            if (!step) return null;
+            done.push(step);
+            return step.label;
+        },
+        canUndo: () => done.length > 1,
+        canRedo: () => undone.length > 0,
+        changes: () => done.slice(1).map(step => step.label),
+    };
+}
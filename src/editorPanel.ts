@@ -0,0 +1,279 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * "Editor" panel: an edit mode for adding, moving and deleting points and connections,
+ * with undo/redo and export to files shaped like `database/points.json` and `connections.json`.
+ */
+
+import { escapeHtml, downloadJson } from './html';
+import { getPointName } from './model';
+import {
+    createEditHistory, addPoint, movePoint, deletePoint, addConnection, deleteConnection,
+    toPointsFile, toConnectionsFile,
+} from './editor';
+import type { EditableData } from './editor';
+
+type KeyLabel = { key: string; label: string };
+
+/** What the editor needs from the map. */
+export interface EditorHost {
+    map: google.maps.Map;
+    /** The data as loaded; edits start from a copy. */
+    getData(): EditableData;
+    groups: KeyLabel[];
+    connectionTypes: KeyLabel[];
+    ierTypes: KeyLabel[];
+    iconKinds: KeyLabel[];
+    /** Re-run the data derivations and redraw after an edit, undo or redo. */
+    onDataChange(data: EditableData): Promise<void>;
+}
+
+export interface EditorTool {
+    /** True while edit mode is on; map clicks then go to the editor. */
+    isEditing(): boolean;
+    /** A pin was clicked. */
+    pickPoint(name: string): void;
+    /** A connection arc was clicked; `index` is its position in connections.json. */
+    pickConnection(index: number): void;
+    /** The map was clicked away from any pin. */
+    mapClick(lat: number, lng: number): void;
+    /**
+     * Replace the data as one undoable edit (used by imports).
+     * @returns Whether the change was applied.
+     */
+    applyData(label: string, data: EditableData): Promise<boolean>;
+    /** Take a change made outside the editor (e.g. by the live feed) into every step of the history. */
+    applyExternalChange(change: (data: EditableData) => EditableData): void;
+}
+
+type EditorMode = "move" | "add-point" | "add-link" | "delete";
+
+const MODE_HINTS: Record<EditorMode, string> = {
+    "move": "Click a pin, then drag its marker to move it.",
+    "add-point": "Fill in the details, then click the map to place the point.",
+    "add-link": "Choose a type, then click the start pin and the end pin.",
+    "delete": "Click a pin or a link to delete it.",
+};
+
+/**
+ * Adds the editor panel to a container.
+ * @returns Hooks for the map click handlers.
+ */
+export function addEditorPanel(container: HTMLElement, host: EditorHost): EditorTool {
+    const history = createEditHistory(host.getData());
+    let editing = false;
+    let mode: EditorMode = "move";
+    let linkStart: string | null = null;
+    let dragMarker: google.maps.Marker | null = null;
+
+    const panel = document.createElement("div");
+    panel.id = "editor-box";
+    panel.className = "legend-box minimized";
+    panel.style.cssText = `margin-top: 8px; width: 220px; font: 13px system-ui, sans-serif;`;
+    panel.innerHTML = `
+        <div class="legend-header"><h2 style="font-size:16px; margin:0;">Editor</h2><button class="toggle-btn" id="editor-toggle">+</button></div>
+        <label><input type="checkbox" id="editor-enabled"> Edit mode</label>
+        <div style="display:flex; flex-wrap:wrap; gap:2px 10px;">
+            <label><input type="radio" name="editor-mode" value="move" checked> Move</label>
+            <label><input type="radio" name="editor-mode" value="add-point"> Add point</label>
+            <label><input type="radio" name="editor-mode" value="add-link"> Add link</label>
+            <label><input type="radio" name="editor-mode" value="delete"> Delete</label>
+        </div>
+        <div id="editor-hint" style="color:#555;"></div>
+        <div id="editor-point-form" style="display:none; flex-direction:column; gap:4px;">
+            <label>Name <input id="editor-point-name" style="flex:1; min-width:0;"></label>
+            <label>Group
+                <select id="editor-point-group" style="flex:1; min-width:0;">
+                    <option value="">(by name rules)</option>
+                    ${host.groups.map(g => `<option value="${escapeHtml(g.key)}">${escapeHtml(g.label)}</option>`).join('')}
+                </select>
+            </label>
+            <label>Tech <input id="editor-point-tech" style="flex:1; min-width:0;"></label>
+            <label>Icon
+                <select id="editor-point-icon" style="flex:1; min-width:0;">
+                    <option value="">(pin)</option>
+                    ${host.iconKinds.map(k => `<option value="${escapeHtml(k.key)}">${escapeHtml(k.label)}</option>`).join('')}
+                </select>
+            </label>
+        </div>
+        <div id="editor-link-form" style="display:none; flex-direction:column; gap:4px;">
+            <label>Type
+                <select id="editor-link-type" style="flex:1; min-width:0;">
+                    ${host.connectionTypes.map(t => `<option value="${escapeHtml(t.key)}">${escapeHtml(t.key)} (${escapeHtml(t.label)})</option>`).join('')}
+                </select>
+            </label>
+            <div style="display:flex; flex-wrap:wrap; gap:2px 10px;">
+                ${host.ierTypes.map(t => `<label><input type="checkbox" class="editor-ier-cb" data-key="${escapeHtml(t.key)}"> ${escapeHtml(t.key)}</label>`).join('')}
+            </div>
+        </div>
+        <div class="button-section">
+            <button id="editor-undo-btn" title="Undo (Ctrl+Z)">Undo</button>
+            <button id="editor-redo-btn" title="Redo (Ctrl+Y)">Redo</button>
+        </div>
+        <div class="button-section">
+            <button id="editor-export-points-btn">Export points</button>
+            <button id="editor-export-links-btn">Export connections</button>
+        </div>
+        <div id="editor-status" style="color:#555;"></div>
+    `;
+    container.appendChild(panel);
+
+    const enabledCb = panel.querySelector<HTMLInputElement>("#editor-enabled")!;
+    const hint = panel.querySelector<HTMLDivElement>("#editor-hint")!;
+    const pointForm = panel.querySelector<HTMLDivElement>("#editor-point-form")!;
+    const linkForm = panel.querySelector<HTMLDivElement>("#editor-link-form")!;
+    const nameInput = panel.querySelector<HTMLInputElement>("#editor-point-name")!;
+    const undoButton = panel.querySelector<HTMLButtonElement>("#editor-undo-btn")!;
+    const redoButton = panel.querySelector<HTMLButtonElement>("#editor-redo-btn")!;
+    const status = panel.querySelector<HTMLDivElement>("#editor-status")!;
+
+    const clearDragMarker = () => {
+        dragMarker?.setMap(null);
+        dragMarker = null;
+    };
+
+    const render = (message = "") => {
+        pointForm.style.display = editing && mode === "add-point" ? "flex" : "none";
+        linkForm.style.display = editing && mode === "add-link" ? "flex" : "none";
+        hint.textContent = !editing ? "" : mode === "add-link" && linkStart
+            ? `From ${linkStart}: now click the end pin.`
+            : MODE_HINTS[mode];
+        undoButton.disabled = !history.canUndo();
+        redoButton.disabled = !history.canRedo();
+        const count = history.changes().length;
+        status.textContent = [message, count ? `${count} unsaved change(s).` : ""].filter(Boolean).join(" ");
+    };
+
+    /**
+     * Apply an edit and redraw; a rejected edit is reported and changes nothing.
+     * @returns Whether the edit was applied.
+     */
+    const commit = async (label: string, edit: (data: EditableData) => void): Promise<boolean> => {
+        try {
+            history.apply(label, edit);
+        } catch (err) {
+            render((err as Error).message);
+            return false;
+        }
+        clearDragMarker();
+        await host.onDataChange(history.current());
+        render(label);
+        return true;
+    };
+
+    const step = async (direction: "undo" | "redo") => {
+        const label = direction === "undo" ? history.undo() : history.redo();
+        if (label === null) return;
+        clearDragMarker();
+        linkStart = null;
+        await host.onDataChange(history.current());
+        render(`${direction === "undo" ? "Undid" : "Redid"}: ${label}`);
+    };
+
+    /** Put a draggable marker on a point; dropping it moves the point. */
+    const startDrag = (name: string) => {
+        const point = history.current().points.find(p => getPointName(p) === name);
+        if (!point) return render(`"${name}" can't be moved: it is not in points.json.`);
+        clearDragMarker();
+        const [lng, lat] = point.geometry.coordinates;
+        dragMarker = new google.maps.Marker({ map: host.map, position: { lat, lng }, draggable: true, title: name });
+        dragMarker.addListener("dragend", (e: google.maps.MapMouseEvent) => {
+            if (e.latLng) commit(`Moved ${name}`, data => movePoint(data, name, e.latLng!.lng(), e.latLng!.lat()));
+        });
+        render(`Drag the marker to move ${name}.`);
+    };
+
+    const setEditing = (on: boolean) => {
+        editing = on;
+        enabledCb.checked = on;
+        linkStart = null;
+        clearDragMarker();
+        render();
+    };
+
+    enabledCb.addEventListener("change", () => setEditing(enabledCb.checked));
+    panel.querySelectorAll<HTMLInputElement>('input[name="editor-mode"]').forEach(radio => {
+        radio.addEventListener("change", () => {
+            mode = radio.value as EditorMode;
+            linkStart = null;
+            clearDragMarker();
+            render();
+        });
+    });
+    undoButton.addEventListener("click", () => step("undo"));
+    redoButton.addEventListener("click", () => step("redo"));
+    document.addEventListener("keydown", e => {
+        if (!editing || !(e.ctrlKey || e.metaKey)) return;
+        if ((e.target as HTMLElement).closest("input, select, textarea")) return;
+        const key = e.key.toLowerCase();
+        if (key === "z" && !e.shiftKey) step("undo");
+        else if (key === "y" || (key === "z" && e.shiftKey)) step("redo");
+        else return;
+        e.preventDefault();
+    });
+    panel.querySelector("#editor-export-points-btn")?.addEventListener("click", () => {
+        downloadJson("points.json", toPointsFile(history.current()));
+    });
+    panel.querySelector("#editor-export-links-btn")?.addEventListener("click", () => {
+        downloadJson("connections.json", toConnectionsFile(history.current()));
+    });
+
+    const toggle = panel.querySelector<HTMLButtonElement>("#editor-toggle")!;
+    toggle.addEventListener("click", () => {
+        panel.classList.toggle("minimized");
+        toggle.textContent = panel.classList.contains("minimized") ? "+" : "-";
+    });
+
+    render();
+
+    return {
+        isEditing: () => editing,
+        applyExternalChange: change => history.applyExternal(change),
+        applyData: (label, data) => commit(label, draft => {
+            draft.points = data.points;
+            draft.connections = data.connections;
+        }),
+        pickPoint(name: string) {
+            if (!editing) return;
+            if (mode === "move") {
+                startDrag(name);
+            } else if (mode === "delete") {
+                const links = history.current().connections.filter(c => c.from === name || c.to === name).length;
+                if (!confirm(`Delete "${name}" and its ${links} connection(s)?`)) return;
+                commit(`Deleted ${name}`, data => deletePoint(data, name));
+            } else if (mode === "add-link") {
+                if (!linkStart) {
+                    linkStart = name;
+                    render();
+                    return;
+                }
+                const from = linkStart;
+                linkStart = null;
+                const type = panel.querySelector<HTMLSelectElement>("#editor-link-type")!.value;
+                const ier = Array.from(panel.querySelectorAll<HTMLInputElement>(".editor-ier-cb:checked")).map(cb => cb.dataset.key!);
+                commit(`Linked ${from} to ${name} (${type})`, data => addConnection(data, { from, to: name, type, ier }));
+            }
+        },
+        pickConnection(index: number) {
+            if (!editing || mode !== "delete") return;
+            const link = history.current().connections[index];
+            if (!link || !confirm(`Delete the ${link.Connection_type} link ${link.from} → ${link.to}?`)) return;
+            commit(`Deleted link ${link.from} → ${link.to}`, data => deleteConnection(data, index));
+        },
+        mapClick(lat: number, lng: number) {
+            if (!editing || mode !== "add-point") return;
+            const name = nameInput.value.trim();
+            commit(`Added ${name}`, data => addPoint(data, {
+                name,
+                lat,
+                lng,
+                group: panel.querySelector<HTMLSelectElement>("#editor-point-group")!.value,
+                tech: panel.querySelector<HTMLInputElement>("#editor-point-tech")!.value,
+                icon: panel.querySelector<HTMLSelectElement>("#editor-point-icon")!.value,
+            })).then(added => {
+                if (added) nameInput.value = "";
+            });
+        },
+    };
+}
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * "Export view" menu: download the pins and links that pass the current filters.
+ */
+
+import { downloadBlob, downloadJson, fileStem } from './html';
+import { toGeoJson, toKml, toCsv } from './exporters';
+import type { ExportView } from './exporters';
+
+const BUTTON_STYLE = `
+    padding: 8px 10px; border: 1px solid #ccc; border-radius: 8px;
+    background: #ffffff; box-shadow: 0 2px 8px rgba(0,0,0,.15);
+    font: 13px system-ui, sans-serif; cursor: pointer;
+`;
+
+/**
+ * Adds the export menu button to a container.
+ * @param getView - Returns the currently visible pins and links.
+ */
+export function addExportMenu(container: HTMLElement, getView: () => ExportView) {
+    const wrapper = document.createElement("div");
+    wrapper.style.cssText = `position: relative; display: inline-block; margin-left: 6px;`;
+    wrapper.innerHTML = `
+        <button id="export-view-btn" title="Download the pins and links that pass the current filters" style="${BUTTON_STYLE}">Export view &#x25BE;</button>
+        <div id="export-view-menu" style="display:none; position:absolute; right:0; top:100%; margin-top:4px; z-index:11;
+            flex-direction:column; gap:4px; padding:6px; background:#fff; border-radius:8px; box-shadow:0 2px 8px rgba(0,0,0,.15);">
+            <button data-format="geojson" style="${BUTTON_STYLE} box-shadow:none;">GeoJSON</button>
+            <button data-format="kml" style="${BUTTON_STYLE} box-shadow:none;">KML</button>
+            <button data-format="csv" style="${BUTTON_STYLE} box-shadow:none;">CSV link table</button>
+        </div>
+    `;
+    container.appendChild(wrapper);
+
+    const menu = wrapper.querySelector<HTMLDivElement>("#export-view-menu")!;
+    const setOpen = (open: boolean) => { menu.style.display = open ? "flex" : "none"; };
+
+    wrapper.querySelector("#export-view-btn")?.addEventListener("click", () => setOpen(menu.style.display === "none"));
+    document.addEventListener("click", e => {
+        if (!wrapper.contains(e.target as Node)) setOpen(false);
+    });
+    menu.querySelectorAll<HTMLButtonElement>("button[data-format]").forEach(btn => {
+        btn.addEventListener("click", () => {
+            const view = getView();
+            const stem = fileStem("nxgen-view");
+            if (btn.dataset.format === "geojson") {
+                downloadJson(`${stem}.geojson`, toGeoJson(view));
+            } else if (btn.dataset.format === "kml") {
+                downloadBlob(`${stem}.kml`, new Blob([toKml(view, stem)], { type: "application/vnd.google-earth.kml+xml" }));
+            } else {
+                downloadBlob(`${stem}.csv`, new Blob([toCsv(view)], { type: "text/csv" }));
+            }
+            setOpen(false);
+        });
+    });
+}
@@ -0,0 +1,161 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Writers for the currently visible pins and links: GeoJSON (points plus great-circle
+ * LineStrings), KML styled with the map colours, and a CSV link table.
+ */
+
+import { greatCirclePath } from './geo';
+import type { RGBA } from './taxonomy';
+
+type LngLat = [number, number];
+
+/** A visible pin, with the colour it is drawn in. */
+export interface ExportPin {
+    name: string;
+    position: LngLat;
+    group: string;
+    groupLabel: string;
+    color: RGBA;
+    properties: Record<string, unknown>;
+}
+
+/** A visible link; aggregated links carry every type and the number of connections they stand for. */
+export interface ExportLink {
+    from: string;
+    to: string;
+    fromPosition: LngLat;
+    toPosition: LngLat;
+    types: string[];
+    ier: string[];
+    count: number;
+    color: RGBA;
+}
+
+export interface ExportView {
+    pins: ExportPin[];
+    links: ExportLink[];
+    /** True when the links are the aggregated (one per site pair) view. */
+    aggregated: boolean;
+}
+
+// ---------------------- GeoJSON ----------------------
+
+/**
+ * The view as a GeoJSON FeatureCollection: Point features, then LineString features.
+ */
+export function toGeoJson(view: ExportView) {
+    return {
+        type: "FeatureCollection",
+        features: [
+            ...view.pins.map(pin => ({
+                type: "Feature",
+                properties: { ...pin.properties, name: pin.name, group: pin.group },
+                geometry: { type: "Point", coordinates: pin.position },
+            })),
+            ...view.links.map(link => ({
+                type: "Feature",
+                properties: view.aggregated
+                    ? { from: link.from, to: link.to, Connection_types: link.types, IER: link.ier, count: link.count }
+                    : { from: link.from, to: link.to, Connection_type: link.types[0], IER: link.ier },
+                geometry: { type: "LineString", coordinates: greatCirclePath(link.fromPosition, link.toPosition) },
+            })),
+        ],
+    };
+}
+
+// ---------------------- KML ----------------------
+
+/**
+ * Escape text for XML content and attributes.
+ */
+function escapeXml(text: string): string {
+    return text.replace(/[&<>"']/g, ch => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&apos;" }[ch]!));
+}
+
+/**
+ * KML colours are aabbggrr hex.
+ */
+function kmlColor([r, g, b, a = 255]: RGBA): string {
+    return [a, b, g, r].map(v => Math.round(v).toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Bring a longitude back into [-180, 180); KML requires it and `tessellate` keeps the line on the great circle.
+ */
+function wrapLng(lng: number): number {
+    return ((((lng + 180) % 360) + 360) % 360) - 180;
+}
+
+/**
+ * The view as a KML document, with one shared style per pin colour and per link colour.
+ * @param title - Document name.
+ */
+export function toKml(view: ExportView, title: string): string {
+    const styles = new Map<string, string>();
+    const styleFor = (kind: "pin" | "line", color: RGBA) => {
+        const id = `${kind}-${kmlColor(color)}`;
+        if (!styles.has(id)) {
+            styles.set(id, kind === "pin"
+                ? `<Style id="${id}"><IconStyle><color>${kmlColor(color)}</color><Icon><href>http://maps.google.com/mapfiles/kml/shapes/placemark_circle.png</href></Icon></IconStyle></Style>`
+                : `<Style id="${id}"><LineStyle><color>${kmlColor(color)}</color><width>${view.aggregated ? 4 : 2}</width></LineStyle></Style>`);
+        }
+        return id;
+    };
+    const data = (fields: Record<string, unknown>) => `<ExtendedData>${Object.entries(fields)
+        .filter(([, value]) => value !== undefined && value !== "")
+        .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(Array.isArray(value) ? value.join(";") : String(value))}</value></Data>`)
+        .join("")}</ExtendedData>`;
+
+    const pins = view.pins.map(pin => `
+    <Placemark>
+      <name>${escapeXml(pin.name)}</name>
+      <styleUrl>#${styleFor("pin", pin.color)}</styleUrl>
+      ${data({ ...pin.properties, name: undefined, group: pin.group })}
+      <Point><coordinates>${pin.position.join(",")}</coordinates></Point>
+    </Placemark>`);
+    const links = view.links.map(link => `
+    <Placemark>
+      <name>${escapeXml(`${link.from} - ${link.to}`)}</name>
+      <styleUrl>#${styleFor("line", link.color)}</styleUrl>
+      ${data({ from: link.from, to: link.to, Connection_type: link.types, IER: link.ier, count: view.aggregated ? link.count : undefined })}
+      <LineString><tessellate>1</tessellate><coordinates>${greatCirclePath(link.fromPosition, link.toPosition).map(([lng, lat]) => `${wrapLng(lng)},${lat}`).join(" ")}</coordinates></LineString>
+    </Placemark>`);
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(title)}</name>
+    ${Array.from(styles.values()).join("\n    ")}
+    <Folder><name>Sites</name>${pins.join("")}
+    </Folder>
+    <Folder><name>Links</name>${links.join("")}
+    </Folder>
+  </Document>
+</kml>
+`;
+}
+
+// ---------------------- CSV ----------------------
+
+/**
+ * Quote a CSV cell when it contains a separator, quote or newline.
+ */
+function csvCell(value: unknown): string {
+    const text = String(value ?? "");
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * The links as a CSV table, one row per link. Multi-valued cells are joined with ";".
+ */
+export function toCsv(view: ExportView): string {
+    const header = ["from", "to", view.aggregated ? "types" : "type", "ier", ...(view.aggregated ? ["count"] : []),
+        "from_lat", "from_lng", "to_lat", "to_lng"];
+    const rows = view.links.map(link => [
+        link.from, link.to, link.types.join(";"), link.ier.join(";"), ...(view.aggregated ? [link.count] : []),
+        link.fromPosition[1], link.fromPosition[0], link.toPosition[1], link.toPosition[0],
+    ]);
+    return [header, ...rows].map(row => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
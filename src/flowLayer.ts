@@ -0,0 +1,78 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Flow animation: an ArcLayer that draws only short dashes travelling along each arc from
+ * source to target. The dashes are placed in the fragment shader from the arc's own
+ * parametrisation and a time uniform, so animating thousands of arcs only updates one uniform
+ * per frame and the arcs stay exactly on the drawn great circles and heights.
+ */
+
+import { distanceKm } from './geo';
+
+declare const deck: any;
+
+/** Ground distance between dashes; long links get more dashes rather than longer ones. */
+const FLOW_DASH_SPACING_KM = 400;
+const FLOW_MAX_DASHES = 64;
+
+/**
+ * Number of dashes on an arc between two positions.
+ */
+export function flowDashCount(from: number[], to: number[]): number {
+    return Math.max(1, Math.min(FLOW_MAX_DASHES, Math.round(distanceKm(from, to) / FLOW_DASH_SPACING_KM)));
+}
+
+/**
+ * ArcLayer drawing moving dashes. Extra props:
+ * - `flowTime`: seconds; advance it every frame to animate.
+ * - `getFlow`: accessor returning [speed, dash count] for an arc.
+ */
+export class FlowArcLayer extends deck.ArcLayer {
+    static layerName = "FlowArcLayer";
+    static defaultProps = {
+        flowTime: 0,
+        getFlow: { type: "accessor", value: [1, 1] },
+    };
+
+    constructor(...props: any[]) {
+        super(...props);
+    }
+
+    getShaders() {
+        const shaders = super.getShaders();
+        shaders.inject = {
+            ...shaders.inject,
+            "vs:#decl": `
+                attribute vec2 instanceFlow;
+                varying vec2 vFlow;
+            `,
+            "vs:#main-end": `
+                vFlow = instanceFlow;
+            `,
+            "fs:#decl": `
+                uniform float flowTime;
+                varying vec2 vFlow;
+            `,
+            // Each dash is brightest at its head and fades towards its tail.
+            "fs:DECKGL_FILTER_COLOR": `
+                float flowPhase = fract(geometry.uv.x * vFlow.y - flowTime * vFlow.x);
+                float flowDash = vFlow.x >= 0.0 ? flowPhase : 1.0 - flowPhase;
+                if (flowDash < 0.7) discard;
+                color.a *= (flowDash - 0.7) / 0.3;
+            `,
+        };
+        return shaders;
+    }
+
+    initializeState(context: any) {
+        super.initializeState(context);
+        this.getAttributeManager().addInstanced({
+            instanceFlow: { size: 2, accessor: "getFlow", defaultValue: [1, 1] },
+        });
+    }
+
+    draw({ uniforms }: any) {
+        super.draw({ uniforms: { ...uniforms, flowTime: this.props.flowTime } });
+    }
+}
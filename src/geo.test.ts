@@ -0,0 +1,56 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Tests for the great-circle helpers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { distanceKm, bearingDeg, destinationPoint, greatCirclePath, rangeRing } from './geo';
+
+describe("destinationPoint", () => {
+    it("travels the given distance along the given bearing", () => {
+        const start = [2.2945, 48.8583];
+        const end = destinationPoint(start, 123, 500);
+        expect(distanceKm(start, end)).toBeCloseTo(500, 6);
+        expect(bearingDeg(start, end)).toBeCloseTo(123, 6);
+    });
+
+    it("wraps longitude across the antimeridian", () => {
+        expect(destinationPoint([179.5, 0], 90, 111.2)[0]).toBeCloseTo(-179.5, 2);
+    });
+});
+
+describe("greatCirclePath", () => {
+    it("runs from end to end in equal segments along the great circle", () => {
+        const path = greatCirclePath([0, 0], [10, 10], 8);
+        expect(path).toHaveLength(9);
+        expect(path[0][0]).toBeCloseTo(0, 6);
+        expect(path[8][0]).toBeCloseTo(10, 6);
+        expect(path[8][1]).toBeCloseTo(10, 6);
+        const total = distanceKm([0, 0], [10, 10]);
+        for (let i = 1; i < path.length; i++) expect(distanceKm(path[i - 1], path[i])).toBeCloseTo(total / 8, 6);
+    });
+
+    it("stays continuous across the antimeridian", () => {
+        const path = greatCirclePath([170, 0], [-170, 0]);
+        expect(path[path.length - 1][0]).toBeCloseTo(190, 6);
+        for (let i = 1; i < path.length; i++) expect(Math.abs(path[i][0] - path[i - 1][0])).toBeLessThan(10);
+    });
+
+    it("is just the two ends when they coincide", () => {
+        expect(greatCirclePath([5, 5], [5, 5])).toEqual([[5, 5], [5, 5]]);
+    });
+});
+
+describe("rangeRing", () => {
+    it("is a closed ring at the radius, unwrapped around the centre", () => {
+        const ring = rangeRing([179, 0], 500, 36);
+        expect(ring).toHaveLength(37);
+        expect(ring[0]).toEqual(ring[36]);
+        ring.forEach(p => {
+            expect(distanceKm([179, 0], p)).toBeCloseTo(500, 6);
+            expect(Math.abs(p[0] - 179)).toBeLessThan(10);
+        });
+    });
+});
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Spherical geometry helpers for [lng, lat] positions.
+ */
+
+/** Mean Earth radius in kilometres. */
+export const EARTH_RADIUS_KM = 6371.0088;
+
+/**
+ * Great-circle (haversine) distance between two [lng, lat] positions, in kilometres.
+ */
+export function distanceKm([lng1, lat1]: number[], [lng2, lat2]: number[]): number {
+    const rad = Math.PI / 180;
+    const dLat = (lat2 - lat1) * rad;
+    const dLng = (lng2 - lng1) * rad;
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Initial great-circle bearing from one [lng, lat] position to another, in degrees clockwise
+ * from north (0–360).
+ */
+export function bearingDeg([lng1, lat1]: number[], [lng2, lat2]: number[]): number {
+    const rad = Math.PI / 180;
+    const dLng = (lng2 - lng1) * rad;
+    const y = Math.sin(dLng) * Math.cos(lat2 * rad);
+    const x = Math.cos(lat1 * rad) * Math.sin(lat2 * rad) - Math.sin(lat1 * rad) * Math.cos(lat2 * rad) * Math.cos(dLng);
+    return (Math.atan2(y, x) / rad + 360) % 360;
+}
+
+/**
+ * Position reached from a [lng, lat] start by travelling a distance along a great circle with
+ * the given initial bearing. Longitude is wrapped to -180..180.
+ */
+export function destinationPoint([lng, lat]: number[], bearing: number, km: number): [number, number] {
+    const rad = Math.PI / 180;
+    const d = km / EARTH_RADIUS_KM;
+    const b = bearing * rad;
+    const lat1 = lat * rad;
+    const lat2 = Math.asin(Math.sin(lat1) * Math.cos(d) + Math.cos(lat1) * Math.sin(d) * Math.cos(b));
+    const lng2 = lng * rad + Math.atan2(Math.sin(b) * Math.sin(d) * Math.cos(lat1), Math.cos(d) - Math.sin(lat1) * Math.sin(lat2));
+    return [((lng2 / rad + 540) % 360) - 180, lat2 / rad];
+}
+
+/**
+ * Interpolate the great circle between two [lng, lat] positions in equal segments, matching the
+ * arcs drawn with `greatCircle: true`. Longitudes are kept continuous, so a path across the
+ * antimeridian may leave [-180, 180].
+ */
+export function greatCirclePath(from: number[], to: number[], segments = 64): [number, number][] {
+    const rad = Math.PI / 180;
+    const toVector = ([lng, lat]: number[]) => [
+        Math.cos(lat * rad) * Math.cos(lng * rad),
+        Math.cos(lat * rad) * Math.sin(lng * rad),
+        Math.sin(lat * rad),
+    ];
+    const a = toVector(from);
+    const b = toVector(to);
+    const angle = Math.acos(Math.min(1, Math.max(-1, a[0] * b[0] + a[1] * b[1] + a[2] * b[2])));
+    if (angle < 1e-9) return [[from[0], from[1]], [to[0], to[1]]];
+
+    const path: [number, number][] = [];
+    for (let i = 0; i <= segments; i++) {
+        const f = i / segments;
+        const wa = Math.sin((1 - f) * angle) / Math.sin(angle);
+        const wb = Math.sin(f * angle) / Math.sin(angle);
+        const [x, y, z] = [0, 1, 2].map(k => wa * a[k] + wb * b[k]);
+        let lng = Math.atan2(y, x) / rad;
+        const lat = Math.atan2(z, Math.sqrt(x * x + y * y)) / rad;
+        const previous = path[path.length - 1];
+        if (previous) lng += 360 * Math.round((previous[0] - lng) / 360);
+        path.push([lng, lat]);
+    }
+    return path;
+}
+
+/**
+ * Closed ring of points at a fixed great-circle distance around a [lng, lat] centre, with
+ * longitudes unwrapped around the centre's.
+ */
+export function rangeRing(center: number[], km: number, segments = 90): [number, number][] {
+    const ring: [number, number][] = [];
+    for (let i = 0; i <= segments; i++) {
+        const [lng, lat] = destinationPoint(center, (360 * i) / segments, km);
+        ring.push([lng + 360 * Math.round((center[0] - lng) / 360), lat]);
+    }
+    return ring;
+}
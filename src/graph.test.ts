@@ -0,0 +1,83 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Tests for path search and resilience analysis over the connection graph.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildGraph, simplePaths, findCutPoints, reachableFrom } from './graph';
+
+function link(from: string, to: string) {
+    return { from: { properties: { name: from } }, to: { properties: { name: to } }, _connType: "N" };
+}
+
+/** A reaches Z directly, and through a chain of relays B, C, D and E. */
+const graph = buildGraph([
+    link("A", "B"), link("B", "C"), link("C", "D"), link("D", "E"), link("E", "Z"),
+    link("A", "Z"),
+    link("A", "C"), link("C", "Z"),
+]);
+const hopsOf = (paths: ReturnType<typeof simplePaths>) => paths.map(p => [p[0].from, ...p.map(h => h.to)].join(""));
+
+describe("simplePaths", () => {
+    it("lists every simple path within the hop limit, shortest first", () => {
+        expect(hopsOf(simplePaths(graph, "A", "Z", 5))).toEqual(["AZ", "ACZ", "ABCZ", "ACDEZ", "ABCDEZ"]);
+        expect(hopsOf(simplePaths(graph, "A", "Z", 2))).toEqual(["AZ", "ACZ"]);
+    });
+
+    it("keeps the shortest paths when the limit cuts the list", () => {
+        expect(hopsOf(simplePaths(graph, "A", "Z", 5, 3))).toEqual(["AZ", "ACZ", "ABCZ"]);
+    });
+
+    it("has no paths from a site to itself", () => {
+        expect(simplePaths(graph, "A", "A", 5)).toEqual([]);
+    });
+});
+
+/**
+ * Hub H is the root of a star with spokes P and Q, and joins a ring R1–R2–R3 through R1.
+ * Q reaches S over two parallel links; T hangs off S by a single link.
+ */
+const network = buildGraph([
+    link("H", "P"), link("H", "Q"), link("H", "R1"),
+    link("R1", "R2"), link("R2", "R3"), link("R3", "R1"),
+    link("Q", "S"), link("Q", "S"),
+    link("S", "T"),
+]);
+const pairs = (bridges: ReturnType<typeof findCutPoints>["bridges"]) => bridges.map(b => [b.from, b.to].sort().join("-")).sort();
+
+describe("findCutPoints", () => {
+    const { articulationPoints, bridges } = findCutPoints(network);
+
+    it("finds articulation points, including a root with several children", () => {
+        // H is where the search starts, with P, Q and R1 as separate subtrees.
+        expect(Array.from(network.nodes)[0]).toBe("H");
+        expect(Array.from(articulationPoints).sort()).toEqual(["H", "Q", "R1", "S"]);
+    });
+
+    it("finds bridges but not pairs joined by parallel links", () => {
+        expect(pairs(bridges)).toEqual(["H-P", "H-Q", "H-R1", "S-T"]);
+    });
+
+    it("finds nothing in a cycle", () => {
+        const ring = findCutPoints(buildGraph([link("A", "B"), link("B", "C"), link("C", "A")]));
+        expect(ring.articulationPoints.size).toBe(0);
+        expect(ring.bridges).toEqual([]);
+    });
+});
+
+describe("reachableFrom", () => {
+    it("reaches every connected site", () => {
+        expect(reachableFrom(network, "P").size).toBe(network.nodes.size);
+    });
+
+    it("stops at failed sites", () => {
+        expect(Array.from(reachableFrom(network, "H", new Set(["Q", "R2"]))).sort()).toEqual(["H", "P", "R1", "R3"]);
+    });
+
+    it("reaches nothing from a failed or unknown anchor", () => {
+        expect(reachableFrom(network, "H", new Set(["H"])).size).toBe(0);
+        expect(reachableFrom(network, "X").size).toBe(0);
+    });
+});
@@ -0,0 +1,257 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Connection graph analysis over processed connections (resolved `from`/`to` features).
+ * Nodes are point names; parallel links between the same two sites are kept together
+ * so a path is a sequence of hops, each carrying every link usable for that hop.
+ */
+
+import { getPointName } from './model';
+
+// ---------------------- Types ----------------------
+
+/** One connection as seen by the graph. */
+export interface GraphEdge {
+    /** Index into the connection array the graph was built from. */
+    index: number;
+    from: string;
+    to: string;
+    type: string;
+    ier: string[];
+    connection: any;
+}
+
+/** One step of a path: every usable link from `from` to `to`. */
+export interface PathHop {
+    from: string;
+    to: string;
+    edges: GraphEdge[];
+}
+
+export interface Graph {
+    nodes: Set<string>;
+    edges: GraphEdge[];
+    /** node -> neighbour -> links usable from node to neighbour. */
+    adjacency: Map<string, Map<string, GraphEdge[]>>;
+}
+
+export interface GraphOptions {
+    /** Only include connections of these normalized types. All types when omitted. */
+    types?: Set<string>;
+    /** Follow links only from `from` to `to`. Links are bidirectional by default. */
+    directed?: boolean;
+}
+
+// ---------------------- Construction ----------------------
+
+/**
+ * Build a graph from processed connections (objects with `from`/`to` features and `_connType`).
+ * Connections with an unresolved endpoint or a self-loop are ignored.
+ */
+export function buildGraph(connections: any[], options: GraphOptions = {}): Graph {
+    const nodes = new Set<string>();
+    const edges: GraphEdge[] = [];
+    const adjacency = new Map<string, Map<string, GraphEdge[]>>();
+
+    const link = (a: string, b: string, edge: GraphEdge) => {
+        if (!adjacency.has(a)) adjacency.set(a, new Map());
+        const neighbours = adjacency.get(a)!;
+        if (!neighbours.has(b)) neighbours.set(b, []);
+        neighbours.get(b)!.push(edge);
+    };
+
+    connections.forEach((c, index) => {
+        const from = getPointName(c?.from);
+        const to = getPointName(c?.to);
+        const type = c?._connType ?? "";
+        if (!from || !to || from === to) return;
+        if (options.types && !options.types.has(type)) return;
+
+        const edge: GraphEdge = { index, from, to, type, ier: c?._ierTypes ?? [], connection: c };
+        edges.push(edge);
+        nodes.add(from);
+        nodes.add(to);
+        link(from, to, edge);
+        if (!options.directed) link(to, from, edge);
+    });
+
+    return { nodes, edges, adjacency };
+}
+
+/**
+ * Return the neighbours of a node with the links to each.
+ */
+function neighboursOf(graph: Graph, node: string): [string, GraphEdge[]][] {
+    return Array.from(graph.adjacency.get(node)?.entries() ?? []);
+}
+
+// ---------------------- Paths ----------------------
+
+/**
+ * Find a path with the fewest hops (breadth-first search).
+ * @returns The hops from start to end, an empty array when start === end, or null if unreachable.
+ */
+export function shortestPath(graph: Graph, start: string, end: string): PathHop[] | null {
+    if (start === end) return [];
+    const previous = new Map<string, string>([[start, start]]);
+    const queue = [start];
+
+    for (let head = 0; head < queue.length; head++) {
+        const node = queue[head];
+        for (const [next] of neighboursOf(graph, node)) {
+            if (previous.has(next)) continue;
+            previous.set(next, node);
+            if (next === end) return toHops(graph, walkBack(previous, end));
+            queue.push(next);
+        }
+    }
+    return null;
+}
+
+/**
+ * Enumerate simple paths (no repeated site) of at most `maxHops` hops, shortest first.
+ * Paths are searched by increasing hop count (iterative deepening), so when `limit` cuts the
+ * list short it drops the longest paths, never a shorter one.
+ * @param limit - Stop after this many paths to keep dense graphs responsive.
+ */
+export function simplePaths(graph: Graph, start: string, end: string, maxHops: number, limit = 100): PathHop[][] {
+    if (start === end) return [];
+    const found: string[][] = [];
+    const trail = [start];
+    const visited = new Set([start]);
+
+    // Collect the paths of exactly `depth` hops.
+    const visit = (node: string, depth: number) => {
+        if (found.length >= limit) return;
+        const hops = trail.length - 1;
+        if (node === end) {
+            if (hops === depth) found.push([...trail]);
+            return;
+        }
+        if (hops >= depth) return;
+        for (const [next] of neighboursOf(graph, node)) {
+            if (visited.has(next)) continue;
+            visited.add(next);
+            trail.push(next);
+            visit(next, depth);
+            trail.pop();
+            visited.delete(next);
+        }
+    };
+
+    for (let depth = 1; depth <= maxHops && found.length < limit; depth++) visit(start, depth);
+    return found.map(nodes => toHops(graph, nodes));
+}
+
+/**
+ * Rebuild the node sequence from a BFS predecessor map.
+ */
+function walkBack(previous: Map<string, string>, end: string): string[] {
+    const nodes = [end];
+    let node = end;
+    while (previous.get(node) !== node) {
+        node = previous.get(node)!;
+        nodes.unshift(node);
+    }
+    return nodes;
+}
+
+/**
+ * Convert a node sequence into hops carrying their usable links.
+ */
+function toHops(graph: Graph, nodes: string[]): PathHop[] {
+    return nodes.slice(1).map((to, i) => ({
+        from: nodes[i],
+        to,
+        edges: graph.adjacency.get(nodes[i])?.get(to) ?? [],
+    }));
+}
+
+// ---------------------- Resilience ----------------------
+
+/**
+ * Find articulation points (sites whose loss disconnects part of the graph) and bridges
+ * (site pairs whose only link, if lost, disconnects the graph). Links are treated as
+ * undirected; a pair joined by several parallel links is never a bridge.
+ */
+export function findCutPoints(graph: Graph): { articulationPoints: Set<string>; bridges: PathHop[] } {
+    const order = new Map<string, number>(); // discovery time
+    const low = new Map<string, number>();
+    const articulationPoints = new Set<string>();
+    const bridges: PathHop[] = [];
+    let time = 0;
+
+    // Undirected view of the adjacency, so directed graphs are analysed the same way.
+    const undirected = new Map<string, { next: string; edge: GraphEdge }[]>();
+    graph.edges.forEach(edge => {
+        if (!undirected.has(edge.from)) undirected.set(edge.from, []);
+        if (!undirected.has(edge.to)) undirected.set(edge.to, []);
+        undirected.get(edge.from)!.push({ next: edge.to, edge });
+        undirected.get(edge.to)!.push({ next: edge.from, edge });
+    });
+
+    // Iterative DFS (Tarjan) to stay clear of recursion limits on large graphs.
+    for (const root of Array.from(graph.nodes)) {
+        if (order.has(root)) continue;
+        order.set(root, time);
+        low.set(root, time++);
+        let rootChildren = 0;
+        const stack: { node: string; viaEdge: GraphEdge | null; i: number }[] = [{ node: root, viaEdge: null, i: 0 }];
+
+        while (stack.length > 0) {
+            const frame = stack[stack.length - 1];
+            const links = undirected.get(frame.node) ?? [];
+
+            if (frame.i < links.length) {
+                const { next, edge } = links[frame.i++];
+                if (edge === frame.viaEdge) continue; // Don't walk back over the same link; parallel links still count.
+                if (order.has(next)) {
+                    low.set(frame.node, Math.min(low.get(frame.node)!, order.get(next)!));
+                } else {
+                    order.set(next, time);
+                    low.set(next, time++);
+                    if (frame.node === root) rootChildren++;
+                    stack.push({ node: next, viaEdge: edge, i: 0 });
+                }
+                continue;
+            }
+
+            // All links of frame.node explored: propagate to its parent.
+            stack.pop();
+            const parent = stack[stack.length - 1];
+            if (!parent) continue;
+            low.set(parent.node, Math.min(low.get(parent.node)!, low.get(frame.node)!));
+            if (parent.node !== root && low.get(frame.node)! >= order.get(parent.node)!) {
+                articulationPoints.add(parent.node);
+            }
+            if (low.get(frame.node)! > order.get(parent.node)!) {
+                bridges.push({ from: parent.node, to: frame.node, edges: [frame.viaEdge!] });
+            }
+        }
+
+        if (rootChildren > 1) articulationPoints.add(root);
+    }
+
+    return { articulationPoints, bridges };
+}
+
+/**
+ * Return the sites reachable from `anchor` when the `failed` sites are removed.
+ * Links are followed in both directions unless the graph was built as directed.
+ */
+export function reachableFrom(graph: Graph, anchor: string, failed: Set<string> = new Set()): Set<string> {
+    const reached = new Set<string>();
+    if (!graph.nodes.has(anchor) || failed.has(anchor)) return reached;
+
+    reached.add(anchor);
+    const queue = [anchor];
+    for (let head = 0; head < queue.length; head++) {
+        for (const [next] of neighboursOf(graph, queue[head])) {
+            if (reached.has(next) || failed.has(next)) continue;
+            reached.add(next);
+            queue.push(next);
+        }
+    }
+    return reached;
+}
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Small DOM helpers shared by the panels that build their markup with innerHTML.
+ */
+
+/**
+ * Escape text for safe insertion into innerHTML.
+ */
+export function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, ch => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" }[ch]!));
+}
+
+/**
+ * Trigger a browser download of a Blob.
+ */
+export function downloadBlob(filename: string, blob: Blob) {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Trigger a browser download of a JSON document.
+ */
+export function downloadJson(filename: string, data: unknown) {
+    downloadBlob(filename, new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }));
+}
+
+/**
+ * Download file name stem with the local date and time, e.g. "nxgen-view-20240131-1405".
+ */
+export function fileStem(prefix: string): string {
+    const now = new Date();
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return `${prefix}-${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}`;
+}
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Icon registry: maps the per-point `icon` property to the bundled images in
+ * `database/icons`. Assets are preloaded once so a missing or broken file
+ * falls back to the generated pie-chart pin instead of an empty marker.
+ */
+
+import { getProp } from './model';
+
+/** Base URL of the bundled icon images. */
+const ICON_BASE_URL = "database/icons/";
+
+/** Size (px) icon images are packed at in the deck.gl icon atlas. */
+export const ICON_ASSET_SIZE = 64;
+
+/** A registered icon kind. */
+export interface IconDefinition {
+    label: string;
+    file: string;
+    /** Alternative spellings of the `icon` property that resolve to this kind. */
+    aliases?: string[];
+    /** Direction the image points, in degrees clockwise from north. Images without one are never rotated. */
+    facing?: number;
+    /** Drawn from the side: mirrored rather than turned upside down when heading the other way. */
+    sideView?: boolean;
+}
+
+/** Registered icon kinds, keyed by the canonical `icon` property value. */
+export const ICON_REGISTRY: Record<string, IconDefinition> = {
+    airplane: { label: "Aircraft", file: "airplane.png", aliases: ["plane", "aircraft"], facing: 45 },
+    "cargo-airplane": { label: "Cargo aircraft", file: "cargo-airplane-isolated-on-background-3d-rendering-illustration-free-png.webp" },
+    boat: { label: "Ship", file: "a-large-navy-ship-silhouette-vector.png", aliases: ["ship"], facing: 90, sideView: true },
+    submarine: { label: "Submarine", file: "submarine.jpg", aliases: ["sub"] },
+    trailer: { label: "Trailer", file: "trailer.png", facing: 90, sideView: true },
+    truck: { label: "Truck", file: "truck.png", facing: 90, sideView: true },
+};
+
+/** Load result per icon kind; absent until `preloadIconAssets()` has run for the kind. */
+const iconAvailability = new Map<string, boolean>();
+/** Mirrored copies of the side-view images, as data URLs, made when they load. */
+const mirroredAssets = new Map<string, string>();
+
+/**
+ * Resolve a raw `icon` property value (or a feature carrying one) to a registered kind.
+ * Returns null for missing or unregistered values.
+ */
+export function resolveIconKind(d: any): string | null {
+    const raw = typeof d === "string" ? d : getProp(d, "icon");
+    const value = String(raw ?? "").trim().toLowerCase();
+    if (!value) return null;
+    if (ICON_REGISTRY[value]) return value;
+    return Object.keys(ICON_REGISTRY).find(kind => ICON_REGISTRY[kind].aliases?.includes(value)) ?? null;
+}
+
+/**
+ * Return the image URL for a registered kind.
+ */
+export function getIconUrl(kind: string): string {
+    return ICON_BASE_URL + ICON_REGISTRY[kind].file;
+}
+
+/**
+ * Return the asset URL for a kind if its image loaded, otherwise null (use the fallback pin).
+ */
+export function getIconAsset(kind: string | null): string | null {
+    if (!kind || !iconAvailability.get(kind)) return null;
+    return getIconUrl(kind);
+}
+
+/**
+ * Preload the images for the given kinds and record which ones are usable.
+ * Never rejects: failed loads are logged and recorded as unavailable.
+ */
+export async function preloadIconAssets(kinds: Iterable<string>): Promise<void> {
+    const pending = Array.from(new Set(kinds))
+        .filter(kind => ICON_REGISTRY[kind] && !iconAvailability.has(kind))
+        .map(kind => new Promise<void>(resolve => {
+            const img = new Image();
+            img.onload = () => {
+                iconAvailability.set(kind, true);
+                if (ICON_REGISTRY[kind].sideView) mirroredAssets.set(kind, mirrorImage(img));
+                resolve();
+            };
+            img.onerror = () => {
+                console.warn(`Icon asset for "${kind}" failed to load (${getIconUrl(kind)}); using the default pin.`);
+                iconAvailability.set(kind, false);
+                resolve();
+            };
+            img.src = getIconUrl(kind);
+        }));
+    await Promise.all(pending);
+}
+
+/**
+ * Flip a loaded image left to right.
+ */
+function mirrorImage(img: HTMLImageElement): string {
+    const canvas = document.createElement("canvas");
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext("2d")!;
+    ctx.scale(-1, 1);
+    ctx.drawImage(img, -canvas.width, 0);
+    return canvas.toDataURL();
+}
+
+/**
+ * Image and rotation for an asset heading in a direction (degrees clockwise from north), for
+ * deck.gl's IconLayer: `angle` is counter-clockwise. Side views heading the other way from their
+ * image use the mirrored copy. Without a heading, or for images with no `facing`, the plain
+ * image is used unrotated.
+ * @returns Null if the kind's asset is unavailable.
+ */
+export function getIconPose(kind: string | null, heading: number | null | undefined): { id: string; url: string; angle: number } | null {
+    const url = getIconAsset(kind);
+    if (!kind || !url) return null;
+    const { facing, sideView } = ICON_REGISTRY[kind];
+    if (facing === undefined || heading === null || heading === undefined) return { id: kind, url, angle: 0 };
+
+    const mirrored = mirroredAssets.get(kind);
+    // A side view turns by at most 90° either way; past that its mirror image is closer.
+    const turn = (((heading - facing) % 360) + 540) % 360 - 180;
+    if (sideView && mirrored && Math.abs(turn) > 90) {
+        return { id: `${kind}-mirrored`, url: mirrored, angle: (360 - facing) - heading };
+    }
+    return { id: kind, url, angle: facing - heading };
+}
+
+/**
+ * Build the legend HTML for the icon kinds in use, with a count per kind.
+ * Kinds whose asset is missing are listed with a note that they fall back to the default pin.
+ * @param pins - Processed pin features.
+ */
+export function renderIconLegend(pins: any[]): string {
+    const counts = new Map<string, number>();
+    pins.forEach(p => {
+        const kind = resolveIconKind(p);
+        if (kind) counts.set(kind, (counts.get(kind) ?? 0) + 1);
+    });
+    if (counts.size === 0) return "";
+
+    return Array.from(counts.entries()).map(([kind, count]) => {
+        const url = getIconAsset(kind);
+        const swatch = url
+            ? `<img src="${url}" alt="" style="width:16px; height:16px; object-fit:contain;">`
+            : `<span class="swatch" style="background:#ccc;"></span>`;
+        const note = url ? "" : ` <i style="color:#888;">(missing, shown as pin)</i>`;
+        return `<label>${swatch} ${ICON_REGISTRY[kind].label} (${count})${note}</label>`;
+    }).join('');
+}
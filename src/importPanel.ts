@@ -0,0 +1,232 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * "Import" panel: load points and connections from CSV, KML/KMZ or GeoJSON, chosen with a
+ * file picker or dropped on the page. Shows a preview (with unmatched names) before the
+ * records are merged into, or replace, the current data.
+ */
+
+import { escapeHtml } from './html';
+import {
+    parseCsv, guessCsvKind, guessColumnMapping, csvToData, geoJsonToData, kmlToData, readKmz,
+    formatOf, mergeImport, unmatchedNames, CSV_FIELDS,
+} from './importers';
+import type { CsvKind, ColumnMapping, ImportedData } from './importers';
+import type { EditableData } from './editor';
+
+/** What the import panel needs from the map. */
+export interface ImportHost {
+    /** The current data, to merge into and to match line ends against. */
+    getData(): EditableData;
+    /** Names connections may use without a point. */
+    extraPointNames: string[];
+    /**
+     * Make `data` the current data set and re-run the derivations.
+     * @returns Whether the change was applied.
+     */
+    applyData(label: string, data: EditableData): Promise<boolean>;
+}
+
+/** A file being previewed. CSV files keep their rows so the mapping can be changed. */
+interface PendingImport {
+    fileName: string;
+    csv?: { rows: string[][]; kind: CsvKind; mapping: ColumnMapping };
+    data?: ImportedData;
+    error?: string;
+}
+
+const MAX_LISTED = 30;
+
+/**
+ * Adds the import panel to a container and makes the page a drop target for data files.
+ */
+export function addImportPanel(container: HTMLElement, host: ImportHost) {
+    let pending: PendingImport | null = null;
+
+    const panel = document.createElement("div");
+    panel.id = "import-box";
+    panel.className = "legend-box minimized";
+    panel.style.cssText = `margin-top: 8px; width: 220px; font: 13px system-ui, sans-serif;`;
+    panel.innerHTML = `
+        <div class="legend-header"><h2 style="font-size:16px; margin:0;">Import</h2><button class="toggle-btn" id="import-toggle">+</button></div>
+        <div class="button-section">
+            <button id="import-choose-btn">Choose file…</button>
+            <input type="file" id="import-file-input" accept=".csv,.kml,.kmz,.geojson,.json" style="display:none;">
+        </div>
+        <div style="color:#555;">CSV, KML, KMZ or GeoJSON. You can also drop a file on the map.</div>
+        <div id="import-preview" style="display:flex; flex-direction:column; gap:6px; max-height:50vh; overflow-y:auto;"></div>
+    `;
+    container.appendChild(panel);
+
+    const fileInput = panel.querySelector<HTMLInputElement>("#import-file-input")!;
+    const preview = panel.querySelector<HTMLDivElement>("#import-preview")!;
+    const toggle = panel.querySelector<HTMLButtonElement>("#import-toggle")!;
+
+    const expand = () => {
+        panel.classList.remove("minimized");
+        toggle.textContent = "-";
+    };
+
+    /** Re-read CSV rows with the current kind and mapping. */
+    const convertCsv = () => {
+        if (!pending?.csv) return;
+        try {
+            pending.data = csvToData(pending.csv.rows, pending.csv.kind, pending.csv.mapping);
+            pending.error = undefined;
+        } catch (err) {
+            pending.data = undefined;
+            pending.error = (err as Error).message;
+        }
+    };
+
+    const mappingHtml = (csv: NonNullable<PendingImport["csv"]>) => `
+        <label>Rows are
+            <select id="import-csv-kind" style="flex:1;">
+                <option value="points" ${csv.kind === "points" ? "selected" : ""}>Points</option>
+                <option value="connections" ${csv.kind === "connections" ? "selected" : ""}>Connections</option>
+            </select>
+        </label>
+        ${CSV_FIELDS[csv.kind].map(f => `
+            <label>${escapeHtml(f.label)}${f.required ? " *" : ""}
+                <select class="import-column" data-key="${f.key}" style="flex:1; min-width:0;">
+                    <option value="-1">(none)</option>
+                    ${csv.rows[0].map((h, i) => `<option value="${i}" ${csv.mapping[f.key] === i ? "selected" : ""}>${escapeHtml(h || `Column ${i + 1}`)}</option>`).join('')}
+                </select>
+            </label>
+        `).join('')}
+    `;
+
+    const listHtml = (items: string[]) => items.slice(0, MAX_LISTED).map(escapeHtml).join(", ") +
+        (items.length > MAX_LISTED ? `, … (${items.length - MAX_LISTED} more)` : "");
+
+    const render = () => {
+        if (!pending) {
+            preview.innerHTML = "";
+            return;
+        }
+        const mode = preview.querySelector<HTMLInputElement>('input[name="import-mode"]:checked')?.value ?? "merge";
+        const data = pending.data;
+        // Only names the imported connections use count here; the current data reports its own issues.
+        const unmatched = data
+            ? unmatchedNames({ points: mergeImport(host.getData(), data, mode as "merge" | "replace").points, connections: data.connections }, host.extraPointNames)
+            : [];
+
+        preview.innerHTML = `
+            <div><b>${escapeHtml(pending.fileName)}</b></div>
+            ${pending.csv ? mappingHtml(pending.csv) : ""}
+            ${pending.error ? `<i style="color:#a00;">${escapeHtml(pending.error)}</i>` : ""}
+            ${data ? `
+                <div>${data.points.length} point(s), ${data.connections.length} connection(s).</div>
+                ${data.skipped.length ? `
+                    <details>
+                        <summary style="color:#a60;">${data.skipped.length} record(s) skipped</summary>
+                        <ul style="margin:4px 0; padding-left:18px;">${data.skipped.slice(0, MAX_LISTED).map(s => `<li>${escapeHtml(s)}</li>`).join('')}</ul>
+                    </details>
+                ` : ""}
+                ${unmatched.length ? `
+                    <div style="color:#a00;"><b>${unmatched.length} unmatched name(s)</b>: ${listHtml(unmatched)}</div>
+                    <div style="color:#555;">Connections to these sites won't be drawn until points with these names exist.</div>
+                ` : data.connections.length ? `<div style="color:#070;">All connection endpoints match a point.</div>` : ""}
+                <label><input type="radio" name="import-mode" value="merge" ${mode === "merge" ? "checked" : ""}> Merge with current data</label>
+                <label><input type="radio" name="import-mode" value="replace" ${mode === "replace" ? "checked" : ""}> Replace current ${data.points.length && data.connections.length ? "points and connections" : data.points.length ? "points" : "connections"}</label>
+            ` : ""}
+            <div class="button-section">
+                <button id="import-apply-btn" ${data && (data.points.length || data.connections.length) ? "" : "disabled"}>Import</button>
+                <button id="import-cancel-btn">Cancel</button>
+            </div>
+        `;
+
+        preview.querySelector<HTMLSelectElement>("#import-csv-kind")?.addEventListener("change", e => {
+            const csv = pending!.csv!;
+            csv.kind = (e.target as HTMLSelectElement).value as CsvKind;
+            csv.mapping = guessColumnMapping(csv.rows[0], csv.kind);
+            convertCsv();
+            render();
+        });
+        preview.querySelectorAll<HTMLSelectElement>(".import-column").forEach(select => {
+            select.addEventListener("change", () => {
+                pending!.csv!.mapping[select.dataset.key!] = Number(select.value);
+                convertCsv();
+                render();
+            });
+        });
+        preview.querySelectorAll<HTMLInputElement>('input[name="import-mode"]').forEach(radio => radio.addEventListener("change", render));
+        preview.querySelector("#import-cancel-btn")?.addEventListener("click", () => {
+            pending = null;
+            render();
+        });
+        preview.querySelector("#import-apply-btn")?.addEventListener("click", async () => {
+            if (!pending?.data) return;
+            const merged = mergeImport(host.getData(), pending.data, mode as "merge" | "replace");
+            if (await host.applyData(`Imported ${pending.fileName}`, merged)) {
+                pending = null;
+                render();
+            }
+        });
+    };
+
+    const load = async (file: File) => {
+        expand();
+        const format = formatOf(file.name);
+        pending = { fileName: file.name };
+        try {
+            if (!format) throw new Error("Unsupported file type; use .csv, .kml, .kmz, .geojson or .json.");
+            const current = host.getData().points;
+            if (format === "csv") {
+                const rows = parseCsv(await file.text());
+                if (rows.length < 2) throw new Error("The CSV needs a header row and at least one data row.");
+                const kind = guessCsvKind(rows[0]);
+                pending.csv = { rows, kind, mapping: guessColumnMapping(rows[0], kind) };
+                convertCsv();
+            } else if (format === "geojson") {
+                pending.data = geoJsonToData(JSON.parse(await file.text()), current);
+            } else {
+                const kml = format === "kmz" ? await readKmz(await file.arrayBuffer()) : await file.text();
+                pending.data = kmlToData(kml, current);
+            }
+        } catch (err) {
+            pending.error = `Could not read ${file.name}: ${(err as Error).message}`;
+        }
+        render();
+    };
+
+    panel.querySelector("#import-choose-btn")?.addEventListener("click", () => fileInput.click());
+    fileInput.addEventListener("change", () => {
+        const file = fileInput.files?.[0];
+        fileInput.value = "";
+        if (file) load(file);
+    });
+
+    // Drop target: the whole page, with an outline while a file is dragged over it.
+    const dropHint = document.createElement("div");
+    dropHint.style.cssText = `
+        position: fixed; inset: 0; z-index: 20; display: none; pointer-events: none;
+        border: 4px dashed #1a73e8; background: rgba(26,115,232,.08);
+        align-items: center; justify-content: center; font: 20px system-ui, sans-serif; color: #1a73e8;
+    `;
+    dropHint.textContent = "Drop to import";
+    document.body.appendChild(dropHint);
+    const hasFiles = (e: DragEvent) => Array.from(e.dataTransfer?.types ?? []).includes("Files");
+
+    document.addEventListener("dragover", e => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        dropHint.style.display = "flex";
+    });
+    document.addEventListener("dragleave", e => {
+        if (e.relatedTarget === null) dropHint.style.display = "none";
+    });
+    document.addEventListener("drop", e => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        dropHint.style.display = "none";
+        const file = e.dataTransfer?.files[0];
+        if (file) load(file);
+    });
+
+    toggle.addEventListener("click", () => {
+        panel.classList.toggle("minimized");
+        toggle.textContent = panel.classList.contains("minimized") ? "+" : "-";
+    });
+}
@@ -0,0 +1,203 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Tests for the import readers: CSV parsing and column mapping, GeoJSON, KMZ archives, and
+ * merging imported records into the current data.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'node:zlib';
+import { parseCsv, guessCsvKind, guessColumnMapping, csvToData, geoJsonToData, readKmz, formatOf, mergeImport, unmatchedNames } from './importers';
+import type { EditableData } from './editor';
+
+function point(name: string, lng: number, lat: number, extra: Record<string, string> = {}) {
+    return { type: "Feature", properties: { name, ...extra }, geometry: { type: "Point", coordinates: [lng, lat] } };
+}
+
+describe("parseCsv", () => {
+    it("splits rows on LF, CRLF and CR and drops blank lines", () => {
+        expect(parseCsv("a,b\r\n1,2\n\n3,4\r5,6\r\n")).toEqual([["a", "b"], ["1", "2"], ["3", "4"], ["5", "6"]]);
+    });
+
+    it("reads quoted cells with commas, doubled quotes and newlines", () => {
+        expect(parseCsv(`name,note\n"Site, East","says ""hi""\r\nand bye"\n`)).toEqual([
+            ["name", "note"],
+            ["Site, East", `says "hi"\r\nand bye`],
+        ]);
+    });
+
+    it("keeps empty cells", () => {
+        expect(parseCsv("a,,c\n,,x")).toEqual([["a", "", "c"], ["", "", "x"]]);
+    });
+});
+
+describe("column mapping", () => {
+    it("recognises the usual header spellings", () => {
+        expect(guessColumnMapping(["Site Name", "Latitude", "LON", "Pin group", "Other"], "points")).toEqual({
+            name: 0, lat: 1, lng: 2, group: 3, tech: -1, icon: -1,
+        });
+        expect(guessColumnMapping(["Site", "Y", "X"], "points")).toMatchObject({ name: 0, lat: 1, lng: 2 });
+        expect(guessColumnMapping(["Source", "Destination", "Link type", "IER types"], "connections")).toEqual({
+            from: 0, to: 1, type: 2, ier: 3,
+        });
+    });
+
+    it("guesses whether a file holds points or connections", () => {
+        expect(guessCsvKind(["from", "to", "type"])).toBe("connections");
+        expect(guessCsvKind(["name", "lat", "lng"])).toBe("points");
+        expect(guessCsvKind(["from", "lat", "lng"])).toBe("points");
+    });
+});
+
+describe("csvToData", () => {
+    it("reads points and says why rows are skipped", () => {
+        const rows = parseCsv("name,lat,lng,tech\nA,10,20,SAT\n,1,2,\nB,north,3,\nC,,3,\nD,-5,7,");
+        const data = csvToData(rows, "points", guessColumnMapping(rows[0], "points"));
+        expect(data.points).toEqual([
+            point("A", 20, 10, { tech: "SAT" }),
+            point("D", 7, -5),
+        ]);
+        expect(data.skipped).toEqual(["Row 3: no name.", "Row 4 (B): bad coordinates.", "Row 5 (C): bad coordinates."]);
+    });
+
+    it("reads connections with IER tags in any separator", () => {
+        const rows = parseCsv("from,to,type,ier\nA,B,N,X; Y|Z\nA,,N,\nB,C,HF,");
+        const data = csvToData(rows, "connections", guessColumnMapping(rows[0], "connections"));
+        expect(data.connections).toEqual([
+            { from: "A", to: "B", Connection_type: "N", IER: ["X", "Y", "Z"] },
+            { from: "B", to: "C", Connection_type: "HF" },
+        ]);
+        expect(data.skipped).toEqual(["Row 3: needs from, to and type."]);
+    });
+
+    it("needs a column for every required field", () => {
+        expect(() => csvToData([["name", "lat"]], "points", guessColumnMapping(["name", "lat"], "points")))
+            .toThrow("Choose a column for: Longitude.");
+    });
+});
+
+describe("geoJsonToData", () => {
+    it("turns points into points and lines into connections between the sites at their ends", () => {
+        const data = geoJsonToData({
+            type: "FeatureCollection",
+            features: [
+                point("A", 0, 0),
+                { type: "Feature", properties: {}, geometry: { type: "Point", coordinates: [3, 3] } },
+                { type: "Feature", properties: { Connection_type: "N", IER: "X;Y" }, geometry: { type: "LineString", coordinates: [[0, 0], [1, 1]] } },
+                { type: "Feature", properties: { from: "Q", type: "HF" }, geometry: { type: "LineString", coordinates: [[0, 0], [9, 9]] } },
+                { type: "Feature", properties: {}, geometry: { type: "Polygon", coordinates: [] } },
+            ],
+        }, [point("B", 1, 1)]);
+        expect(data.points.map(p => p.properties.name)).toEqual(["A"]);
+        expect(data.connections).toEqual([
+            { from: "A", to: "B", Connection_type: "N", IER: ["X", "Y"] },
+            { from: "Q", to: "9,9", Connection_type: "HF" },
+        ]);
+        expect(data.skipped).toEqual(["Feature 2: point without a name.", "Feature 5: unsupported geometry Polygon."]);
+    });
+
+    it("rejects input without features", () => {
+        expect(() => geoJsonToData({ type: "FeatureCollection", features: [] })).toThrow("No GeoJSON features found.");
+    });
+});
+
+/**
+ * Build a zip archive with one entry per file, stored or deflated.
+ */
+function zip(files: { name: string; text: string; deflate?: boolean }[]): ArrayBuffer {
+    const parts: Buffer[] = [];
+    const central: Buffer[] = [];
+    let offset = 0;
+    files.forEach(file => {
+        const name = Buffer.from(file.name);
+        const raw = Buffer.from(file.text);
+        const data = file.deflate ? deflateRawSync(raw) : raw;
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(file.deflate ? 8 : 0, 8);
+        local.writeUInt32LE(data.length, 18);
+        local.writeUInt32LE(raw.length, 22);
+        local.writeUInt16LE(name.length, 26);
+        const entry = Buffer.alloc(46);
+        entry.writeUInt32LE(0x02014b50, 0);
+        entry.writeUInt16LE(file.deflate ? 8 : 0, 10);
+        entry.writeUInt32LE(data.length, 20);
+        entry.writeUInt32LE(raw.length, 24);
+        entry.writeUInt16LE(name.length, 28);
+        entry.writeUInt32LE(offset, 42);
+        parts.push(local, name, data);
+        central.push(entry, name);
+        offset += local.length + name.length + data.length;
+    });
+    const directory = Buffer.concat(central);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(files.length, 8);
+    end.writeUInt16LE(files.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+    const bytes = Buffer.concat([...parts, directory, end]);
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.length);
+}
+
+describe("readKmz", () => {
+    const kml = "<kml><Document><name>Sites</name></Document></kml>";
+
+    it("reads the first .kml entry, stored or deflated", async () => {
+        expect(await readKmz(zip([{ name: "images/icon.png", text: "png" }, { name: "doc.kml", text: kml }]))).toBe(kml);
+        expect(await readKmz(zip([{ name: "DOC.KML", text: kml, deflate: true }]))).toBe(kml);
+    });
+
+    it("rejects files that aren't zips or hold no KML", async () => {
+        await expect(readKmz(new TextEncoder().encode("<kml></kml>").buffer)).rejects.toThrow("Not a KMZ (zip) file.");
+        await expect(readKmz(zip([{ name: "readme.txt", text: "hi" }]))).rejects.toThrow("The KMZ contains no .kml document.");
+    });
+});
+
+describe("formatOf", () => {
+    it("reads the format from the extension", () => {
+        expect(["a.CSV", "b.kml", "c.kmz", "d.geojson", "e.json", "f.txt"].map(formatOf)).toEqual(["csv", "kml", "kmz", "geojson", "geojson", null]);
+    });
+});
+
+describe("mergeImport", () => {
+    const current: EditableData = {
+        points: [point("A", 0, 0), point("B", 1, 1)],
+        connections: [{ from: "A", to: "B", Connection_type: "N" }],
+    };
+
+    it("replaces points of the same name and adds only new connections", () => {
+        const merged = mergeImport(current, {
+            points: [point("B", 5, 5), point("C", 2, 2)],
+            connections: [
+                { from: "A", to: "B", Connection_type: "n" },
+                { from: "B", to: "A", Connection_type: "N" },
+                { from: "B", to: "C", Connection_type: "HF" },
+            ],
+        }, "merge");
+        expect(merged.points.map(p => [p.properties.name, p.geometry.coordinates])).toEqual([["A", [0, 0]], ["B", [5, 5]], ["C", [2, 2]]]);
+        expect(merged.connections).toEqual([
+            { from: "A", to: "B", Connection_type: "N" },
+            { from: "B", to: "A", Connection_type: "N" },
+            { from: "B", to: "C", Connection_type: "HF" },
+        ]);
+    });
+
+    it("replaces only the kinds of record the import has", () => {
+        const replaced = mergeImport(current, { points: [point("Z", 9, 9)], connections: [] }, "replace");
+        expect(replaced.points.map(p => p.properties.name)).toEqual(["Z"]);
+        expect(replaced.connections).toBe(current.connections);
+    });
+});
+
+describe("unmatchedNames", () => {
+    it("lists connection endpoints no point defines, except known extra names", () => {
+        const data: EditableData = {
+            points: [point("A", 0, 0)],
+            connections: [{ from: "A", to: "Q" }, { from: "P", to: "E6" }, { from: "Q", to: "A" }],
+        };
+        expect(unmatchedNames(data)).toEqual(["E6", "P", "Q"]);
+        expect(unmatchedNames(data, ["E6"])).toEqual(["P", "Q"]);
+    });
+});
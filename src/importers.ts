@@ -0,0 +1,355 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Readers for external point and connection sources: CSV (with a column mapping),
+ * KML/KMZ placemarks and LineStrings, and GeoJSON with LineString features as connections.
+ * Everything is converted to the records of `database/points.json` and `connections.json`.
+ */
+
+import { getPointName } from './model';
+import type { EditableData } from './editor';
+
+export type ImportFormat = "csv" | "kml" | "kmz" | "geojson";
+
+/** What a CSV file holds. */
+export type CsvKind = "points" | "connections";
+
+/** Column index for each field; -1 means the field is not in the file. */
+export type ColumnMapping = Record<string, number>;
+
+export const CSV_FIELDS: Record<CsvKind, { key: string; label: string; required: boolean }[]> = {
+    points: [
+        { key: "name", label: "Name", required: true },
+        { key: "lat", label: "Latitude", required: true },
+        { key: "lng", label: "Longitude", required: true },
+        { key: "group", label: "Group", required: false },
+        { key: "tech", label: "Tech", required: false },
+        { key: "icon", label: "Icon", required: false },
+    ],
+    connections: [
+        { key: "from", label: "From", required: true },
+        { key: "to", label: "To", required: true },
+        { key: "type", label: "Type", required: true },
+        { key: "ier", label: "IER", required: false },
+    ],
+};
+
+/** Header spellings recognised for each field, lower case with punctuation removed. */
+const COLUMN_ALIASES: Record<string, string[]> = {
+    name: ["name", "site", "sitename", "point", "location"],
+    lat: ["lat", "latitude", "y"],
+    lng: ["lng", "lon", "long", "longitude", "x"],
+    group: ["group", "pingroup", "category"],
+    tech: ["tech", "technology"],
+    icon: ["icon", "asset"],
+    from: ["from", "source", "start", "origin"],
+    to: ["to", "target", "end", "destination", "dest"],
+    type: ["type", "connectiontype", "linktype", "conntype"],
+    ier: ["ier", "iers", "iertype", "iertypes"],
+};
+
+/** Records read from a file, before merging. */
+export interface ImportedData extends EditableData {
+    /** Rows or features that could not be used, with the reason. */
+    skipped: string[];
+}
+
+// ---------------------- CSV ----------------------
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with commas, quotes and newlines.
+ * Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ",") {
+            row.push(cell);
+            cell = "";
+        } else if (ch === "\n" || ch === "\r") {
+            if (ch === "\r" && text[i + 1] === "\n") i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = "";
+        } else {
+            cell += ch;
+        }
+    }
+    row.push(cell);
+    rows.push(row);
+    return rows.filter(r => r.some(c => c.trim() !== ""));
+}
+
+/**
+ * Guess whether a CSV header row describes points or connections.
+ */
+export function guessCsvKind(headers: string[]): CsvKind {
+    const mapping = guessColumnMapping(headers, "connections");
+    return mapping.from >= 0 && mapping.to >= 0 ? "connections" : "points";
+}
+
+/**
+ * Match header cells to fields by their usual spellings.
+ */
+export function guessColumnMapping(headers: string[], kind: CsvKind): ColumnMapping {
+    const normalized = headers.map(h => h.toLowerCase().replace(/[^a-z]/g, ""));
+    return Object.fromEntries(CSV_FIELDS[kind].map(({ key }) =>
+        [key, normalized.findIndex(h => COLUMN_ALIASES[key].includes(h))]));
+}
+
+/**
+ * Split an IER cell such as "A; B" or "A|B" into tags.
+ */
+function splitTags(cell: string): string[] {
+    return cell.split(/[;|,\s]+/).map(t => t.trim()).filter(Boolean);
+}
+
+/**
+ * Convert CSV rows (header row first) into points or connections using a column mapping.
+ * @throws Error if a required field is not mapped.
+ */
+export function csvToData(rows: string[][], kind: CsvKind, mapping: ColumnMapping): ImportedData {
+    const missing = CSV_FIELDS[kind].filter(f => f.required && !(mapping[f.key] >= 0));
+    if (missing.length) throw new Error(`Choose a column for: ${missing.map(f => f.label).join(", ")}.`);
+
+    const result: ImportedData = { points: [], connections: [], skipped: [] };
+    const cell = (row: string[], key: string) => (mapping[key] >= 0 ? (row[mapping[key]] ?? "").trim() : "");
+
+    rows.slice(1).forEach((row, i) => {
+        const line = `Row ${i + 2}`;
+        if (kind === "points") {
+            const name = cell(row, "name");
+            const lat = Number(cell(row, "lat"));
+            const lng = Number(cell(row, "lng"));
+            if (!name) return result.skipped.push(`${line}: no name.`);
+            if (!cell(row, "lat") || !cell(row, "lng") || !Number.isFinite(lat) || !Number.isFinite(lng)) {
+                return result.skipped.push(`${line} (${name}): bad coordinates.`);
+            }
+            const properties: Record<string, string> = { name };
+            ["group", "tech", "icon"].forEach(key => {
+                if (cell(row, key)) properties[key] = cell(row, key);
+            });
+            result.points.push({ type: "Feature", properties, geometry: { type: "Point", coordinates: [lng, lat] } });
+        } else {
+            const from = cell(row, "from");
+            const to = cell(row, "to");
+            const type = cell(row, "type");
+            if (!from || !to || !type) return result.skipped.push(`${line}: needs from, to and type.`);
+            const ier = splitTags(cell(row, "ier"));
+            result.connections.push({ from, to, Connection_type: type, ...(ier.length ? { IER: ier } : {}) });
+        }
+    });
+    return result;
+}
+
+// ---------------------- Geometry Matching ----------------------
+
+const COORD_EPS = 1e-5;
+
+/**
+ * Return the name of the point at a position, or a "lat,lng" placeholder if there is none.
+ */
+function nameAt(points: any[], [lng, lat]: number[]): string {
+    const hit = points.find(p => {
+        const [plng, plat] = p.geometry?.coordinates ?? [];
+        return Math.abs(plng - lng) < COORD_EPS && Math.abs(plat - lat) < COORD_EPS;
+    });
+    return hit ? getPointName(hit) : `${lat},${lng}`;
+}
+
+/**
+ * Turn a line into a connection between the points at its ends.
+ * Explicit `from`/`to` properties win over the geometry.
+ * @param knownPoints - Points the line ends may sit on (imported and current).
+ */
+function lineToConnection(coords: number[][], props: Record<string, any>, knownPoints: any[]): any {
+    const ier = Array.isArray(props.IER) ? props.IER : typeof props.IER === "string" ? splitTags(props.IER) : [];
+    return {
+        from: props.from ?? nameAt(knownPoints, coords[0]),
+        to: props.to ?? nameAt(knownPoints, coords[coords.length - 1]),
+        Connection_type: props.Connection_type ?? props.type ?? "",
+        ...(ier.length ? { IER: ier } : {}),
+    };
+}
+
+// ---------------------- GeoJSON ----------------------
+
+/**
+ * Read a GeoJSON FeatureCollection: Point features become points, LineString features connections.
+ * @param currentPoints - Points already loaded, for matching line ends to sites.
+ */
+export function geoJsonToData(json: any, currentPoints: any[] = []): ImportedData {
+    const features: any[] = json?.type === "FeatureCollection" ? json.features : json?.type === "Feature" ? [json] : [];
+    if (features.length === 0) throw new Error("No GeoJSON features found.");
+
+    const result: ImportedData = { points: [], connections: [], skipped: [] };
+    const lines: any[] = [];
+    features.forEach((f, i) => {
+        const type = f?.geometry?.type;
+        if (type === "Point" && getPointName(f)) {
+            result.points.push({ type: "Feature", properties: { ...f.properties }, geometry: f.geometry });
+        } else if (type === "LineString" && f.geometry.coordinates?.length >= 2) {
+            lines.push(f);
+        } else {
+            result.skipped.push(`Feature ${i + 1}: ${type === "Point" ? "point without a name" : `unsupported geometry ${type}`}.`);
+        }
+    });
+    const knownPoints = [...result.points, ...currentPoints];
+    lines.forEach(f => result.connections.push(lineToConnection(f.geometry.coordinates, f.properties ?? {}, knownPoints)));
+    return result;
+}
+
+// ---------------------- KML / KMZ ----------------------
+
+/**
+ * Parse KML coordinates ("lng,lat[,alt] ...") into [lng, lat] pairs.
+ */
+function parseKmlCoordinates(text: string): number[][] {
+    return text.trim().split(/\s+/).map(t => t.split(",").slice(0, 2).map(Number)).filter(c => c.length === 2 && c.every(Number.isFinite));
+}
+
+/**
+ * Read KML placemarks: Points become points, LineStrings connections.
+ * `ExtendedData` values (group, tech, icon, Connection_type, IER, ...) are kept as properties.
+ * @param currentPoints - Points already loaded, for matching line ends to sites.
+ */
+export function kmlToData(text: string, currentPoints: any[] = []): ImportedData {
+    const doc = new DOMParser().parseFromString(text, "application/xml");
+    if (doc.getElementsByTagName("parsererror").length) throw new Error("The KML is not valid XML.");
+
+    const result: ImportedData = { points: [], connections: [], skipped: [] };
+    const lines: { coords: number[][]; props: Record<string, any> }[] = [];
+    Array.from(doc.getElementsByTagName("Placemark")).forEach((placemark, i) => {
+        const props: Record<string, any> = {};
+        const name = placemark.getElementsByTagName("name")[0]?.textContent?.trim();
+        Array.from(placemark.getElementsByTagName("Data")).forEach(data => {
+            const key = data.getAttribute("name");
+            const value = data.getElementsByTagName("value")[0]?.textContent?.trim();
+            if (key && value) props[key] = value;
+        });
+
+        const point = placemark.getElementsByTagName("Point")[0];
+        const line = placemark.getElementsByTagName("LineString")[0];
+        const coords = parseKmlCoordinates((point ?? line)?.getElementsByTagName("coordinates")[0]?.textContent ?? "");
+        if (point && coords.length === 1 && name) {
+            result.points.push({ type: "Feature", properties: { ...props, name }, geometry: { type: "Point", coordinates: coords[0] } });
+        } else if (line && coords.length >= 2) {
+            lines.push({ coords, props });
+        } else {
+            result.skipped.push(`Placemark ${i + 1}${name ? ` (${name})` : ""}: needs a named Point or a LineString.`);
+        }
+    });
+    const knownPoints = [...result.points, ...currentPoints];
+    lines.forEach(({ coords, props }) => result.connections.push(lineToConnection(coords, props, knownPoints)));
+    return result;
+}
+
+/**
+ * Extract the first `.kml` document from a KMZ (zip) archive.
+ * Supports stored and deflated entries, which is what Google Earth writes.
+ * @throws Error if the archive has no readable KML.
+ */
+export async function readKmz(buffer: ArrayBuffer): Promise<string> {
+    const view = new DataView(buffer);
+    // The end-of-central-directory record sits in the last 22 bytes plus any archive comment.
+    let end = -1;
+    for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) {
+            end = i;
+            break;
+        }
+    }
+    if (end < 0) throw new Error("Not a KMZ (zip) file.");
+
+    const entries = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+    for (let n = 0; n < entries; n++) {
+        const method = view.getUint16(offset + 10, true);
+        const size = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const headerOffset = view.getUint32(offset + 42, true);
+        const name = new TextDecoder().decode(new Uint8Array(buffer, offset + 46, nameLength));
+        offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+        if (!name.toLowerCase().endsWith(".kml")) continue;
+
+        const dataStart = headerOffset + 30 + view.getUint16(headerOffset + 26, true) + view.getUint16(headerOffset + 28, true);
+        const bytes = new Uint8Array(buffer, dataStart, size);
+        if (method === 0) return new TextDecoder().decode(bytes);
+        if (method === 8) {
+            const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+            return new Response(stream).text();
+        }
+        throw new Error(`${name} uses an unsupported compression method (${method}).`);
+    }
+    throw new Error("The KMZ contains no .kml document.");
+}
+
+// ---------------------- Merging ----------------------
+
+/**
+ * Return the format a file name implies, or null if it isn't one we read.
+ */
+export function formatOf(fileName: string): ImportFormat | null {
+    const ext = fileName.toLowerCase().split(".").pop();
+    if (ext === "csv") return "csv";
+    if (ext === "kml") return "kml";
+    if (ext === "kmz") return "kmz";
+    if (ext === "geojson" || ext === "json") return "geojson";
+    return null;
+}
+
+/**
+ * Combine imported records with the current data.
+ * - "merge": imported points replace current points of the same name; connections not already
+ *   present (same from, to and type) are added.
+ * - "replace": the imported records replace the current ones of each kind present in the import.
+ */
+export function mergeImport(current: EditableData, imported: EditableData, mode: "merge" | "replace"): EditableData {
+    if (mode === "replace") {
+        return {
+            points: imported.points.length ? imported.points : current.points,
+            connections: imported.connections.length ? imported.connections : current.connections,
+        };
+    }
+    const byName = new Map(current.points.map(p => [getPointName(p), p]));
+    imported.points.forEach(p => byName.set(getPointName(p), p));
+    const linkKey = (c: any) => `${c.from}|${c.to}|${String(c.Connection_type).toUpperCase()}`;
+    const existing = new Set(current.connections.map(linkKey));
+    return {
+        points: Array.from(byName.values()),
+        connections: [...current.connections, ...imported.connections.filter(c => !existing.has(linkKey(c)))],
+    };
+}
+
+/**
+ * Names that connections refer to but no point defines.
+ * @param extraNames - Names that resolve without a point.
+ */
+export function unmatchedNames(data: EditableData, extraNames: string[] = []): string[] {
+    const known = new Set([...data.points.map(getPointName), ...extraNames]);
+    const missing = new Set<string>();
+    data.connections.forEach(c => {
+        [c.from, c.to].forEach(name => {
+            if (!known.has(name)) missing.add(name);
+        });
+    });
+    return Array.from(missing).sort();
+}
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Tests for legend entries: styling parity with the layers, descriptions and counts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compileTaxonomy, getConnectionStyle, getGroupColor } from './taxonomy';
+import { buildLegend, countKinds, getKindCount, formatKindCount } from './legend';
+
+const taxonomy = compileTaxonomy({
+    version: 1,
+    defaultGroup: "BLUE",
+    defaultConnection: { color: [128, 128, 128, 200], height: 0.5 },
+    groups: [
+        { key: "RED", label: "Red", description: "Forward bases", color: [200, 0, 0, 220], members: { names: ["FOB1", "FOB2"], patterns: ["^LRT\\d+$"] } },
+        { key: "BLUE", label: "Blue", description: "Any point in no other group", color: [0, 120, 255, 220] },
+    ],
+    connectionTypes: [
+        { key: "HF", label: "Pink", description: "High-frequency radio", color: [255, 105, 180, 220] },
+        { key: "U L", label: "Turquoise", description: "UHF link", color: [8, 232, 222, 220] },
+    ],
+    ierTypes: [{ key: "LOCATION", label: "Location" }],
+});
+
+describe("buildLegend", () => {
+    const legend = buildLegend(taxonomy);
+
+    it("uses the colours the layers draw with", () => {
+        legend.conn.forEach(e => expect(e.color).toEqual(getConnectionStyle(taxonomy, e.key).color));
+        legend.pin.forEach(e => expect(e.color).toEqual(getGroupColor(taxonomy, e.key)));
+        expect(legend.conn[1].color).toEqual([8, 232, 222, 220]);
+    });
+
+    it("labels connection types with their code and describes them", () => {
+        expect(legend.conn.map(e => [e.label, e.description])).toEqual([
+            ["HF", "High-frequency radio"],
+            ["U L", "UHF link"],
+        ]);
+        expect(legend.ier[0].color).toBeNull();
+        expect(legend.status.map(e => e.key)).toEqual(["up", "degraded", "down", "unknown"]);
+    });
+
+    it("labels pin groups with their colour name and describes them", () => {
+        expect(legend.pin.map(e => [e.label, e.description])).toEqual([
+            ["Red", "Forward bases"],
+            ["Blue", "Any point in no other group"],
+        ]);
+    });
+});
+
+describe("countKinds", () => {
+    const items = [
+        { kinds: ["A"], shown: true },
+        { kinds: ["A", "B"], shown: false },
+        { kinds: [], shown: true },
+    ];
+    const counts = countKinds(items, d => d.kinds, d => d.shown);
+
+    it("counts every kind of an item, shown or not", () => {
+        expect(getKindCount(counts, "A")).toEqual({ total: 2, visible: 1 });
+        expect(getKindCount(counts, "B")).toEqual({ total: 1, visible: 0 });
+        expect(getKindCount(counts, "C")).toEqual({ total: 0, visible: 0 });
+    });
+
+    it("formats counts as shown of total", () => {
+        expect(formatKindCount({ total: 2, visible: 1 })).toBe("1/2");
+        expect(formatKindCount({ total: 3, visible: 3 })).toBe("3");
+    });
+});
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Legend entries for the filter panels, generated from the taxonomy and the styling the layers
+ * use, with a description and live counts for each connection type, pin group, IER type and
+ * link status.
+ *
+ * Pure module: no DOM or deck.gl references.
+ */
+
+import type { Taxonomy, RGBA } from './taxonomy';
+import { getConnectionStyle, getGroupColor } from './taxonomy';
+import { LINK_STATUSES, LINK_STATUS_STYLES } from './linkStatus';
+
+/** How many items of one kind exist in the data, and how many pass every filter. */
+export interface KindCount {
+    total: number;
+    visible: number;
+}
+
+/** One legend row. */
+export interface LegendEntry {
+    key: string;
+    /** Text next to the checkbox. */
+    label: string;
+    description: string;
+    /** Swatch colour, from the same functions the layers use; null for no swatch. */
+    color: RGBA | null;
+}
+
+export type LegendKind = "conn" | "pin" | "ier" | "status";
+
+/** The legend's rows, in taxonomy order. */
+export type Legend = Record<LegendKind, LegendEntry[]>;
+
+const NO_COUNT: KindCount = { total: 0, visible: 0 };
+
+/**
+ * Count items by kind; an item with several kinds (e.g. IER types) counts once for each.
+ */
+export function countKinds<T>(items: T[], kindsOf: (d: T) => string[], isVisible: (d: T) => boolean): Map<string, KindCount> {
+    const counts = new Map<string, KindCount>();
+    items.forEach(d => {
+        const visible = isVisible(d);
+        kindsOf(d).forEach(kind => {
+            const count = counts.get(kind) ?? { total: 0, visible: 0 };
+            count.total += 1;
+            if (visible) count.visible += 1;
+            counts.set(kind, count);
+        });
+    });
+    return counts;
+}
+
+/**
+ * Return the count for a kind, zero when nothing of it exists.
+ */
+export function getKindCount(counts: Map<string, KindCount>, kind: string): KindCount {
+    return counts.get(kind) ?? NO_COUNT;
+}
+
+/**
+ * Build the legend rows from the taxonomy. Connection types are labelled with the type code the
+ * data and tooltips use; their swatch is the colour `getConnectionStyle` gives the arcs.
+ */
+export function buildLegend(taxonomy: Taxonomy): Legend {
+    return {
+        conn: taxonomy.connectionTypes.map(t => ({
+            key: t.key,
+            label: t.key,
+            description: t.description,
+            color: getConnectionStyle(taxonomy, t.key).color,
+        })),
+        pin: taxonomy.groups.map(g => ({
+            key: g.key,
+            label: g.label,
+            description: g.description,
+            color: getGroupColor(taxonomy, g.key),
+        })),
+        ier: taxonomy.ierTypes.map(t => ({
+            key: t.key,
+            label: t.label,
+            description: t.description ?? `Connections carrying ${t.label} information exchange`,
+            color: null,
+        })),
+        status: LINK_STATUSES.map(key => ({
+            key,
+            label: LINK_STATUS_STYLES[key].label,
+            description: LINK_STATUS_STYLES[key].description,
+            color: LINK_STATUS_STYLES[key].color,
+        })),
+    };
+}
+
+/**
+ * Text for a row's count: shown of total, or just the total while everything is shown.
+ */
+export function formatKindCount({ total, visible }: KindCount): string {
+    return visible === total ? `${total}` : `${visible}/${total}`;
+}
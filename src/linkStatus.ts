@@ -0,0 +1,88 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Link status: the optional `status` field on connections (up, degraded, down or unknown),
+ * its legend styling, and the roll-up of a site's link statuses shown for its pin.
+ */
+
+import { getProp, getPointName } from './model';
+import type { RGBA } from './taxonomy';
+
+export type LinkStatus = "up" | "degraded" | "down" | "unknown";
+
+/** Statuses in legend order. */
+export const LINK_STATUSES: LinkStatus[] = ["up", "degraded", "down", "unknown"];
+
+/** Legend entry for each status, describing how the status-aware style draws it. */
+export const LINK_STATUS_STYLES: Record<LinkStatus, { label: string; color: RGBA; description: string }> = {
+    up: { label: "Up", color: [30, 158, 62, 255], description: "Drawn normally" },
+    degraded: { label: "Degraded", color: [240, 160, 0, 255], description: "Pulsing" },
+    down: { label: "Down", color: [220, 0, 0, 255], description: "Red outline" },
+    unknown: { label: "Unknown", color: [153, 153, 153, 255], description: "Faded; also links without a status" },
+};
+
+/**
+ * Normalize a raw status value, or return null if it isn't one of the statuses.
+ */
+function parseLinkStatus(value: unknown): LinkStatus | null {
+    const status = typeof value === "string" ? value.trim().toLowerCase() : "";
+    return (LINK_STATUSES as string[]).includes(status) ? status as LinkStatus : null;
+}
+
+/**
+ * Return a connection's status. A missing or unrecognised value is "unknown".
+ */
+export function getLinkStatus(d: any): LinkStatus {
+    return parseLinkStatus(getProp(d, "status")) ?? "unknown";
+}
+
+/**
+ * Return true if a connection has no status or one of the known statuses.
+ */
+export function hasValidLinkStatus(d: any): boolean {
+    const value = getProp(d, "status");
+    return value === undefined || value === null || value === "" || parseLinkStatus(value) !== null;
+}
+
+/**
+ * Status of several links drawn as one arc: the worst known status, or unknown when none is known.
+ */
+export function combineLinkStatuses(statuses: LinkStatus[]): LinkStatus {
+    return (["down", "degraded", "up"] as LinkStatus[]).find(s => statuses.includes(s)) ?? "unknown";
+}
+
+/** Number of a site's links in each status. */
+export type LinkStatusCounts = Record<LinkStatus, number> & { total: number };
+
+/**
+ * Count the statuses of the connections touching a site. Connections may hold endpoint
+ * names or resolved point features.
+ */
+export function countLinkStatuses(connections: any[], name: string): LinkStatusCounts {
+    const counts: LinkStatusCounts = { up: 0, degraded: 0, down: 0, unknown: 0, total: 0 };
+    connections.forEach(c => {
+        const from = typeof c.from === "string" ? c.from : getPointName(c.from);
+        const to = typeof c.to === "string" ? c.to : getPointName(c.to);
+        if (from !== name && to !== name) return;
+        counts[c._status ?? getLinkStatus(c)]++;
+        counts.total++;
+    });
+    return counts;
+}
+
+/**
+ * Badge text for a site's links, e.g. "2 of 5 links down, 1 degraded", with the status that
+ * colours it. Null when the site has no links with a known status.
+ */
+export function linkStatusBadge(counts: LinkStatusCounts): { text: string; status: LinkStatus } | null {
+    const { total, up, degraded, down } = counts;
+    if (up + degraded + down === 0) return null;
+    const links = total === 1 ? "link" : "links";
+    if (down > 0) {
+        return { text: `${down} of ${total} ${links} down${degraded ? `, ${degraded} degraded` : ""}`, status: "down" };
+    }
+    if (degraded > 0) return { text: `${degraded} of ${total} ${links} degraded`, status: "degraded" };
+    if (up < total) return { text: `${up} of ${total} ${links} up`, status: "up" };
+    return { text: total === 1 ? "Link up" : `All ${total} links up`, status: "up" };
+}
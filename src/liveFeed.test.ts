@@ -0,0 +1,190 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Tests for live feed messages, applying them to the data, and reconnection with backoff.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseLiveMessages, applyLiveUpdate, backoffDelay, connectLiveFeed } from './liveFeed';
+import type { FeedStatus, LiveTransport, TransportHandlers } from './liveFeed';
+import type { EditableData } from './editor';
+
+describe("parseLiveMessages", () => {
+    it("decodes single messages and batches", () => {
+        expect(parseLiveMessages(`{"type": "point-removed", "name": "E6-9"}`).messages).toEqual([
+            { type: "point-removed", name: "E6-9" },
+        ]);
+        const { messages, errors } = parseLiveMessages(JSON.stringify([
+            { type: "point-moved", name: "E6-9", coordinates: [10, 20, 300] },
+            { type: "connection-degraded", from: "E6-9", to: "PENT", Connection_type: " sat " },
+            { type: "connection-up", from: "E6-9", to: "PENT" },
+        ]));
+        expect(errors).toEqual([]);
+        expect(messages).toEqual([
+            { type: "point-moved", name: "E6-9", coordinates: [10, 20] },
+            { type: "connection-status", status: "degraded", from: "E6-9", to: "PENT", connectionType: "SAT" },
+            { type: "connection-status", status: "up", from: "E6-9", to: "PENT" },
+        ]);
+    });
+
+    it("keeps the valid messages of a batch and reports the others", () => {
+        const { messages, errors } = parseLiveMessages(JSON.stringify([
+            { type: "point-removed", name: "A" },
+            { type: "point-moved", name: "A", coordinates: [200, 0] },
+            { type: "point-added", point: { type: "Feature", properties: {}, geometry: { type: "Point", coordinates: [0, 0] } } },
+            { type: "connection-down", from: "A" },
+            { type: "explode" },
+        ]));
+        expect(messages).toEqual([{ type: "point-removed", name: "A" }]);
+        expect(errors).toEqual([
+            `"point-moved" for "A" needs [lng, lat] coordinates.`,
+            `"point-added" needs a point with a "name" property.`,
+            `"connection-down" needs a "to" name.`,
+            `Unknown message type "explode".`,
+        ]);
+    });
+
+    it("rejects frames that aren't JSON", () => {
+        expect(parseLiveMessages("{oops")).toEqual({ messages: [], errors: ["Frame is not valid JSON."] });
+    });
+});
+
+describe("applyLiveUpdate", () => {
+    const data: EditableData = {
+        points: [
+            { type: "Feature", properties: { name: "A" }, geometry: { type: "Point", coordinates: [0, 0] } },
+            { type: "Feature", properties: { name: "B" }, geometry: { type: "Point", coordinates: [1, 0] } },
+        ],
+        connections: [
+            { from: "A", to: "B", Connection_type: "N" },
+            { from: "B", to: "A", Connection_type: "HF" },
+        ],
+    };
+
+    it("moves a point without modifying the data and lists its connections", () => {
+        const update = applyLiveUpdate(data, { type: "point-moved", name: "A", coordinates: [5, 5] });
+        expect(update.data.points[0].geometry.coordinates).toEqual([5, 5]);
+        expect(data.points[0].geometry.coordinates).toEqual([0, 0]);
+        expect(update.connections).toEqual(new Set([0, 1]));
+    });
+
+    it("sets link status, matching the other direction when needed", () => {
+        const update = applyLiveUpdate(data, { type: "connection-status", status: "down", from: "A", to: "B", connectionType: "HF" });
+        expect(update.connections).toEqual(new Set([1]));
+        expect(update.data.connections[1].status).toBe("down");
+        expect(data.connections[1].status).toBeUndefined();
+    });
+
+    it("adds a link that comes up, but rejects other unknown links and duplicate points", () => {
+        const update = applyLiveUpdate(data, { type: "connection-status", status: "up", from: "A", to: "B", connectionType: "SAT" });
+        expect(update.data.connections[2]).toEqual({ from: "A", to: "B", Connection_type: "SAT", status: "up" });
+        expect(() => applyLiveUpdate(data, { type: "connection-status", status: "down", from: "A", to: "C" }))
+            .toThrow(`connection-down: no connection between "A" and "C".`);
+        expect(() => applyLiveUpdate(data, { type: "point-added", point: data.points[0] })).toThrow(`"A" already exists`);
+        expect(() => applyLiveUpdate(data, { type: "point-removed", name: "C" })).toThrow(`unknown point "C"`);
+    });
+});
+
+describe("backoffDelay", () => {
+    it("doubles from one second, with jitter over the upper half", () => {
+        expect(backoffDelay(0, () => 0)).toBe(500);
+        expect(backoffDelay(0, () => 1)).toBe(1000);
+        expect(backoffDelay(3, () => 0)).toBe(4000);
+        expect(backoffDelay(3, () => 1)).toBe(8000);
+    });
+
+    it("is capped at thirty seconds", () => {
+        expect(backoffDelay(5, () => 1)).toBe(30000);
+        expect(backoffDelay(50, () => 1)).toBe(30000);
+        expect(backoffDelay(50, () => 0)).toBe(15000);
+    });
+});
+
+describe("connectLiveFeed", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    /** A transport whose connections the test opens, feeds and drops. */
+    function fakeTransport() {
+        const connections: { handlers: TransportHandlers; closed: boolean }[] = [];
+        const transport: LiveTransport = {
+            open(handlers) {
+                const connection = { handlers, closed: false };
+                connections.push(connection);
+                return () => { connection.closed = true; };
+            },
+        };
+        return { transport, connections };
+    }
+
+    function connect(transport: LiveTransport) {
+        const statuses: FeedStatus[] = [];
+        const received: unknown[] = [];
+        const invalid: string[] = [];
+        const stop = connectLiveFeed(transport, {
+            onMessages: messages => received.push(...messages),
+            onInvalid: errors => invalid.push(...errors),
+            onStatus: status => statuses.push(status),
+        });
+        return { stop, statuses, received, invalid };
+    }
+
+    it("passes on valid messages and reports invalid ones", () => {
+        const { transport, connections } = fakeTransport();
+        const feed = connect(transport);
+        connections[0].handlers.onOpen();
+        connections[0].handlers.onMessage(`[{"type": "point-removed", "name": "A"}, {"type": "nope"}]`);
+        expect(feed.statuses).toEqual(["connecting", "live"]);
+        expect(feed.received).toEqual([{ type: "point-removed", name: "A" }]);
+        expect(feed.invalid).toEqual([`Unknown message type "nope".`]);
+    });
+
+    it("reconnects with growing delays, starting over once connected", () => {
+        vi.useFakeTimers();
+        vi.spyOn(Math, "random").mockReturnValue(1);
+        const { transport, connections } = fakeTransport();
+        const feed = connect(transport);
+
+        connections[0].handlers.onClose("dropped");
+        vi.advanceTimersByTime(999);
+        expect(connections).toHaveLength(1);
+        vi.advanceTimersByTime(1);
+        expect(connections).toHaveLength(2);
+
+        connections[1].handlers.onClose("refused");
+        vi.advanceTimersByTime(1999);
+        expect(connections).toHaveLength(2);
+        vi.advanceTimersByTime(1);
+        expect(connections).toHaveLength(3);
+
+        connections[2].handlers.onOpen();
+        connections[2].handlers.onClose("dropped");
+        vi.advanceTimersByTime(1000);
+        expect(connections).toHaveLength(4);
+        expect(feed.statuses).toEqual(["connecting", "reconnecting", "reconnecting", "reconnecting", "reconnecting", "live", "reconnecting", "reconnecting"]);
+    });
+
+    it("stops for good, even with a retry pending", () => {
+        vi.useFakeTimers();
+        const { transport, connections } = fakeTransport();
+        const feed = connect(transport);
+        connections[0].handlers.onClose("dropped");
+        feed.stop();
+        vi.advanceTimersByTime(60000);
+        expect(connections).toHaveLength(1);
+        expect(feed.statuses[feed.statuses.length - 1]).toBe("offline");
+    });
+
+    it("closes the open connection when stopped and ignores its close event", () => {
+        const { transport, connections } = fakeTransport();
+        const feed = connect(transport);
+        connections[0].handlers.onOpen();
+        feed.stop();
+        expect(connections[0].closed).toBe(true);
+        connections[0].handlers.onClose("closed");
+        expect(feed.statuses).toEqual(["connecting", "live", "offline"]);
+    });
+});
@@ -0,0 +1,317 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Live data feed: messages that add, move or remove points and change link status, read from
+ * a pluggable transport (WebSocket or Server-Sent Events) with reconnection and backoff.
+ *
+ * Messages are JSON, one message or an array of messages per frame/event:
+ *   {"type": "point-added", "point": {GeoJSON Point feature}}
+ *   {"type": "point-moved", "name": "E6-9", "coordinates": [lng, lat]}
+ *   {"type": "point-removed", "name": "E6-9"}
+ *   {"type": "connection-up" | "connection-down" | "connection-degraded" | "connection-unknown",
+ *    "from": "E6-9", "to": "PENT", "Connection_type"?: "SAT"}
+ */
+
+import { getProp, getConnType, getPointName } from './model';
+import type { LinkStatus } from './linkStatus';
+import type { EditableData } from './editor';
+
+// ---------------------- Messages ----------------------
+
+export type LiveMessage =
+    | { type: "point-added"; point: any }
+    | { type: "point-moved"; name: string; coordinates: [number, number] }
+    | { type: "point-removed"; name: string }
+    | { type: "connection-status"; status: LinkStatus; from: string; to: string; connectionType?: string };
+
+const STATUS_TYPES: Record<string, LinkStatus> = {
+    "connection-up": "up",
+    "connection-down": "down",
+    "connection-degraded": "degraded",
+    "connection-unknown": "unknown",
+};
+
+/**
+ * Return true for a finite [lng, lat] pair within range.
+ */
+function isLngLat(value: any): value is [number, number] {
+    return Array.isArray(value) && value.length >= 2 &&
+        Number.isFinite(value[0]) && Number.isFinite(value[1]) &&
+        Math.abs(value[0]) <= 180 && Math.abs(value[1]) <= 90;
+}
+
+/**
+ * Validate one decoded message.
+ * @throws Error describing what is wrong with it.
+ */
+function parseMessage(raw: any): LiveMessage {
+    const type = raw?.type;
+    const needName = (key: string) => {
+        if (typeof raw[key] !== "string" || !raw[key].trim()) throw new Error(`"${type}" needs a "${key}" name.`);
+        return raw[key] as string;
+    };
+
+    if (type === "point-added") {
+        const point = raw.point;
+        if (point?.type !== "Feature" || point.geometry?.type !== "Point" || !isLngLat(point.geometry.coordinates)) {
+            throw new Error(`"point-added" needs a GeoJSON Point feature with valid coordinates.`);
+        }
+        if (typeof point.properties?.name !== "string" || !point.properties.name.trim()) {
+            throw new Error(`"point-added" needs a point with a "name" property.`);
+        }
+        return { type, point };
+    }
+    if (type === "point-moved") {
+        const name = needName("name");
+        if (!isLngLat(raw.coordinates)) throw new Error(`"point-moved" for "${name}" needs [lng, lat] coordinates.`);
+        return { type, name, coordinates: [raw.coordinates[0], raw.coordinates[1]] };
+    }
+    if (type === "point-removed") {
+        return { type, name: needName("name") };
+    }
+    if (typeof type === "string" && type in STATUS_TYPES) {
+        const connectionType = raw.Connection_type ?? raw.connection_type;
+        return {
+            type: "connection-status",
+            status: STATUS_TYPES[type],
+            from: needName("from"),
+            to: needName("to"),
+            ...(typeof connectionType === "string" && connectionType ? { connectionType: connectionType.trim().toUpperCase() } : {}),
+        };
+    }
+    throw new Error(`Unknown message type ${JSON.stringify(type)}.`);
+}
+
+/**
+ * Decode a frame: one message or an array of messages. Invalid messages are reported
+ * individually so one bad entry doesn't drop the rest of a batch.
+ */
+export function parseLiveMessages(text: string): { messages: LiveMessage[]; errors: string[] } {
+    let decoded: unknown;
+    try {
+        decoded = JSON.parse(text);
+    } catch {
+        return { messages: [], errors: ["Frame is not valid JSON."] };
+    }
+    const messages: LiveMessage[] = [];
+    const errors: string[] = [];
+    (Array.isArray(decoded) ? decoded : [decoded]).forEach(raw => {
+        try {
+            messages.push(parseMessage(raw));
+        } catch (err) {
+            errors.push((err as Error).message);
+        }
+    });
+    return { messages, errors };
+}
+
+// ---------------------- Applying Messages ----------------------
+
+/** A message applied to the source data. */
+export interface LiveUpdate {
+    data: EditableData;
+    /** Indices of the connections whose record or endpoints changed. */
+    connections: Set<number>;
+}
+
+/**
+ * Indices of the connections with an endpoint named `name`.
+ */
+function connectionsOf(data: EditableData, name: string): Set<number> {
+    const indices = new Set<number>();
+    data.connections.forEach((c, index) => {
+        if (getProp(c, "from") === name || getProp(c, "to") === name) indices.add(index);
+    });
+    return indices;
+}
+
+/**
+ * Apply one message to the source data. The data is not modified; changed arrays and records
+ * are new objects, so layers and the editor see the change.
+ * @throws Error describing why the message can't be applied.
+ */
+export function applyLiveUpdate(data: EditableData, msg: LiveMessage): LiveUpdate {
+    switch (msg.type) {
+        case "point-added": {
+            const name = getPointName(msg.point);
+            if (data.points.some(p => getPointName(p) === name)) throw new Error(`point-added: "${name}" already exists.`);
+            const raw = { ...msg.point, properties: { ...msg.point.properties } };
+            return { data: { ...data, points: [...data.points, raw] }, connections: connectionsOf(data, name) };
+        }
+        case "point-moved":
+        case "point-removed": {
+            const index = data.points.findIndex(p => getPointName(p) === msg.name);
+            if (index < 0) throw new Error(`${msg.type}: unknown point "${msg.name}".`);
+            const points = data.points.slice();
+            if (msg.type === "point-moved") {
+                const old = points[index];
+                points[index] = { ...old, geometry: { ...old.geometry, coordinates: msg.coordinates } };
+            } else {
+                // Its connections stay in the source data and reappear if the point is added again.
+                points.splice(index, 1);
+            }
+            return { data: { ...data, points }, connections: connectionsOf(data, msg.name) };
+        }
+        case "connection-status": {
+            const matching = (from: string, to: string) => {
+                const indices = new Set<number>();
+                data.connections.forEach((c, index) => {
+                    if (getProp(c, "from") === from && getProp(c, "to") === to &&
+                        (!msg.connectionType || getConnType(c) === msg.connectionType)) indices.add(index);
+                });
+                return indices;
+            };
+            // Links are matched in the given direction first, then the other way round.
+            let indices = matching(msg.from, msg.to);
+            if (indices.size === 0) indices = matching(msg.to, msg.from);
+
+            const connections = data.connections.slice();
+            if (indices.size === 0) {
+                if (msg.status !== "up" || !msg.connectionType) {
+                    const link = msg.connectionType ? `${msg.connectionType} connection` : "connection";
+                    throw new Error(`connection-${msg.status}: no ${link} between "${msg.from}" and "${msg.to}".`);
+                }
+                // A link that comes up and isn't in the data yet is added.
+                connections.push({ from: msg.from, to: msg.to, Connection_type: msg.connectionType, status: msg.status });
+                indices.add(connections.length - 1);
+            } else {
+                indices.forEach(index => { connections[index] = { ...connections[index], status: msg.status }; });
+            }
+            return { data: { ...data, connections }, connections: indices };
+        }
+    }
+}
+
+// ---------------------- Transports ----------------------
+
+export interface TransportHandlers {
+    onOpen(): void;
+    onMessage(text: string): void;
+    /** The connection was lost or could not be made. */
+    onClose(reason: string): void;
+}
+
+/** A way to receive message frames; `open` returns a function that closes the connection. */
+export interface LiveTransport {
+    open(handlers: TransportHandlers): () => void;
+}
+
+/**
+ * Receive frames from a WebSocket endpoint (ws:// or wss://).
+ */
+export function webSocketTransport(url: string): LiveTransport {
+    return {
+        open(handlers) {
+            const socket = new WebSocket(url);
+            let closed = false;
+            socket.onopen = () => handlers.onOpen();
+            socket.onmessage = e => {
+                if (typeof e.data === "string") handlers.onMessage(e.data);
+            };
+            socket.onclose = e => {
+                if (!closed) handlers.onClose(e.reason || `connection closed (code ${e.code})`);
+                closed = true;
+            };
+            return () => {
+                closed = true;
+                socket.close();
+            };
+        },
+    };
+}
+
+/**
+ * Receive frames from a Server-Sent Events endpoint (http:// or https://).
+ * EventSource would retry on its own at a fixed interval; it is closed on error instead so
+ * reconnection follows the same backoff as WebSockets.
+ */
+export function sseTransport(url: string): LiveTransport {
+    return {
+        open(handlers) {
+            const source = new EventSource(url);
+            source.onopen = () => handlers.onOpen();
+            source.onmessage = e => handlers.onMessage(e.data);
+            source.onerror = () => {
+                source.close();
+                handlers.onClose("event stream unavailable");
+            };
+            return () => source.close();
+        },
+    };
+}
+
+/**
+ * Pick the transport for an endpoint URL from its scheme.
+ * @throws Error for other schemes.
+ */
+export function transportForUrl(url: string): LiveTransport {
+    if (/^wss?:\/\//i.test(url)) return webSocketTransport(url);
+    if (/^https?:\/\//i.test(url) || url.startsWith("/")) return sseTransport(url);
+    throw new Error("Use a ws://, wss://, http:// or https:// URL.");
+}
+
+// ---------------------- Connection ----------------------
+
+export type FeedStatus = "connecting" | "live" | "reconnecting" | "offline";
+
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30000;
+
+/**
+ * Delay before reconnection attempt `attempt` (0-based): exponential from 1 s up to 30 s,
+ * with jitter over the upper half so many clients don't reconnect in step.
+ */
+export function backoffDelay(attempt: number, random = Math.random): number {
+    const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+    return ceiling / 2 + (random() * ceiling) / 2;
+}
+
+export interface LiveFeedHandlers {
+    onMessages(messages: LiveMessage[]): void;
+    /** Problems with received frames; the connection stays up. */
+    onInvalid(errors: string[]): void;
+    /** Connection state; `retryAt` is set while waiting to reconnect. */
+    onStatus(status: FeedStatus, detail?: { reason?: string; retryAt?: number }): void;
+}
+
+/**
+ * Keep a transport connected, reconnecting with backoff whenever it drops.
+ * @returns A function that disconnects for good.
+ */
+export function connectLiveFeed(transport: LiveTransport, handlers: LiveFeedHandlers): () => void {
+    let attempt = 0;
+    let stopped = false;
+    let close: (() => void) | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const open = () => {
+        handlers.onStatus(attempt === 0 ? "connecting" : "reconnecting");
+        close = transport.open({
+            onOpen: () => {
+                attempt = 0;
+                handlers.onStatus("live");
+            },
+            onMessage: text => {
+                const { messages, errors } = parseLiveMessages(text);
+                if (messages.length) handlers.onMessages(messages);
+                if (errors.length) handlers.onInvalid(errors);
+            },
+            onClose: reason => {
+                close = null;
+                if (stopped) return;
+                const delay = backoffDelay(attempt++);
+                handlers.onStatus("reconnecting", { reason, retryAt: Date.now() + delay });
+                retryTimer = setTimeout(open, delay);
+            },
+        });
+    };
+
+    open();
+    return () => {
+        stopped = true;
+        if (retryTimer) clearTimeout(retryTimer);
+        close?.();
+        handlers.onStatus("offline");
+    };
+}
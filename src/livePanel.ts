@@ -0,0 +1,146 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * "Live feed" panel: connect the map to a WebSocket or SSE endpoint, with a status light in
+ * the header (visible while minimized), reconnect countdown and message counters.
+ */
+
+import { escapeHtml } from './html';
+import { connectLiveFeed, transportForUrl } from './liveFeed';
+import type { FeedStatus, LiveMessage } from './liveFeed';
+
+/** What the live feed panel needs from the map. */
+export interface LiveHost {
+    /** Endpoint to connect to on load, e.g. from the build environment. */
+    defaultUrl?: string;
+    /**
+     * Apply received messages.
+     * @returns Problems with messages that could not be applied, e.g. unknown point names.
+     */
+    onMessages(messages: LiveMessage[]): string[];
+}
+
+const STORAGE_KEY = "nxgen.liveFeedUrl.v1";
+
+const STATUS_STYLES: Record<FeedStatus, { color: string; label: string }> = {
+    connecting: { color: "#f0a000", label: "Connecting…" },
+    live: { color: "#1e9e3e", label: "Live" },
+    reconnecting: { color: "#f0a000", label: "Reconnecting" },
+    offline: { color: "#999", label: "Offline" },
+};
+
+/**
+ * Adds the live feed panel to a container, connecting on load when an endpoint is configured.
+ */
+export function addLivePanel(container: HTMLElement, host: LiveHost) {
+    let disconnect: (() => void) | null = null;
+    let countdown: ReturnType<typeof setInterval> | null = null;
+    let received = 0;
+    let rejected = 0;
+    let lastMessageAt: number | null = null;
+
+    const panel = document.createElement("div");
+    panel.id = "live-box";
+    panel.className = "legend-box minimized";
+    panel.style.cssText = `margin-top: 8px; width: 220px; font: 13px system-ui, sans-serif;`;
+    panel.innerHTML = `
+        <div class="legend-header">
+            <h2 style="font-size:16px; margin:0; display:flex; align-items:center; gap:6px;">
+                <span id="live-light" style="width:10px; height:10px; border-radius:50%; display:inline-block;"></span>Live feed
+            </h2>
+            <button class="toggle-btn" id="live-toggle">+</button>
+        </div>
+        <input id="live-url" type="text" placeholder="ws://… or http://…/events" style="width:100%; box-sizing:border-box;">
+        <div class="button-section">
+            <button id="live-connect-btn">Connect</button>
+        </div>
+        <div id="live-status"></div>
+        <div id="live-stats" style="color:#555;"></div>
+        <div id="live-errors" style="color:#a00; max-height:80px; overflow-y:auto;"></div>
+    `;
+    container.appendChild(panel);
+
+    const urlInput = panel.querySelector<HTMLInputElement>("#live-url")!;
+    const connectBtn = panel.querySelector<HTMLButtonElement>("#live-connect-btn")!;
+    const light = panel.querySelector<HTMLSpanElement>("#live-light")!;
+    const statusText = panel.querySelector<HTMLDivElement>("#live-status")!;
+    const stats = panel.querySelector<HTMLDivElement>("#live-stats")!;
+    const errors = panel.querySelector<HTMLDivElement>("#live-errors")!;
+    urlInput.value = localStorage.getItem(STORAGE_KEY) ?? host.defaultUrl ?? "";
+
+    const renderStats = () => {
+        stats.textContent = received || rejected
+            ? `${received} message(s) applied${rejected ? `, ${rejected} rejected` : ""}` +
+              (lastMessageAt ? `; last at ${new Date(lastMessageAt).toLocaleTimeString()}` : "")
+            : "";
+    };
+
+    const setStatus = (status: FeedStatus, detail?: { reason?: string; retryAt?: number }) => {
+        const style = STATUS_STYLES[status];
+        light.style.background = style.color;
+        light.title = style.label;
+        if (countdown) clearInterval(countdown);
+        countdown = null;
+
+        const render = () => {
+            const wait = detail?.retryAt ? Math.max(0, Math.ceil((detail.retryAt - Date.now()) / 1000)) : null;
+            statusText.innerHTML = `<b>${style.label}</b>` +
+                (detail?.reason ? ` <span style="color:#555;">(${escapeHtml(detail.reason)})</span>` : "") +
+                (wait !== null ? `<div style="color:#555;">Retrying in ${wait} s</div>` : "");
+        };
+        render();
+        if (detail?.retryAt) countdown = setInterval(render, 1000);
+        connectBtn.textContent = status === "offline" ? "Connect" : "Disconnect";
+    };
+
+    /** Count rejected messages and show the latest problem. */
+    const reject = (problems: string[]) => {
+        rejected += problems.length;
+        if (problems.length) errors.textContent = problems[problems.length - 1];
+        renderStats();
+    };
+
+    const connect = () => {
+        const url = urlInput.value.trim();
+        errors.textContent = "";
+        try {
+            const transport = transportForUrl(url);
+            localStorage.setItem(STORAGE_KEY, url);
+            received = rejected = 0;
+            lastMessageAt = null;
+            renderStats();
+            disconnect = connectLiveFeed(transport, {
+                onMessages: messages => {
+                    const problems = host.onMessages(messages);
+                    received += messages.length - problems.length;
+                    lastMessageAt = Date.now();
+                    reject(problems);
+                },
+                onInvalid: reject,
+                onStatus: setStatus,
+            });
+        } catch (err) {
+            setStatus("offline", { reason: (err as Error).message });
+        }
+    };
+
+    connectBtn.addEventListener("click", () => {
+        if (disconnect) {
+            disconnect();
+            disconnect = null;
+        } else {
+            connect();
+        }
+    });
+
+    const toggle = panel.querySelector<HTMLButtonElement>("#live-toggle")!;
+    toggle.addEventListener("click", () => {
+        panel.classList.toggle("minimized");
+        toggle.textContent = panel.classList.contains("minimized") ? "+" : "-";
+    });
+
+    setStatus("offline");
+    if (host.defaultUrl && urlInput.value) connect();
+}
+
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Tests for measurement units, segments and coordinate formats.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { convertDistance, formatDistance, formatDistances, formatBearing, measureSegments, parseRadii, formatDms, formatMgrs } from './measure';
+
+describe("distances", () => {
+    it("converts between kilometres, nautical miles and statute miles", () => {
+        expect(convertDistance(1.852, "km", "nm")).toBeCloseTo(1, 10);
+        expect(convertDistance(1, "mi", "km")).toBeCloseTo(1.609344, 10);
+        expect(convertDistance(10, "nm", "nm")).toBe(10);
+    });
+
+    it("formats with fewer decimals as values grow", () => {
+        expect(formatDistance(1.234)).toBe("1.23 km");
+        expect(formatDistance(12.34)).toBe("12.3 km");
+        expect(formatDistance(1234.5)).toBe("1,235 km");
+        expect(formatDistances(100)).toBe("100 km / 54.0 nm / 62.1 mi");
+    });
+
+    it("formats bearings as three digits", () => {
+        expect(formatBearing(45.2)).toBe("045°");
+        expect(formatBearing(359.7)).toBe("000°");
+    });
+
+    it("parses radius lists, skipping anything that isn't a positive number", () => {
+        expect(parseRadii("100, 250 500;x,-5,0")).toEqual([100, 250, 500]);
+        expect(parseRadii("")).toEqual([]);
+    });
+});
+
+describe("measureSegments", () => {
+    it("measures each leg of a polyline with its initial bearing", () => {
+        const segments = measureSegments([[0, 0], [1, 0], [1, 1]]);
+        expect(segments).toHaveLength(2);
+        expect(segments[0].km).toBeCloseTo(111.2, 1);
+        expect(segments[0].bearing).toBeCloseTo(90, 6);
+        expect(segments[1].bearing).toBeCloseTo(0, 6);
+        expect(segments[1].from).toEqual([1, 0]);
+    });
+
+    it("has no segments for fewer than two points", () => {
+        expect(measureSegments([[0, 0]])).toEqual([]);
+    });
+});
+
+describe("formatDms", () => {
+    it("formats degrees, minutes and seconds with hemispheres", () => {
+        expect(formatDms(48.8583, 2.2945)).toBe("48°51′29.9″N 2°17′40.2″E");
+        expect(formatDms(-33.8568, -151.2153)).toBe("33°51′24.5″S 151°12′55.1″W");
+    });
+
+    it("carries rounded seconds into the minutes", () => {
+        expect(formatDms(10.99999, 0)).toBe("11°00′00.0″N 0°00′00.0″E");
+    });
+});
+
+describe("formatMgrs", () => {
+    it("formats grid references at known points", () => {
+        expect(formatMgrs(0, 0)).toBe("31N AA 66021 00000");
+        expect(formatMgrs(0, 3)).toBe("31N EA 00000 00000");
+        expect(formatMgrs(-33.8568, 151.2153)).toBe("56H LH 34900 52288");
+        expect(formatMgrs(40.6892, -74.0445)).toBe("18T WL 80735 04695");
+    });
+
+    it("applies the Norway and Svalbard zone exceptions", () => {
+        expect(formatMgrs(60.39, 5.32)?.startsWith("32V")).toBe(true);
+        expect(formatMgrs(78.22, 15.65)?.startsWith("33X")).toBe(true);
+    });
+
+    it("has no reference in the polar regions", () => {
+        expect(formatMgrs(85, 0)).toBeNull();
+        expect(formatMgrs(-81, 0)).toBeNull();
+    });
+});
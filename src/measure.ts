@@ -0,0 +1,168 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Measurement helpers: great-circle segments of a measured polyline, distances in kilometres,
+ * nautical miles and statute miles, and coordinates as decimal degrees, DMS or MGRS.
+ *
+ * Pure module: no DOM or deck.gl references.
+ */
+
+import { distanceKm, bearingDeg } from './geo';
+
+// ---------------------- Distances ----------------------
+
+export type DistanceUnit = "km" | "nm" | "mi";
+
+export const DISTANCE_UNITS: DistanceUnit[] = ["km", "nm", "mi"];
+
+/** Kilometres per unit. */
+const KM_PER_UNIT: Record<DistanceUnit, number> = { km: 1, nm: 1.852, mi: 1.609344 };
+
+/** One leg of a measured polyline. */
+export interface MeasureSegment {
+    from: [number, number];
+    to: [number, number];
+    km: number;
+    /** Initial great-circle bearing, in degrees clockwise from north. */
+    bearing: number;
+}
+
+/**
+ * Convert a distance between units.
+ */
+export function convertDistance(value: number, from: DistanceUnit, to: DistanceUnit): number {
+    return value * KM_PER_UNIT[from] / KM_PER_UNIT[to];
+}
+
+/**
+ * Format a distance with sensible precision, e.g. "1,234 km" or "12.3 nm".
+ */
+export function formatDistance(km: number, unit: DistanceUnit = "km"): string {
+    const value = convertDistance(km, "km", unit);
+    const digits = value < 10 ? 2 : value < 100 ? 1 : 0;
+    return `${value.toLocaleString("en-US", { minimumFractionDigits: digits, maximumFractionDigits: digits })} ${unit}`;
+}
+
+/**
+ * Format a distance in every unit, e.g. "100 km / 54.0 nm / 62.1 mi".
+ */
+export function formatDistances(km: number): string {
+    return DISTANCE_UNITS.map(unit => formatDistance(km, unit)).join(" / ");
+}
+
+/**
+ * Format a bearing as a zero-padded whole number of degrees, e.g. "045°".
+ */
+export function formatBearing(bearing: number): string {
+    return `${String(Math.round(bearing) % 360).padStart(3, "0")}°`;
+}
+
+/**
+ * Split a polyline into great-circle segments.
+ */
+export function measureSegments(points: [number, number][]): MeasureSegment[] {
+    return points.slice(1).map((to, i) => {
+        const from = points[i];
+        return { from, to, km: distanceKm(from, to), bearing: bearingDeg(from, to) };
+    });
+}
+
+/**
+ * Parse a list of radii such as "100, 250 500", ignoring anything that isn't a positive number.
+ */
+export function parseRadii(text: string): number[] {
+    return text.split(/[\s,;]+/).map(Number).filter(r => Number.isFinite(r) && r > 0);
+}
+
+// ---------------------- Coordinates ----------------------
+
+/**
+ * Format one angle as degrees, minutes and seconds with a hemisphere letter.
+ */
+function toDms(value: number, positive: string, negative: string): string {
+    const hemisphere = value < 0 ? negative : positive;
+    // Round to tenths of a second first, so 59.95″ carries into the minutes.
+    const tenths = Math.round(Math.abs(value) * 36000);
+    const degrees = Math.floor(tenths / 36000);
+    const minutes = Math.floor((tenths % 36000) / 600);
+    const seconds = (tenths % 600) / 10;
+    return `${degrees}°${String(minutes).padStart(2, "0")}′${seconds.toFixed(1).padStart(4, "0")}″${hemisphere}`;
+}
+
+/**
+ * Format a position as degrees, minutes and seconds, latitude first, e.g. 48°51′29.9″N 2°17′40.2″E.
+ */
+export function formatDms(lat: number, lng: number): string {
+    return `${toDms(lat, "N", "S")} ${toDms(lng, "E", "W")}`;
+}
+
+/** WGS84 ellipsoid and UTM scale. */
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const UTM_K0 = 0.9996;
+/** Latitude bands from 80°S, 8° each; X covers 72°N–84°N. */
+const LAT_BANDS = "CDEFGHJKLMNPQRSTUVWX";
+/** 100 km square column letters, by zone number modulo 3; row letters repeat every 2,000 km. */
+const MGRS_COLUMNS = ["STUVWXYZ", "ABCDEFGH", "JKLMNPQR"];
+const MGRS_ROWS = "ABCDEFGHJKLMNPQRSTUV";
+
+/**
+ * UTM zone of a position, including the Norway and Svalbard exceptions.
+ */
+function utmZone(lat: number, lng: number): number {
+    if (lat >= 56 && lat < 64 && lng >= 3 && lng < 12) return 32;
+    if (lat >= 72 && lat < 84 && lng >= 0 && lng < 42) {
+        if (lng < 9) return 31;
+        if (lng < 21) return 33;
+        if (lng < 33) return 35;
+        return 37;
+    }
+    return Math.min(60, Math.floor((lng + 180) / 6) + 1);
+}
+
+/**
+ * Project a position to UTM in a given zone (Snyder's series), returning easting and northing in
+ * metres; southern northings carry the 10,000 km false northing.
+ */
+function toUtm(lat: number, lng: number, zone: number): [number, number] {
+    const rad = Math.PI / 180;
+    const e2 = WGS84_F * (2 - WGS84_F);
+    const ep2 = e2 / (1 - e2);
+    const phi = lat * rad;
+    const lambda0 = ((zone - 1) * 6 - 180 + 3) * rad;
+
+    const sin = Math.sin(phi);
+    const cos = Math.cos(phi);
+    const n = WGS84_A / Math.sqrt(1 - e2 * sin * sin);
+    const t = Math.tan(phi) ** 2;
+    const c = ep2 * cos * cos;
+    const a = cos * (lng * rad - lambda0);
+    const m = WGS84_A * (
+        (1 - e2 / 4 - 3 * e2 ** 2 / 64 - 5 * e2 ** 3 / 256) * phi -
+        (3 * e2 / 8 + 3 * e2 ** 2 / 32 + 45 * e2 ** 3 / 1024) * Math.sin(2 * phi) +
+        (15 * e2 ** 2 / 256 + 45 * e2 ** 3 / 1024) * Math.sin(4 * phi) -
+        (35 * e2 ** 3 / 3072) * Math.sin(6 * phi));
+
+    const easting = UTM_K0 * n * (a + (1 - t + c) * a ** 3 / 6 + (5 - 18 * t + t * t + 72 * c - 58 * ep2) * a ** 5 / 120) + 500000;
+    const northing = UTM_K0 * (m + n * Math.tan(phi) * (a * a / 2 + (5 - t + 9 * c + 4 * c * c) * a ** 4 / 24 +
+        (61 - 58 * t + t * t + 600 * c - 330 * ep2) * a ** 6 / 720));
+    return [easting, lat < 0 ? northing + 10000000 : northing];
+}
+
+/**
+ * Format a position as an MGRS grid reference with 1 m precision, e.g. "31U DQ 48251 11932".
+ * Returns null in the polar regions (south of 80°S or north of 84°N), which MGRS covers with UPS.
+ */
+export function formatMgrs(lat: number, lng: number): string | null {
+    if (!(lat >= -80 && lat <= 84) || !(lng >= -180 && lng <= 180)) return null;
+    const zone = utmZone(lat, lng === 180 ? -180 : lng);
+    const band = LAT_BANDS[Math.min(LAT_BANDS.length - 1, Math.floor((lat + 80) / 8))];
+    const [easting, northing] = toUtm(lat, lng, zone);
+
+    const column = MGRS_COLUMNS[zone % 3][Math.floor(easting / 100000) - 1];
+    // Even zones start their rows at F.
+    const row = MGRS_ROWS[(Math.floor(northing / 100000) + (zone % 2 === 0 ? 5 : 0)) % MGRS_ROWS.length];
+    const digits = (v: number) => String(Math.floor(v % 100000)).padStart(5, "0");
+    return `${zone}${band} ${column}${row} ${digits(easting)} ${digits(northing)}`;
+}
@@ -0,0 +1,186 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * "Measure" tool: click the map (or a pin, to snap to it) to build a polyline and read each
+ * segment's great-circle distance and initial bearing, plus the total; and draw range rings at
+ * chosen radii around a site.
+ */
+
+import { escapeHtml } from './html';
+import { DISTANCE_UNITS, convertDistance, formatBearing, formatDistance, formatDistances, measureSegments, parseRadii } from './measure';
+import type { DistanceUnit, MeasureSegment } from './measure';
+
+/** A vertex of the measured polyline, named when it was snapped to a pin. */
+export interface MeasurePoint {
+    position: [number, number];
+    name?: string;
+}
+
+/** Range rings around a site. */
+export interface RangeRings {
+    name: string;
+    center: [number, number];
+    radiiKm: number[];
+}
+
+/** What the map should show for the current measurement. */
+export interface MeasureView {
+    points: MeasurePoint[];
+    segments: MeasureSegment[];
+    rings: RangeRings | null;
+    /** Unit for the distance labels on the map. */
+    unit: DistanceUnit;
+}
+
+/** What the measure tool needs from the map. */
+export interface MeasureHost {
+    getPointNames(): string[];
+    /** [lng, lat] of a site, or null if it is unknown. */
+    getPosition(name: string): [number, number] | null;
+    /** Called with what to draw, or null to clear it. */
+    onChange(view: MeasureView | null): void;
+}
+
+export interface MeasureTool {
+    /** True while map clicks add points to the measurement. */
+    isMeasuring(): boolean;
+    /** Add a point at a [lng, lat] position, optionally snapped to a named site. */
+    addPoint(position: [number, number], name?: string): void;
+}
+
+const DEFAULT_RADII = "100, 500";
+
+/**
+ * Label for a measured point: its site name, or its coordinates.
+ */
+function pointLabel(point: MeasurePoint): string {
+    return point.name ?? `${point.position[1].toFixed(4)}, ${point.position[0].toFixed(4)}`;
+}
+
+/**
+ * Adds the measure panel to a container.
+ * @returns Hooks for the map click handler.
+ */
+export function addMeasurePanel(container: HTMLElement, host: MeasureHost): MeasureTool {
+    let measuring = false;
+    let points: MeasurePoint[] = [];
+    let rings: RangeRings | null = null;
+
+    const panel = document.createElement("div");
+    panel.id = "measure-box";
+    panel.className = "legend-box minimized";
+    panel.style.cssText = `margin-top: 8px; width: 220px; font: 13px system-ui, sans-serif;`;
+    panel.innerHTML = `
+        <div class="legend-header"><h2 style="font-size:16px; margin:0;">Measure</h2><button class="toggle-btn" id="measure-toggle">+</button></div>
+        <div class="button-section">
+            <button id="measure-start-btn" title="Click the map to add points; click a pin to snap to it">Measure</button>
+            <button id="measure-undo-btn">Undo</button>
+            <button id="measure-clear-btn">Clear</button>
+        </div>
+        <label>Map labels in
+            <select id="measure-unit" style="flex:1;">
+                ${DISTANCE_UNITS.map(u => `<option value="${u}">${u}</option>`).join('')}
+            </select>
+        </label>
+        <div id="measure-results" style="display:flex; flex-direction:column; gap:4px; max-height:30vh; overflow-y:auto;"></div>
+        <b>Range rings</b>
+        <datalist id="measure-point-names">
+            ${host.getPointNames().sort().map(n => `<option value="${escapeHtml(n)}"></option>`).join('')}
+        </datalist>
+        <label>Site <input id="measure-ring-site" list="measure-point-names" style="flex:1; min-width:0;"></label>
+        <label>Radii <input id="measure-ring-radii" value="${DEFAULT_RADII}" title="Comma-separated, in the map label unit" style="flex:1; min-width:0;"></label>
+        <div class="button-section">
+            <button id="measure-ring-btn">Draw rings</button>
+            <button id="measure-ring-clear-btn">Clear rings</button>
+        </div>
+        <div id="measure-ring-status"></div>
+    `;
+    container.appendChild(panel);
+
+    const startButton = panel.querySelector<HTMLButtonElement>("#measure-start-btn")!;
+    const unitSelect = panel.querySelector<HTMLSelectElement>("#measure-unit")!;
+    const results = panel.querySelector<HTMLDivElement>("#measure-results")!;
+    const ringSite = panel.querySelector<HTMLInputElement>("#measure-ring-site")!;
+    const ringRadii = panel.querySelector<HTMLInputElement>("#measure-ring-radii")!;
+    const ringStatus = panel.querySelector<HTMLDivElement>("#measure-ring-status")!;
+
+    const unit = () => unitSelect.value as DistanceUnit;
+
+    const setMeasuring = (on: boolean) => {
+        measuring = on;
+        startButton.textContent = on ? "Stop" : "Measure";
+    };
+
+    const render = () => {
+        const segments = measureSegments(points.map(p => p.position));
+        host.onChange(points.length || rings ? { points, segments, rings, unit: unit() } : null);
+
+        if (points.length === 0) {
+            results.innerHTML = measuring ? `<i style="color:#555;">Click the map or a pin to start.</i>` : "";
+            return;
+        }
+        const total = segments.reduce((sum, s) => sum + s.km, 0);
+        results.innerHTML = `
+            <div>Start: <b>${escapeHtml(pointLabel(points[0]))}</b></div>
+            <ol style="margin:0; padding-left:18px;">
+                ${segments.map((s, i) => `
+                    <li>
+                        &rarr; <b>${escapeHtml(pointLabel(points[i + 1]))}</b>
+                        <div style="color:#555;">${formatDistances(s.km)} &middot; bearing ${formatBearing(s.bearing)}</div>
+                    </li>
+                `).join('')}
+            </ol>
+            ${segments.length > 1 ? `<div>Total: <b>${formatDistances(total)}</b></div>` : ""}
+        `;
+    };
+
+    const drawRings = () => {
+        const name = ringSite.value.trim();
+        const center = host.getPosition(name);
+        const radii = parseRadii(ringRadii.value);
+        if (!center || radii.length === 0) {
+            ringStatus.innerHTML = `<i style="color:#a00;">Choose a known site and at least one radius.</i>`;
+            return;
+        }
+        rings = { name, center, radiiKm: radii.map(r => convertDistance(r, unit(), "km")) };
+        ringStatus.innerHTML = `<span style="color:#555;">${radii.map(r => formatDistance(convertDistance(r, unit(), "km"), unit())).join(", ")} around ${escapeHtml(name)}</span>`;
+        render();
+    };
+
+    startButton.addEventListener("click", () => {
+        setMeasuring(!measuring);
+        render();
+    });
+    panel.querySelector("#measure-undo-btn")?.addEventListener("click", () => {
+        points = points.slice(0, -1);
+        render();
+    });
+    panel.querySelector("#measure-clear-btn")?.addEventListener("click", () => {
+        points = [];
+        setMeasuring(false);
+        render();
+    });
+    unitSelect.addEventListener("change", render);
+    panel.querySelector("#measure-ring-btn")?.addEventListener("click", drawRings);
+    panel.querySelector("#measure-ring-clear-btn")?.addEventListener("click", () => {
+        rings = null;
+        ringStatus.innerHTML = "";
+        render();
+    });
+
+    const toggle = panel.querySelector<HTMLButtonElement>("#measure-toggle")!;
+    toggle.addEventListener("click", () => {
+        panel.classList.toggle("minimized");
+        toggle.textContent = panel.classList.contains("minimized") ? "+" : "-";
+    });
+
+    return {
+        isMeasuring: () => measuring,
+        addPoint(position: [number, number], name?: string) {
+            if (!measuring) return;
+            points = [...points, { position, name }];
+            render();
+        },
+    };
+}
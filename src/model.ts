@@ -0,0 +1,45 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Shared data model for the network map: accessors for raw connection and
+ * point features. Kept free of DOM and deck.gl references so the same
+ * definitions can be used by the browser app and headless tooling.
+ */
+
+// ---------------------- Feature Accessors ----------------------
+
+/**
+ * Retrieve a property from an object, optionally checking nested 'properties'.
+ */
+export function getProp(d: any, key: string): any {
+    return d?.[key] ?? d?.properties?.[key];
+}
+
+/**
+ * Normalize and return the connection type for a feature.
+ * Converts types like "N_TYPE" to "N" and ensures the result is uppercase. */
+export function getConnType(d: any): string {
+    const t = getProp(d, "Connection_type") ?? getProp(d, "connection_type");
+    const up = String(t ?? "").trim().toUpperCase();
+    if (up === "N_TYPE") return "N";
+    return up; // "N" | "C" | "HF" | (others)
+}
+
+/**
+ * Get the IER property of a connection and return it as an uppercased string array.
+ */
+export function getIERArray(d: any): string[] {
+    const ierValue = getProp(d, "IER");
+    if (Array.isArray(ierValue)) {
+        return ierValue.map(item => String(item ?? '').toUpperCase());
+    }
+    return [];
+}
+
+/**
+ * Retrieve the name property from a feature.
+ */
+export function getPointName(d: any): string {
+    return getProp(d, "name") ?? "";
+}
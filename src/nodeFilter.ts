@@ -0,0 +1,45 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Node filter: a user-chosen set of sites whose links are either hidden ("exclude") or the
+ * only ones shown ("focus"). Sites are matched by name, so moving one doesn't break the filter.
+ */
+
+export type NodeFilterMode = "exclude" | "focus";
+
+export const NODE_FILTER_MODES: NodeFilterMode[] = ["exclude", "focus"];
+
+/** Sites chosen in the node filter and what to do with their links. */
+export interface NodeFilter {
+    mode: NodeFilterMode;
+    names: string[];
+}
+
+export const EMPTY_NODE_FILTER: NodeFilter = { mode: "exclude", names: [] };
+
+/**
+ * Return true if a value is a node filter mode.
+ */
+export function isNodeFilterMode(value: unknown): value is NodeFilterMode {
+    return (NODE_FILTER_MODES as unknown[]).includes(value);
+}
+
+/**
+ * Return true if a link between the given endpoint sites passes the filter. An aggregated
+ * arc passes the names at both of its ends. With no sites chosen every link passes.
+ */
+export function passesNodeFilter(filter: NodeFilter, endpoints: string[]): boolean {
+    if (filter.names.length === 0) return true;
+    const touches = endpoints.some(name => filter.names.includes(name));
+    return filter.mode === "focus" ? touches : !touches;
+}
+
+/**
+ * Add a site to the filter, or remove it if it is already chosen.
+ */
+export function toggleNode(filter: NodeFilter, name: string): NodeFilter {
+    return filter.names.includes(name)
+        ? { ...filter, names: filter.names.filter(n => n !== name) }
+        : { ...filter, names: [...filter.names, name] };
+}
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * "Focus / exclude" panel: choose sites by name or by clicking pins, then hide every link
+ * touching them or show only those links.
+ */
+
+import { escapeHtml } from './html';
+import { toggleNode } from './nodeFilter';
+import type { NodeFilter, NodeFilterMode } from './nodeFilter';
+
+/** What the node filter panel needs from the map. */
+export interface NodeFilterHost {
+    getPointNames(): string[];
+    getFilter(): NodeFilter;
+    setFilter(filter: NodeFilter): void;
+}
+
+export interface NodeFilterTool {
+    /** True while the user is picking sites on the map. */
+    isPicking(): boolean;
+    /** Add a clicked site to the filter, or remove it if it is already chosen. */
+    pickPoint(name: string): void;
+    /** Redraw after the filter changed elsewhere, e.g. when a saved view is restored. */
+    refresh(): void;
+}
+
+/**
+ * Adds the focus / exclude panel to a container.
+ * @returns Hooks for the map click handler and view restores.
+ */
+export function addNodeFilterPanel(container: HTMLElement, host: NodeFilterHost): NodeFilterTool {
+    let picking = false;
+
+    const panel = document.createElement("div");
+    panel.id = "node-filter-box";
+    panel.className = "legend-box minimized";
+    panel.style.cssText = `margin-top: 8px; width: 220px; font: 13px system-ui, sans-serif;`;
+    panel.innerHTML = `
+        <div class="legend-header"><h2 style="font-size:16px; margin:0;">Focus / Exclude</h2><button class="toggle-btn" id="node-filter-toggle">+</button></div>
+        <label>Links
+            <select id="node-filter-mode" style="flex:1;">
+                <option value="exclude">Hide links of these sites</option>
+                <option value="focus">Only links of these sites</option>
+            </select>
+        </label>
+        <datalist id="node-filter-names"></datalist>
+        <label>Site <input id="node-filter-name" list="node-filter-names" style="flex:1; min-width:0;"></label>
+        <div class="button-section">
+            <button id="node-filter-add-btn">Add</button>
+            <button id="node-filter-pick-btn" title="Click pins on the map to add or remove them">Pick on map</button>
+            <button id="node-filter-clear-btn">Clear</button>
+        </div>
+        <div id="node-filter-error" style="color:#a00;"></div>
+        <div id="node-filter-list" style="display:flex; flex-wrap:wrap; gap:4px;"></div>
+    `;
+    container.appendChild(panel);
+
+    const modeSelect = panel.querySelector<HTMLSelectElement>("#node-filter-mode")!;
+    const nameInput = panel.querySelector<HTMLInputElement>("#node-filter-name")!;
+    const pickButton = panel.querySelector<HTMLButtonElement>("#node-filter-pick-btn")!;
+    const datalist = panel.querySelector<HTMLDataListElement>("#node-filter-names")!;
+    const error = panel.querySelector<HTMLDivElement>("#node-filter-error")!;
+    const list = panel.querySelector<HTMLDivElement>("#node-filter-list")!;
+
+    const setPicking = (on: boolean) => {
+        picking = on;
+        pickButton.textContent = on ? "Stop picking" : "Pick on map";
+    };
+
+    const render = () => {
+        const filter = host.getFilter();
+        const known = new Set(host.getPointNames());
+        modeSelect.value = filter.mode;
+        datalist.innerHTML = Array.from(known).sort().map(n => `<option value="${escapeHtml(n)}"></option>`).join('');
+        list.innerHTML = filter.names.length === 0
+            ? `<i style="color:#555;">${picking ? "Click pins to add them." : "No sites chosen; all links are shown."}</i>`
+            : filter.names.map(name => `
+                <span style="display:inline-flex; align-items:center; gap:2px; padding:1px 6px; border:1px solid #ccc; border-radius:10px; ${known.has(name) ? "" : "color:#a00;"}"
+                    title="${known.has(name) ? "" : "Not on the map"}">
+                    ${escapeHtml(name)}
+                    <a href="#" class="node-filter-remove" data-name="${escapeHtml(name)}" title="Remove" style="text-decoration:none;">&times;</a>
+                </span>
+            `).join('');
+        list.querySelectorAll<HTMLAnchorElement>(".node-filter-remove").forEach(a => {
+            a.addEventListener("click", e => {
+                e.preventDefault();
+                update(toggleNode(host.getFilter(), a.dataset.name!));
+            });
+        });
+    };
+
+    const update = (filter: NodeFilter) => {
+        error.textContent = "";
+        host.setFilter(filter);
+        render();
+    };
+
+    const add = () => {
+        const name = nameInput.value.trim();
+        if (!name) return;
+        if (!host.getPointNames().includes(name)) {
+            error.textContent = `No site named "${name}".`;
+            return;
+        }
+        const filter = host.getFilter();
+        if (!filter.names.includes(name)) update({ ...filter, names: [...filter.names, name] });
+        nameInput.value = "";
+    };
+
+    modeSelect.addEventListener("change", () => {
+        update({ ...host.getFilter(), mode: modeSelect.value as NodeFilterMode });
+    });
+    panel.querySelector("#node-filter-add-btn")?.addEventListener("click", add);
+    nameInput.addEventListener("keydown", e => {
+        if (e.key === "Enter") add();
+    });
+    pickButton.addEventListener("click", () => {
+        setPicking(!picking);
+        render();
+    });
+    panel.querySelector("#node-filter-clear-btn")?.addEventListener("click", () => {
+        setPicking(false);
+        update({ ...host.getFilter(), names: [] });
+    });
+
+    const toggle = panel.querySelector<HTMLButtonElement>("#node-filter-toggle")!;
+    toggle.addEventListener("click", () => {
+        panel.classList.toggle("minimized");
+        toggle.textContent = panel.classList.contains("minimized") ? "+" : "-";
+    });
+
+    render();
+
+    return {
+        isPicking: () => picking,
+        pickPoint(name: string) {
+            if (!picking) return;
+            update(toggleNode(host.getFilter(), name));
+        },
+        refresh: render,
+    };
+}
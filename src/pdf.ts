@@ -0,0 +1,56 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Minimal PDF writer: one page showing one JPEG image, sized to the image.
+ * Enough for snapshots without pulling in a PDF library.
+ */
+
+/**
+ * Wrap JPEG bytes in a single-page PDF.
+ * @param jpeg - Baseline JPEG data (e.g. from `canvas.toBlob(..., "image/jpeg")`).
+ * @param width - Image width in pixels.
+ * @param height - Image height in pixels.
+ * @param dpi - Pixels per inch, which sets the page size; 96 keeps a 1x snapshot at screen size.
+ */
+export function jpegToPdf(jpeg: Uint8Array<ArrayBuffer>, width: number, height: number, dpi = 96): Blob {
+    const pageWidth = (width * 72) / dpi;
+    const pageHeight = (height * 72) / dpi;
+    const content = `q ${pageWidth.toFixed(2)} 0 0 ${pageHeight.toFixed(2)} 0 0 cm /Im0 Do Q`;
+
+    const encoder = new TextEncoder();
+    const parts: BlobPart[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const push = (part: string | Uint8Array<ArrayBuffer>) => {
+        const bytes = typeof part === "string" ? encoder.encode(part) : part;
+        parts.push(bytes);
+        length += bytes.length;
+    };
+    const object = (id: number, body: string | Uint8Array<ArrayBuffer>[]) => {
+        offsets[id] = length;
+        push(`${id} 0 obj\n`);
+        if (typeof body === "string") push(body); else body.forEach(push);
+        push(`\nendobj\n`);
+    };
+
+    push("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n");
+    object(1, "<< /Type /Catalog /Pages 2 0 R >>");
+    object(2, "<< /Type /Pages /Kids [3 0 R] /Count 1 >>");
+    object(3, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth.toFixed(2)} ${pageHeight.toFixed(2)}] ` +
+        `/Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`);
+    object(4, [
+        encoder.encode(`<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB ` +
+            `/BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`),
+        jpeg,
+        encoder.encode("\nendstream"),
+    ]);
+    object(5, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+
+    const xref = length;
+    push(`xref\n0 6\n0000000000 65535 f \n`);
+    for (let id = 1; id <= 5; id++) push(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+    push(`trailer\n<< /Size 6 /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+    return new Blob(parts, { type: "application/pdf" });
+}
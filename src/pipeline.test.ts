@@ -0,0 +1,312 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Tests for the data pipeline: edges, connection rules, overlap grouping, aggregation and filter predicates.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compileTaxonomy } from './taxonomy';
+import {
+    createContext, buildModel, buildEdges, processNode, clusterNodes, locationKey, labelOffsets,
+    aggregationKey, aggregateEdges, explainRules, flowSpeed, createPieIcon,
+    isEdgeVisible, isAggregatedEdgeVisible, isIerEdgeVisible, isClusterVisible, isNodeVisible,
+} from './pipeline';
+import type { RawPoint, RawConnection, SourceData, FilterState } from './pipeline';
+import type { Rule } from './rules';
+
+const taxonomy = compileTaxonomy({
+    version: 1,
+    defaultGroup: "BLUE",
+    defaultConnection: { color: [128, 128, 128, 200], height: 0.5 },
+    groups: [
+        { key: "RED", label: "Red", description: "Forward bases", color: [200, 0, 0, 220], members: { names: ["A", "FOB1"] } },
+        { key: "BLUE", label: "Blue", description: "Any point in no other group", color: [0, 120, 255, 220] },
+    ],
+    connectionTypes: [
+        { key: "N", label: "Blue", description: "Terrestrial network circuit", color: [0, 128, 200, 220] },
+        { key: "HF", label: "Pink", description: "High-frequency radio", color: [255, 105, 180, 220], flowSpeed: 0.5 },
+        { key: "TR", label: "Orange", description: "Tactical radio", color: [255, 165, 0, 220] },
+    ],
+    ierTypes: [{ key: "X", label: "X" }],
+});
+
+function point(name: string, lng: number, lat: number, properties: Record<string, unknown> = {}): RawPoint {
+    return { type: "Feature", properties: { name, ...properties }, geometry: { type: "Point", coordinates: [lng, lat] } };
+}
+
+function link(from: string, to: string, type = "N", extra: RawConnection = {}): RawConnection {
+    return { from, to, Connection_type: type, ...extra };
+}
+
+/** A and A2 share a location; B and C are elsewhere. */
+const data: SourceData = {
+    points: [point("A", -100, 40), point("A2", -100, 40), point("B", -80, 35), point("C", 10, 50)],
+    connections: [
+        link("A", "B"),
+        link("B", "A", "HF", { IER: ["x"], status: "down" }),
+        link("A2", "B", "N", { status: "up" }),
+        link("A", "C"),
+        link("A", "Nowhere"),
+    ],
+};
+
+const allFilters: FilterState = {
+    connTypes: new Set(["N", "HF", "TR"]),
+    pinGroups: new Set(["RED", "BLUE"]),
+    ierTypes: new Set(),
+    statuses: new Set(["up", "degraded", "down", "unknown"]),
+    nodeFilter: { mode: "exclude", names: [] },
+    site: null,
+};
+
+describe("createContext", () => {
+    it("indexes points by name and starts the time origin at the earliest time", () => {
+        const ctx = createContext({
+            points: [point("A", 0, 0, { start: "2024-06-01T12:00Z" })],
+            connections: [link("A", "A", "N", { start: "2024-06-01T10:00Z" })],
+        }, taxonomy);
+        expect(ctx.pointMap.get("A")?.properties?.name).toBe("A");
+        expect(ctx.timeOrigin).toBe(Date.parse("2024-06-01T10:00Z"));
+    });
+
+    it("uses 0 as the origin when nothing has a time", () => {
+        expect(createContext(data, taxonomy).timeOrigin).toBe(0);
+    });
+});
+
+describe("buildEdges", () => {
+    const ctx = createContext(data, taxonomy);
+
+    it("resolves endpoints and drops edges to unknown points", () => {
+        const edges = buildEdges(data.connections, ctx);
+        expect(edges.map(e => e._index)).toEqual([0, 1, 2, 3]);
+        expect(edges[0]._sourcePos).toEqual([-100, 40]);
+        expect(edges[0]._targetPos).toEqual([-80, 35]);
+        expect(edges[0]._sourcePinType).toBe("RED");
+        expect(edges[0]._targetPinType).toBe("BLUE");
+    });
+
+    it("caches type, IER, status and flow speed", () => {
+        const edge = buildEdges(data.connections, ctx)[1];
+        expect(edge._connType).toBe("HF");
+        expect(edge._ierTypes).toEqual(["X"]);
+        expect(edge._status).toBe("down");
+        expect(edge._flowSpeed).toBe(0.5);
+    });
+
+    it("processes only the given indices", () => {
+        expect(buildEdges(data.connections, ctx, [3, 4]).map(e => e._index)).toEqual([3]);
+    });
+
+    it("draws endpoints where positionOf puts them", () => {
+        const moved = { ...ctx, positionOf: (p: RawPoint) => p.properties?.name === "B" ? [1, 2] as [number, number] : undefined };
+        const edges = buildEdges(data.connections, moved, [0]);
+        expect(edges).toEqual([]);
+        expect(buildEdges([link("B", "B")], moved)[0]._sourcePos).toEqual([1, 2]);
+    });
+
+    it("does not mutate the source records", () => {
+        const before = JSON.stringify(data);
+        buildModel(data, ctx);
+        expect(JSON.stringify(data)).toBe(before);
+    });
+});
+
+describe("connection rules", () => {
+    const ctx = createContext(data, taxonomy);
+    const rules: Rule[] = [
+        { id: "no-c", when: { to: { name: "C" } }, action: "exclude" },
+        { id: "hf-red", when: { type: "HF" }, action: "restyle", style: { color: [255, 0, 0, 255] } },
+        { id: "down-label", when: { properties: { status: "down" } }, action: "relabel", label: "{from} to {to} is down" },
+    ];
+    const ruled = { ...ctx, rules };
+
+    it("drops excluded connections and records the rules on the rest", () => {
+        const edges = buildEdges(data.connections, ruled);
+        expect(edges.map(e => e._index)).toEqual([0, 1, 2]);
+        expect(edges[0]._rules).toEqual([]);
+        expect(edges[1]._rules.map(m => m.id)).toEqual(["hf-red", "down-label"]);
+        expect(edges[1]._style).toEqual({ color: [255, 0, 0, 255] });
+        expect(edges[1]._label).toBe("B to A is down");
+    });
+
+    it("keeps everything without rules", () => {
+        expect(buildEdges(data.connections, ctx).map(e => e._index)).toEqual([0, 1, 2, 3]);
+    });
+
+    it("explains every affected connection, excluded ones included", () => {
+        expect(explainRules(data.connections, ruled)).toEqual([
+            { index: 1, from: "B", to: "A", type: "HF", included: true, matched: [{ id: "hf-red", action: "restyle" }, { id: "down-label", action: "relabel" }] },
+            { index: 3, from: "A", to: "C", type: "N", included: false, matched: [{ id: "no-c", action: "exclude" }] },
+        ]);
+    });
+});
+
+describe("flowSpeed", () => {
+    it("uses the type speed without a usable rate", () => {
+        expect(flowSpeed(undefined, 2)).toBe(2);
+        expect(flowSpeed("", 2)).toBe(2);
+        expect(flowSpeed(-5, 2)).toBe(2);
+        expect(flowSpeed("fast", 2)).toBe(2);
+    });
+
+    it("puts rates on a log scale", () => {
+        expect(flowSpeed(0, 2)).toBe(0.5);
+        expect(flowSpeed(9, 2)).toBeCloseTo(1);
+        expect(flowSpeed("99", 2)).toBeCloseTo(1.5);
+    });
+});
+
+describe("overlap grouping", () => {
+    const ctx = createContext(data, taxonomy);
+    const nodes = data.points.map(p => processNode(p, ctx));
+
+    it("groups pins at the same coordinates into one cluster", () => {
+        const clusters = clusterNodes(nodes, ctx);
+        expect(clusters.map(c => c.count)).toEqual([2, 1, 1]);
+        expect(clusters[0].originalPins.map(p => p.properties?.name)).toEqual(["A", "A2"]);
+        expect(clusters[0].pinTypes).toEqual(["RED", "BLUE"]);
+        expect(clusters[0]._locationKey).toBe("-100,40");
+    });
+
+    it("spreads the labels of overlapping pins and leaves single pins alone", () => {
+        const [shared, single] = clusterNodes(nodes, ctx);
+        expect(shared.originalPins.map(p => p._labelOffset)).toEqual(labelOffsets(2));
+        expect(single.originalPins[0]._labelOffset).toBeUndefined();
+    });
+
+    it("gives moving assets a marker of their own", () => {
+        const clusters = clusterNodes(nodes, { ...ctx, movingNames: new Set(["A2"]) });
+        expect(clusters.map(c => c._locationKey)).toEqual(["-100,40", "track:A2", "-80,35", "10,50"]);
+        expect(locationKey(nodes[1], new Set(["A2"]))).toBe("track:A2");
+    });
+
+    it("draws the first loaded icon asset over the pie", () => {
+        const withIcons = [point("P", 0, 0), point("Q", 0, 0, { icon: "boat" }), point("R", 0, 0, { icon: "truck" })].map(p => processNode(p, ctx));
+        const loaded = (kind: string | null) => kind === "truck" ? "truck.svg" : null;
+        const [cluster] = clusterNodes(withIcons, { ...ctx, iconAsset: loaded });
+        expect(cluster.iconKind).toBe("truck");
+        expect(cluster.assetUrl).toBe("truck.svg");
+        expect(clusterNodes(withIcons, ctx)[0].iconKind).toBeNull();
+    });
+
+    it("shows the marker while any of its pins exists", () => {
+        const timed = [
+            point("P", 0, 0, { start: "2024-01-01T00:00Z", end: "2024-01-02T00:00Z" }),
+            point("Q", 0, 0, { start: "2024-01-03T00:00Z" }),
+        ];
+        const timedCtx = createContext({ points: timed, connections: [] }, taxonomy);
+        const [cluster] = clusterNodes(timed.map(p => processNode(p, timedCtx)), timedCtx);
+        expect(cluster._span).toEqual({ start: Date.parse("2024-01-01T00:00Z"), end: Infinity });
+        expect(cluster._t0).toBe(0);
+    });
+
+    it("spreads labels clockwise from the top", () => {
+        const [first, second] = labelOffsets(2, 10);
+        expect(first[0]).toBeCloseTo(10);
+        expect(first[1]).toBeCloseTo(0);
+        expect(second[0]).toBeCloseTo(-10);
+        expect(second[1]).toBeCloseTo(0);
+    });
+
+    it("makes a circle for one colour and slices for several", () => {
+        expect(createPieIcon([])).toBe("");
+        expect(decodeURIComponent(createPieIcon([[255, 0, 0, 255]]))).toContain("<circle");
+        expect(decodeURIComponent(createPieIcon([[255, 0, 0, 255], [0, 0, 255, 255]])).match(/<path/g)).toHaveLength(2);
+    });
+});
+
+describe("aggregation", () => {
+    const model = buildModel(data, createContext(data, taxonomy));
+
+    it("keys a location pair the same way in both directions", () => {
+        expect(aggregationKey([1, 2], [3, 4])).toBe(aggregationKey([3, 4], [1, 2]));
+        expect(aggregationKey([1, 2], [3, 4])).not.toBe(aggregationKey([1, 2], [3, 5]));
+    });
+
+    it("merges edges between the same locations, whichever way and between whichever co-located sites", () => {
+        const [ab, ac] = model.aggregatedEdges;
+        expect(model.aggregatedEdges).toHaveLength(2);
+        expect(ab._count).toBe(3);
+        expect(ab._connTypes).toEqual(["N", "HF"]);
+        expect(ab._ierTypes).toEqual(["X"]);
+        expect(ab._endpoints.sort()).toEqual(["A", "A2", "B"]);
+        expect(ab._bidirectional).toBe(true);
+        expect(ab._flowSpeed).toBe(1);
+        expect(ac._count).toBe(1);
+        expect(ac._bidirectional).toBe(false);
+    });
+
+    it("rolls the statuses up to the worst one", () => {
+        const [ab, ac] = model.aggregatedEdges;
+        expect(ab._statuses.sort()).toEqual(["down", "unknown", "up"]);
+        expect(ab._status).toBe("down");
+        expect(ac._status).toBe("unknown");
+    });
+
+    it("aggregates only the edges it is given", () => {
+        expect(aggregateEdges(model.edges.slice(0, 1))[0]._count).toBe(1);
+        expect(aggregateEdges([])).toEqual([]);
+    });
+});
+
+describe("filter predicates", () => {
+    const model = buildModel(data, createContext(data, taxonomy));
+    const [ab, ba] = model.edges;
+    const [aggregatedAB] = model.aggregatedEdges;
+    const filters = (changes: Partial<FilterState>): FilterState => ({ ...allFilters, ...changes });
+
+    it("shows everything with every filter open", () => {
+        expect(model.edges.every(e => isEdgeVisible(e, allFilters))).toBe(true);
+        expect(model.aggregatedEdges.every(e => isAggregatedEdgeVisible(e, allFilters))).toBe(true);
+        expect(model.clusters.every(c => isClusterVisible(c, allFilters))).toBe(true);
+    });
+
+    it("filters edges by connection type, status and IER", () => {
+        expect(isEdgeVisible(ab, filters({ connTypes: new Set(["HF"]) }))).toBe(false);
+        expect(isEdgeVisible(ba, filters({ statuses: new Set(["up"]) }))).toBe(false);
+        expect(isEdgeVisible(ab, filters({ ierTypes: new Set(["X"]) }))).toBe(false);
+        expect(isEdgeVisible(ba, filters({ ierTypes: new Set(["X"]) }))).toBe(true);
+    });
+
+    it("needs the pin groups at both ends", () => {
+        expect(isEdgeVisible(ab, filters({ pinGroups: new Set(["RED"]) }))).toBe(false);
+    });
+
+    it("applies the detail panel's site filter", () => {
+        expect(isEdgeVisible(ab, filters({ site: "B" }))).toBe(true);
+        expect(isEdgeVisible(ab, filters({ site: "C" }))).toBe(false);
+    });
+
+    it("hides links of excluded sites or shows only those of focused ones", () => {
+        expect(isEdgeVisible(ab, filters({ nodeFilter: { mode: "exclude", names: ["B"] } }))).toBe(false);
+        expect(isEdgeVisible(ab, filters({ nodeFilter: { mode: "focus", names: ["B"] } }))).toBe(true);
+        expect(isEdgeVisible(model.edges[3], filters({ nodeFilter: { mode: "focus", names: ["B"] } }))).toBe(false);
+    });
+
+    it("matches any co-located site on an aggregated arc", () => {
+        expect(isAggregatedEdgeVisible(aggregatedAB, filters({ nodeFilter: { mode: "exclude", names: ["A2"] } }))).toBe(false);
+        expect(isAggregatedEdgeVisible(aggregatedAB, filters({ nodeFilter: { mode: "focus", names: ["A2"] } }))).toBe(true);
+    });
+
+    it("shows an aggregated arc while any of its types and statuses is active", () => {
+        expect(isAggregatedEdgeVisible(aggregatedAB, filters({ connTypes: new Set(["HF"]) }))).toBe(true);
+        expect(isAggregatedEdgeVisible(aggregatedAB, filters({ connTypes: new Set(["TR"]) }))).toBe(false);
+        expect(isAggregatedEdgeVisible(aggregatedAB, filters({ statuses: new Set(["degraded"]) }))).toBe(false);
+    });
+
+    it("ignores connection types in the IER view", () => {
+        const ierOnly = filters({ connTypes: new Set(), ierTypes: new Set(["X"]) });
+        expect(isIerEdgeVisible(ba, ierOnly)).toBe(true);
+        expect(isIerEdgeVisible(ab, ierOnly)).toBe(false);
+    });
+
+    it("shows a cluster while any of its groups is active, and a pin by its own group", () => {
+        const [shared] = model.clusters;
+        const blueOnly = filters({ pinGroups: new Set(["BLUE"]) });
+        expect(isClusterVisible(shared, blueOnly)).toBe(true);
+        expect(isNodeVisible(shared.originalPins[0], blueOnly)).toBe(false);
+        expect(isNodeVisible(shared.originalPins[1], blueOnly)).toBe(true);
+    });
+});
@@ -0,0 +1,559 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Data pipeline: raw points and connections in, the typed model the map draws out.
+ * - Nodes: points with their pin group, icon kind and time span cached on them.
+ * - Edges: connections with resolved endpoints, positions, types, status and flow speed, minus
+ *   those the connection rules exclude.
+ * - Pin clusters: the pins drawn at one location, with a pie icon and spread-out labels.
+ * - Aggregated edges: the edges between each pair of locations, drawn as one arc.
+ * Plus the filter predicates the layers and exports share.
+ *
+ * Pure module: no DOM, fetch or deck.gl references. Records are copied, never mutated.
+ */
+
+import { getProp, getConnType, getIERArray, getPointName } from './model';
+import { getGroup, getGroupColor, getConnectionStyle } from './taxonomy';
+import type { Taxonomy, PointType, RGBA } from './taxonomy';
+import { getTimeSpan, unionSpan, timeExtent, encodeTime } from './timeline';
+import type { TimeSpan } from './timeline';
+import { getLinkStatus, combineLinkStatuses } from './linkStatus';
+import type { LinkStatus } from './linkStatus';
+import { passesNodeFilter } from './nodeFilter';
+import type { NodeFilter } from './nodeFilter';
+import { resolveIconKind } from './icons';
+import { evaluateRules } from './rules';
+import type { Rule, RuleMatch, RuleOutcome, RuleStyle } from './rules';
+
+// ---------------------- Types ----------------------
+
+/** A point as read from points.json (or added by the editor or a live feed). */
+export type RawPoint = GeoJSON.Feature<GeoJSON.Point, { [key: string]: any } | null>;
+
+/** A connection as read from connections.json. */
+export type RawConnection = { [key: string]: any };
+
+/** The records the model is derived from. */
+export interface SourceData {
+    points: RawPoint[];
+    connections: RawConnection[];
+}
+
+/** A point, with what the layers and filters read cached on it. */
+export type Node = RawPoint & {
+    _pinType: PointType;
+    /** Registered icon kind, or null for a plain pin. */
+    _iconKind: string | null;
+    _span: TimeSpan;
+    _t0: number;
+    _t1: number;
+    /** Label offset in pixels, for a pin sharing its marker with others. */
+    _labelOffset?: [number, number];
+    /** Direction a moving asset is heading, in degrees clockwise from north. */
+    _heading?: number | null;
+};
+
+/** A connection with its endpoints looked up; see `Edge` for one with both resolved. */
+export type ProcessedEdge = RawConnection & {
+    /** Position in the source connections, for edits. */
+    _index: number;
+    from: RawPoint | undefined;
+    to: RawPoint | undefined;
+    /** Undefined when the endpoint is unknown. */
+    _sourcePos: [number, number] | undefined;
+    _targetPos: [number, number] | undefined;
+    _connType: string;
+    _ierTypes: string[];
+    _sourcePinType: PointType;
+    _targetPinType: PointType;
+    _span: TimeSpan;
+    _t0: number;
+    _t1: number;
+    _flowSpeed: number;
+    _status: LinkStatus;
+    /** False when a connection rule excludes it. */
+    _included: boolean;
+    /** Connection rules that affected it, in evaluation order. */
+    _rules: RuleMatch[];
+    /** Overrides of the type's style, from restyle rules. */
+    _style?: RuleStyle;
+    /** Label text from a relabel rule. */
+    _label?: string;
+};
+
+/** A connection with both endpoints resolved; the model only holds these. */
+export type Edge = ProcessedEdge & {
+    _sourcePos: [number, number];
+    _targetPos: [number, number];
+};
+
+/** The edges between one pair of locations, drawn as one arc. */
+export interface AggregatedEdge {
+    /** Endpoints of the first edge in the group. */
+    from: RawPoint | undefined;
+    to: RawPoint | undefined;
+    _sourcePos: [number, number];
+    _targetPos: [number, number];
+    _connTypes: string[];
+    _ierTypes: string[];
+    _count: number;
+    _sourcePinType: PointType;
+    _targetPinType: PointType;
+    /** Names of the sites at either end; co-located sites can share an arc. */
+    _endpoints: string[];
+    /** True once an edge runs the other way. */
+    _bidirectional: boolean;
+    _flowSpeed: number;
+    _statuses: LinkStatus[];
+    /** Worst of `_statuses`, for the status-aware style. */
+    _status: LinkStatus;
+}
+
+/** The pins at one location, drawn as one marker. Carries the first pin's fields. */
+export type PinCluster = Node & {
+    count: number;
+    pinTypes: PointType[];
+    originalPins: Node[];
+    /** Pie of the pins' group colours, as a data URL. */
+    iconUrl: string;
+    /** Kind of the first pin with a loaded icon asset, drawn over the pie. */
+    iconKind: string | null;
+    assetUrl: string | null;
+    _locationKey: string;
+};
+
+/** Everything derived from the source data. */
+export interface Model {
+    nodes: Node[];
+    /** Edges with both endpoints resolved, in source order. */
+    edges: Edge[];
+    clusters: PinCluster[];
+    /** Aggregation of all edges; re-run `aggregateEdges` for a subset, e.g. a time window. */
+    aggregatedEdges: AggregatedEdge[];
+}
+
+/** What deriving the model depends on besides the records themselves. */
+export interface PipelineContext {
+    taxonomy: Taxonomy;
+    /** Points by name; connections resolve their endpoints here. */
+    pointMap: Map<string, RawPoint>;
+    /** Epoch milliseconds times are encoded relative to; see `encodeTime`. */
+    timeOrigin: number;
+    /** Names of moving assets; each gets a marker of its own. */
+    movingNames?: ReadonlySet<string>;
+    /** Position a point is drawn at; defaults to its coordinates. */
+    positionOf?(point: RawPoint): [number, number] | undefined;
+    /** URL of a loaded icon image for a kind, or null; defaults to none loaded. */
+    iconAsset?(kind: string | null): string | null;
+    /** Connection rules, in evaluation order; defaults to none. */
+    rules?: Rule[];
+}
+
+/** A connection some rule affected, for the rules debug view. */
+export interface RuleLogEntry {
+    /** Position in the source connections. */
+    index: number;
+    from: string;
+    to: string;
+    type: string;
+    included: boolean;
+    matched: RuleMatch[];
+}
+
+/** Label distance from the centre of a shared marker, in pixels. */
+const LABEL_OFFSET_RADIUS = 45;
+const PIE_ICON_RADIUS = 12;
+
+// ---------------------- Context ----------------------
+
+/**
+ * Index the points by name and pick the time origin: the earliest time in the data, so times
+ * keep minute precision as GPU filter values.
+ */
+export function createContext(data: SourceData, taxonomy: Taxonomy, options: Partial<PipelineContext> = {}): PipelineContext {
+    const pointMap = new Map<string, RawPoint>();
+    data.points.forEach(p => {
+        const name = getPointName(p);
+        if (name) pointMap.set(name, p);
+    });
+    const timeOrigin = timeExtent([...data.connections, ...data.points].map(getTimeSpan))?.min ?? 0;
+    return { taxonomy, pointMap, timeOrigin, ...options };
+}
+
+/**
+ * Coordinates of a point feature, or undefined for other geometries.
+ */
+function coordinatesOf(point: RawPoint | undefined): [number, number] | undefined {
+    return point?.geometry?.type === "Point" ? point.geometry.coordinates as [number, number] : undefined;
+}
+
+/**
+ * Return true if both endpoints of an edge were resolved.
+ */
+export function isResolved(e: ProcessedEdge): e is Edge {
+    return !!e._sourcePos && !!e._targetPos;
+}
+
+// ---------------------- Edges ----------------------
+
+/**
+ * Run the context's connection rules over a connection. Endpoints are tested at their source
+ * coordinates, so a moving asset's links don't come and go as it moves.
+ */
+export function ruleOutcome(c: RawConnection, ctx: PipelineContext): RuleOutcome {
+    if (!ctx.rules?.length) return { included: true, matched: [] };
+    return evaluateRules(ctx.rules, c, {
+        from: ctx.pointMap.get(getProp(c, "from")),
+        to: ctx.pointMap.get(getProp(c, "to")),
+        groupOf: point => getGroup(ctx.taxonomy, point),
+    });
+}
+
+/**
+ * Speed for a connection, in dash spacings per second (negative runs target → source).
+ * A numeric `rate` (any unit, e.g. Mbps) sets it on a log scale, so rates spanning several
+ * orders of magnitude stay watchable; otherwise the connection type's speed is used.
+ */
+export function flowSpeed(rate: unknown, typeSpeed: number): number {
+    const value = Number(rate);
+    if (rate === undefined || rate === null || rate === "" || !Number.isFinite(value) || value < 0) return typeSpeed;
+    return 0.5 + 0.5 * Math.log10(1 + value);
+}
+
+/**
+ * Resolve a connection's endpoints, apply the connection rules and pre-calculate what the
+ * layers and filters read. Unresolved endpoints leave `_sourcePos`/`_targetPos` undefined.
+ * @param index - Position of the connection in the source data.
+ */
+export function processEdge(c: RawConnection, index: number, ctx: PipelineContext): ProcessedEdge {
+    const fromPoint = ctx.pointMap.get(getProp(c, "from"));
+    const toPoint = ctx.pointMap.get(getProp(c, "to"));
+    const position = ctx.positionOf ?? coordinatesOf;
+    const connType = getConnType(c);
+    const span = getTimeSpan(c);
+    const outcome = ruleOutcome(c, ctx);
+
+    return {
+        ...c,
+        _index: index,
+        from: fromPoint,
+        to: toPoint,
+        _sourcePos: fromPoint && position(fromPoint),
+        _targetPos: toPoint && position(toPoint),
+        _connType: connType,
+        _ierTypes: getIERArray(c),
+        _sourcePinType: fromPoint ? getGroup(ctx.taxonomy, fromPoint) : ctx.taxonomy.defaultGroup,
+        _targetPinType: toPoint ? getGroup(ctx.taxonomy, toPoint) : ctx.taxonomy.defaultGroup,
+        _span: span,
+        _t0: encodeTime(span.start, ctx.timeOrigin),
+        _t1: encodeTime(span.end, ctx.timeOrigin),
+        _flowSpeed: flowSpeed(getProp(c, "rate"), getConnectionStyle(ctx.taxonomy, connType).flowSpeed),
+        _status: getLinkStatus(c),
+        _included: outcome.included,
+        _rules: outcome.matched,
+        _style: outcome.style,
+        _label: outcome.label,
+    };
+}
+
+/**
+ * Process the source connections at the given indices (all of them by default): drop those
+ * a rule excludes and those with an unknown endpoint.
+ */
+export function buildEdges(connections: RawConnection[], ctx: PipelineContext, indices?: Iterable<number>): Edge[] {
+    const list = indices ? Array.from(indices) : connections.map((_, i) => i);
+    return list
+        .map(i => processEdge(connections[i], i, ctx))
+        .filter((e): e is Edge => e._included && isResolved(e));
+}
+
+/**
+ * List the connections any rule affected, excluded ones included, in source order.
+ */
+export function explainRules(connections: RawConnection[], ctx: PipelineContext): RuleLogEntry[] {
+    return connections.flatMap((c, index) => {
+        const { included, matched } = ruleOutcome(c, ctx);
+        return matched.length === 0 ? [] : [{
+            index,
+            from: String(getProp(c, "from")),
+            to: String(getProp(c, "to")),
+            type: getConnType(c),
+            included,
+            matched,
+        }];
+    });
+}
+
+// ---------------------- Nodes and Clusters ----------------------
+
+/**
+ * Copy a point with its pin group, icon kind and time span cached on it.
+ */
+export function processNode(p: RawPoint, ctx: PipelineContext): Node {
+    const { _labelOffset, ...point } = p as Partial<Node>; // Set per cluster; a moved pin may no longer overlap.
+    const span = getTimeSpan(p);
+    return {
+        ...point as RawPoint,
+        _pinType: getGroup(ctx.taxonomy, p),
+        _iconKind: resolveIconKind(p),
+        _span: span,
+        _t0: encodeTime(span.start, ctx.timeOrigin),
+        _t1: encodeTime(span.end, ctx.timeOrigin),
+    };
+}
+
+/**
+ * Key of the location a pin is drawn at; pins at the same location share one marker.
+ * A moving asset always has a marker of its own.
+ */
+export function locationKey(p: RawPoint, movingNames: ReadonlySet<string> = new Set()): string {
+    const name = getPointName(p);
+    return movingNames.has(name) ? `track:${name}` : (coordinatesOf(p) ?? []).join(',');
+}
+
+/**
+ * Generates an SVG data URL for a pie chart icon.
+ * @param colors - An array of RGBA color arrays for the pie slices.
+ * @returns A string containing the data URL for the SVG icon.
+ */
+export function createPieIcon(colors: RGBA[]): string {
+    const radius = PIE_ICON_RADIUS;
+    const diameter = radius * 2;
+    const numSlices = colors.length;
+
+    if (numSlices === 0) return '';
+    if (numSlices === 1) {
+        const [r, g, b, a] = colors[0];
+        return `data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' width='${diameter}' height='${diameter}' viewBox='0 0 ${diameter} ${diameter}'%3E%3Ccircle cx='${radius}' cy='${radius}' r='${radius}' fill='rgba(${r},${g},${b},${a/255})' stroke='black' stroke-width='1' /%3E%3C/svg%3E`;
+    }
+
+    const sliceAngle = 360 / numSlices;
+    let svg = `<svg xmlns='http://www.w3.org/2000/svg' width='${diameter}' height='${diameter}' viewBox='0 0 ${diameter} ${diameter}'>`;
+
+    let startAngle = -90;
+    for (let i = 0; i < numSlices; i++) {
+        const endAngle = startAngle + sliceAngle;
+        const [r, g, b, a] = colors[i];
+        const x1 = radius + radius * Math.cos(Math.PI * startAngle / 180);
+        const y1 = radius + radius * Math.sin(Math.PI * startAngle / 180);
+        const x2 = radius + radius * Math.cos(Math.PI * endAngle / 180);
+        const y2 = radius + radius * Math.sin(Math.PI * endAngle / 180);
+        const largeArcFlag = sliceAngle > 180 ? 1 : 0;
+        svg += `<path d='M${radius},${radius} L${x1},${y1} A${radius},${radius} 0 ${largeArcFlag},1 ${x2},${y2} Z' fill='rgba(${r},${g},${b},${a/255})' stroke='black' stroke-width='1' />`;
+        startAngle = endAngle;
+    }
+
+    svg += `</svg>`;
+    return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
+
+/**
+ * Pixel offsets spreading the labels of `count` pins sharing a marker around it, one in the
+ * middle of each pie slice, starting at the top and going clockwise.
+ */
+export function labelOffsets(count: number, radius = LABEL_OFFSET_RADIUS): [number, number][] {
+    const sliceAngle = 360 / count;
+    return Array.from({ length: count }, (_, i) => {
+        const midAngleRad = (-90 + i * sliceAngle + sliceAngle / 2) * (Math.PI / 180);
+        return [radius * Math.cos(midAngleRad), radius * Math.sin(midAngleRad)];
+    });
+}
+
+/**
+ * Build the marker for the pins at one location: a pie of their group colours (with the first
+ * loadable icon asset over it), and labels spread around it when there are several pins.
+ */
+export function buildCluster(pins: Node[], ctx: PipelineContext): PinCluster {
+    const iconAsset = ctx.iconAsset ?? (() => null);
+    const offsets = pins.length > 1 ? labelOffsets(pins.length) : [];
+    const originalPins = pins.map((p, i) => {
+        const { _labelOffset, ...pin } = p;
+        return offsets[i] ? { ...pin, _labelOffset: offsets[i] } : pin;
+    });
+    const iconKind = pins.map(p => p._iconKind).find(kind => iconAsset(kind)) ?? null;
+    // The marker is shown while any of its pins exists.
+    const span = unionSpan(pins.map(p => p._span));
+
+    return {
+        ...originalPins[0], // First pin gives the position and base properties
+        count: pins.length,
+        pinTypes: pins.map(p => p._pinType),
+        originalPins,
+        iconUrl: createPieIcon(pins.map(p => getGroupColor(ctx.taxonomy, p._pinType))),
+        iconKind,
+        assetUrl: iconAsset(iconKind),
+        _locationKey: locationKey(pins[0], ctx.movingNames),
+        _span: span,
+        _t0: encodeTime(span.start, ctx.timeOrigin),
+        _t1: encodeTime(span.end, ctx.timeOrigin),
+    };
+}
+
+/**
+ * Group pins by location into clusters, in order of each location's first pin.
+ */
+export function clusterNodes(nodes: Node[], ctx: PipelineContext): PinCluster[] {
+    const byLocation = new Map<string, Node[]>();
+    nodes.forEach(p => {
+        const key = locationKey(p, ctx.movingNames);
+        if (!byLocation.has(key)) byLocation.set(key, []);
+        byLocation.get(key)!.push(p);
+    });
+    return Array.from(byLocation.values()).map(pins => buildCluster(pins, ctx));
+}
+
+// ---------------------- Aggregation ----------------------
+
+/**
+ * Key shared by every edge between the same two positions, whichever way it runs.
+ */
+export function aggregationKey(source: [number, number], target: [number, number]): string {
+    return [source.join(','), target.join(',')].sort().join('|');
+}
+
+/**
+ * Aggregate edges by location pair, for the aggregated view and its labels.
+ */
+export function aggregateEdges(edges: Edge[]): AggregatedEdge[] {
+    const groups = new Map<string, Omit<AggregatedEdge, "_connTypes" | "_ierTypes" | "_endpoints" | "_statuses" | "_status"> & {
+        _connTypes: Set<string>;
+        _ierTypes: Set<string>;
+        _endpoints: Set<string>;
+        _statuses: Set<LinkStatus>;
+    }>();
+
+    edges.forEach(edge => {
+        const source = edge._sourcePos;
+        const target = edge._targetPos;
+        const key = aggregationKey(source, target);
+        if (!groups.has(key)) {
+            groups.set(key, {
+                from: edge.from,
+                to: edge.to,
+                _sourcePos: source,
+                _targetPos: target,
+                _connTypes: new Set(),
+                _ierTypes: new Set(),
+                _count: 0,
+                _sourcePinType: edge._sourcePinType,
+                _targetPinType: edge._targetPinType,
+                _endpoints: new Set(),
+                _bidirectional: false,
+                _flowSpeed: 0,
+                _statuses: new Set(),
+            });
+        }
+        const group = groups.get(key)!;
+        group._connTypes.add(edge._connType);
+        edge._ierTypes.forEach(ier => group._ierTypes.add(ier));
+        group._count++;
+        group._endpoints.add(getPointName(edge.from)).add(getPointName(edge.to));
+        group._bidirectional = group._bidirectional || source.join(',') !== group._sourcePos.join(',');
+        group._flowSpeed = Math.max(group._flowSpeed, edge._flowSpeed);
+        group._statuses.add(edge._status);
+    });
+
+    return Array.from(groups.values()).map(group => ({
+        ...group,
+        _connTypes: Array.from(group._connTypes),
+        _ierTypes: Array.from(group._ierTypes),
+        _endpoints: Array.from(group._endpoints),
+        _statuses: Array.from(group._statuses),
+        _status: combineLinkStatuses(Array.from(group._statuses)),
+    }));
+}
+
+// ---------------------- Model ----------------------
+
+/**
+ * Derive the whole model from the source data.
+ */
+export function buildModel(data: SourceData, ctx: PipelineContext): Model {
+    const edges = buildEdges(data.connections, ctx);
+    const clusters = clusterNodes(data.points.map(p => processNode(p, ctx)), ctx);
+    return {
+        // Pins as clustered, i.e. with their label offsets.
+        nodes: clusters.flatMap(c => c.originalPins),
+        edges,
+        clusters,
+        aggregatedEdges: aggregateEdges(edges),
+    };
+}
+
+// ---------------------- Filter Predicates ----------------------
+
+/** What the filter controls currently let through. */
+export interface FilterState {
+    connTypes: ReadonlySet<string>;
+    pinGroups: ReadonlySet<PointType>;
+    /** Active IER types; with none active the IER filter is off. */
+    ierTypes: ReadonlySet<string>;
+    statuses: ReadonlySet<LinkStatus>;
+    nodeFilter: NodeFilter;
+    /** Site chosen with "Only this site's links" in the detail panel, or null. */
+    site: string | null;
+}
+
+/**
+ * Return true if an edge or aggregated edge passes the site and focus / exclude filters.
+ */
+function passesSiteFilters(d: Edge | AggregatedEdge, filters: FilterState): boolean {
+    const from = getPointName(d.from);
+    const to = getPointName(d.to);
+    const endpoints = "_endpoints" in d ? d._endpoints : [from, to];
+    return (!filters.site || from === filters.site || to === filters.site) && passesNodeFilter(filters.nodeFilter, endpoints);
+}
+
+/**
+ * Return true if the pin groups at both ends of a link are shown.
+ */
+function endsVisible(d: Edge | AggregatedEdge, filters: FilterState): boolean {
+    return filters.pinGroups.has(d._sourcePinType) && filters.pinGroups.has(d._targetPinType);
+}
+
+/**
+ * An edge is visible if:
+ * 1. Its connection type is active.
+ * 2. It passes the site and focus / exclude filters.
+ * 3. The pin groups of BOTH its endpoints are active.
+ * 4. With IER filters on, one of its IER types is active.
+ * 5. Its status is active.
+ */
+export function isEdgeVisible(d: Edge, filters: FilterState): boolean {
+    const ierVisible = filters.ierTypes.size === 0 || d._ierTypes.some(ier => filters.ierTypes.has(ier));
+    return filters.connTypes.has(d._connType) && passesSiteFilters(d, filters) && endsVisible(d, filters) &&
+        ierVisible && filters.statuses.has(d._status);
+}
+
+/**
+ * An aggregated edge is visible if *any* of its connection types (and statuses) are active.
+ */
+export function isAggregatedEdgeVisible(d: AggregatedEdge, filters: FilterState): boolean {
+    const ierVisible = filters.ierTypes.size === 0 || d._ierTypes.some(ier => filters.ierTypes.has(ier));
+    return d._connTypes.some(type => filters.connTypes.has(type)) && passesSiteFilters(d, filters) &&
+        endsVisible(d, filters) && ierVisible && d._statuses.some(status => filters.statuses.has(status));
+}
+
+/**
+ * In the IER view an edge is visible if at least one of its IER types is active, regardless of
+ * its connection type.
+ */
+export function isIerEdgeVisible(d: Edge, filters: FilterState): boolean {
+    return d._ierTypes.some(ier => filters.ierTypes.has(ier)) && passesSiteFilters(d, filters) &&
+        endsVisible(d, filters) && filters.statuses.has(d._status);
+}
+
+/**
+ * A pin cluster is visible if any of its pins' groups is active.
+ */
+export function isClusterVisible(d: PinCluster, filters: FilterState): boolean {
+    return d.pinTypes.some(type => filters.pinGroups.has(type));
+}
+
+/**
+ * A single pin is visible if its group is active.
+ */
+export function isNodeVisible(d: Node, filters: FilterState): boolean {
+    return filters.pinGroups.has(d._pinType);
+}
@@ -0,0 +1,220 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * "Resilience" tool: single points of failure in the connection graph.
+ * - Articulation points (sites) and bridges (links) per connection type or across all types.
+ * - Failure simulation: click pins to fail them and see which sites lose their path to an anchor.
+ */
+
+import { escapeHtml } from './html';
+import { buildGraph, findCutPoints, reachableFrom } from './graph';
+import type { PathHop } from './graph';
+
+/** What the map should show for the current analysis. */
+export interface ResilienceView {
+    articulationPoints: Set<string>;
+    bridges: PathHop[];
+    anchor: string;
+    /** Sites the user has failed. */
+    failed: Set<string>;
+    /** Sites that reached the anchor before the failures and no longer do. */
+    affected: Set<string>;
+}
+
+/** What the resilience tool needs from the map. */
+export interface ResilienceHost {
+    getConnections(): any[];
+    connectionTypes: { key: string; label: string }[];
+    /** Label of the pin group a site belongs to. */
+    getGroupLabel(name: string): string;
+    /** Called with the analysis to draw, or null to clear it. */
+    onChange(view: ResilienceView | null): void;
+}
+
+export interface ResilienceTool {
+    /** True while clicks on pins fail sites. */
+    isSimulating(): boolean;
+    /** Fail a site, or restore it if it has already failed. */
+    toggleFailure(name: string): void;
+}
+
+/** Anchor selected until the user picks another. */
+const DEFAULT_ANCHOR = "PENT";
+const ALL_TYPES = "";
+const MAX_LISTED_SITES = 100;
+
+/**
+ * Return how many times each value occurs, most frequent first.
+ */
+function countBy(values: string[]): [string, number][] {
+    const counts = new Map<string, number>();
+    values.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+/**
+ * Adds the resilience panel to a container.
+ * @returns Hooks for the map click handler.
+ */
+export function addResiliencePanel(container: HTMLElement, host: ResilienceHost): ResilienceTool {
+    let active = false;
+    let simulating = false;
+    const failed = new Set<string>();
+
+    const panel = document.createElement("div");
+    panel.id = "resilience-box";
+    panel.className = "legend-box minimized";
+    panel.style.cssText = `margin-top: 8px; width: 220px; font: 13px system-ui, sans-serif;`;
+    panel.innerHTML = `
+        <div class="legend-header"><h2 style="font-size:16px; margin:0;">Resilience</h2><button class="toggle-btn" id="resilience-toggle">+</button></div>
+        <label>Links
+            <select id="resilience-type" style="flex:1;">
+                <option value="${ALL_TYPES}">All types combined</option>
+                ${host.connectionTypes.map(t => `<option value="${escapeHtml(t.key)}">${escapeHtml(t.key)} (${escapeHtml(t.label)})</option>`).join('')}
+            </select>
+        </label>
+        <label>Anchor
+            <select id="resilience-anchor" style="flex:1; min-width:0;"></select>
+        </label>
+        <div class="button-section">
+            <button id="resilience-analyse-btn">Analyse</button>
+            <button id="resilience-simulate-btn" title="Click pins on the map to fail or restore them">Simulate failures</button>
+            <button id="resilience-clear-btn">Clear</button>
+        </div>
+        <div id="resilience-results" style="display:flex; flex-direction:column; gap:6px; max-height:40vh; overflow-y:auto;"></div>
+    `;
+    container.appendChild(panel);
+
+    const typeSelect = panel.querySelector<HTMLSelectElement>("#resilience-type")!;
+    const anchorSelect = panel.querySelector<HTMLSelectElement>("#resilience-anchor")!;
+    const simulateButton = panel.querySelector<HTMLButtonElement>("#resilience-simulate-btn")!;
+    const results = panel.querySelector<HTMLDivElement>("#resilience-results")!;
+
+    const graphFor = (type: string) =>
+        buildGraph(host.getConnections(), { types: type === ALL_TYPES ? undefined : new Set([type]) });
+
+    /** Offer every linked site as the anchor, keeping the current choice while it still exists. */
+    const fillAnchors = () => {
+        const names = Array.from(graphFor(ALL_TYPES).nodes).sort();
+        const current = anchorSelect.value || DEFAULT_ANCHOR;
+        anchorSelect.innerHTML = names.map(n => `<option value="${escapeHtml(n)}">${escapeHtml(n)}</option>`).join('');
+        anchorSelect.value = names.includes(current) ? current : names[0] ?? "";
+    };
+    fillAnchors();
+
+    const siteList = (names: Iterable<string>) => {
+        const sorted = Array.from(names).sort();
+        const shown = sorted.slice(0, MAX_LISTED_SITES).map(escapeHtml).join(", ");
+        return sorted.length > MAX_LISTED_SITES ? `${shown}, … (${sorted.length - MAX_LISTED_SITES} more)` : shown;
+    };
+
+    /** Cut-point counts for every connection type, so the weakest networks stand out. */
+    const perTypeTable = () => `
+        <table style="border-collapse:collapse; width:100%;">
+            <tr style="text-align:left;"><th>Type</th><th>Sites</th><th>SPOF</th><th>Bridges</th></tr>
+            ${host.connectionTypes.map(t => {
+                const graph = graphFor(t.key);
+                if (graph.nodes.size === 0) return '';
+                const cuts = findCutPoints(graph);
+                return `
+                    <tr class="resilience-type-row" data-key="${escapeHtml(t.key)}" style="cursor:pointer;" title="Analyse ${escapeHtml(t.label)} links">
+                        <td>${escapeHtml(t.key)}</td><td>${graph.nodes.size}</td><td>${cuts.articulationPoints.size}</td><td>${cuts.bridges.length}</td>
+                    </tr>
+                `;
+            }).join('')}
+        </table>
+    `;
+
+    const update = () => {
+        if (!active) {
+            results.innerHTML = "";
+            host.onChange(null);
+            return;
+        }
+
+        // Links may have changed since the last analysis (editor, live feed).
+        fillAnchors();
+        const graph = graphFor(typeSelect.value);
+        const { articulationPoints, bridges } = findCutPoints(graph);
+        const anchor = anchorSelect.value;
+        const before = reachableFrom(graph, anchor);
+        const after = reachableFrom(graph, anchor, failed);
+        const affected = new Set(Array.from(before).filter(n => !after.has(n) && !failed.has(n)));
+        host.onChange({ articulationPoints, bridges, anchor, failed: new Set(failed), affected });
+
+        const byGroup = countBy(Array.from(affected).map(host.getGroupLabel));
+        results.innerHTML = `
+            <div><b>${articulationPoints.size}</b> single point(s) of failure, <b>${bridges.length}</b> bridge link(s)
+                across ${graph.nodes.size} sites.</div>
+            <details>
+                <summary>Single points of failure</summary>
+                <div>${siteList(articulationPoints) || "<i>None</i>"}</div>
+            </details>
+            <details>
+                <summary>Bridges</summary>
+                <ul style="margin:0; padding-left:18px;">
+                    ${bridges.map(b => `<li>${escapeHtml(b.from)} &ndash; ${escapeHtml(b.to)} (${escapeHtml(b.edges[0].type)})</li>`).join('') || "<i>None</i>"}
+                </ul>
+            </details>
+            <details>
+                <summary>By connection type</summary>
+                ${perTypeTable()}
+            </details>
+            ${!graph.nodes.has(anchor) ? `<i style="color:#a00;">${escapeHtml(anchor)} has no links of this type.</i>` : ""}
+            ${failed.size === 0 ? (simulating ? `<i>Click pins to fail them.</i>` : "") : `
+                <div><b>Failed:</b> ${siteList(failed)}</div>
+                <div><b>${affected.size}</b> site(s) lose their path to ${escapeHtml(anchor)}.</div>
+                ${byGroup.length ? `
+                    <table style="border-collapse:collapse;">
+                        ${byGroup.map(([group, n]) => `<tr><td style="padding-right:8px;">${escapeHtml(group)}</td><td>${n}</td></tr>`).join('')}
+                    </table>
+                ` : ""}
+            `}
+        `;
+        results.querySelectorAll<HTMLTableRowElement>(".resilience-type-row").forEach(row => {
+            row.addEventListener("click", () => {
+                typeSelect.value = row.dataset.key!;
+                update();
+            });
+        });
+    };
+
+    const setSimulating = (on: boolean) => {
+        simulating = on;
+        simulateButton.textContent = on ? "Stop simulating" : "Simulate failures";
+    };
+
+    panel.querySelector("#resilience-analyse-btn")?.addEventListener("click", () => {
+        active = true;
+        update();
+    });
+    simulateButton.addEventListener("click", () => {
+        active = true;
+        setSimulating(!simulating);
+        update();
+    });
+    panel.querySelector("#resilience-clear-btn")?.addEventListener("click", () => {
+        active = false;
+        failed.clear();
+        setSimulating(false);
+        update();
+    });
+    typeSelect.addEventListener("change", update);
+    anchorSelect.addEventListener("change", update);
+
+    const toggle = panel.querySelector<HTMLButtonElement>("#resilience-toggle")!;
+    toggle.addEventListener("click", () => {
+        panel.classList.toggle("minimized");
+        toggle.textContent = panel.classList.contains("minimized") ? "+" : "-";
+    });
+
+    return {
+        isSimulating: () => simulating,
+        toggleFailure(name: string) {
+            if (!simulating) return;
+            if (failed.has(name)) failed.delete(name); else failed.add(name);
+            update();
+        },
+    };
+}
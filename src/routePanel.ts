@@ -0,0 +1,205 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * "Route" tool: pick two sites (by name or on the map) and trace the shortest path
+ * and the alternative simple paths between them over the connection graph.
+ */
+
+import { escapeHtml } from './html';
+import { buildGraph, shortestPath, simplePaths } from './graph';
+import type { PathHop } from './graph';
+
+/** What the route tool needs from the map. */
+export interface RouteHost {
+    getPointNames(): string[];
+    getConnections(): any[];
+    getActiveTypes(): Set<string>;
+    connectionTypes: { key: string; label: string }[];
+    /** Called with the path to highlight, or null to clear it. */
+    onPathChange(path: PathHop[] | null): void;
+}
+
+export interface RouteTool {
+    /** True while the user is picking route endpoints on the map. */
+    isPicking(): boolean;
+    /** Use a clicked site as the next endpoint (start, then end). */
+    pickPoint(name: string): void;
+}
+
+const DEFAULT_MAX_HOPS = 4;
+const MAX_LISTED_PATHS = 50;
+
+/**
+ * Adds the route panel to a container.
+ * @returns Hooks for the map click handler.
+ */
+export function addRoutePanel(container: HTMLElement, host: RouteHost): RouteTool {
+    let picking = false;
+    let paths: PathHop[][] = [];
+    let selected = 0;
+    let noRoute = false; // Set when the last search found nothing.
+
+    const panel = document.createElement("div");
+    panel.id = "route-box";
+    panel.className = "legend-box minimized";
+    panel.style.cssText = `margin-top: 8px; width: 220px; font: 13px system-ui, sans-serif;`;
+    panel.innerHTML = `
+        <div class="legend-header"><h2 style="font-size:16px; margin:0;">Route</h2><button class="toggle-btn" id="route-toggle">+</button></div>
+        <datalist id="route-point-names"></datalist>
+        <label>Start <input id="route-start" list="route-point-names" style="flex:1; min-width:0;"></label>
+        <label>End <input id="route-end" list="route-point-names" style="flex:1; min-width:0;"></label>
+        <div class="button-section">
+            <button id="route-pick-btn" title="Click two pins on the map: start, then end">Pick on map</button>
+        </div>
+        <label>Links
+            <select id="route-type-mode" style="flex:1;">
+                <option value="active">Active types</option>
+                <option value="all">All types</option>
+                <option value="chosen">Chosen types</option>
+            </select>
+        </label>
+        <div id="route-type-list" style="display:none; flex-wrap:wrap; gap:4px 10px;">
+            ${host.connectionTypes.map(t => `
+                <label><input type="checkbox" class="route-type-cb" data-key="${escapeHtml(t.key)}"> ${escapeHtml(t.key)}</label>
+            `).join('')}
+        </div>
+        <label>Max hops <input type="number" id="route-max-hops" min="1" max="10" value="${DEFAULT_MAX_HOPS}" style="width:50px;"></label>
+        <label><input type="checkbox" id="route-directed"> Follow link direction</label>
+        <div class="button-section">
+            <button id="route-find-btn">Find routes</button>
+            <button id="route-clear-btn">Clear</button>
+        </div>
+        <div id="route-results" style="display:flex; flex-direction:column; gap:6px; max-height:40vh; overflow-y:auto;"></div>
+    `;
+    container.appendChild(panel);
+
+    const startInput = panel.querySelector<HTMLInputElement>("#route-start")!;
+    const endInput = panel.querySelector<HTMLInputElement>("#route-end")!;
+    const pickButton = panel.querySelector<HTMLButtonElement>("#route-pick-btn")!;
+    const typeMode = panel.querySelector<HTMLSelectElement>("#route-type-mode")!;
+    const typeList = panel.querySelector<HTMLDivElement>("#route-type-list")!;
+    const maxHopsInput = panel.querySelector<HTMLInputElement>("#route-max-hops")!;
+    const directedCb = panel.querySelector<HTMLInputElement>("#route-directed")!;
+    const results = panel.querySelector<HTMLDivElement>("#route-results")!;
+    const pointNames = panel.querySelector<HTMLDataListElement>("#route-point-names")!;
+
+    /** Offer the current sites, which the editor, importer and live feed can change. */
+    const fillPointNames = () => {
+        pointNames.innerHTML = host.getPointNames().sort().map(n => `<option value="${escapeHtml(n)}"></option>`).join('');
+    };
+    fillPointNames();
+
+    const setPicking = (on: boolean) => {
+        picking = on;
+        pickButton.textContent = on ? (startInput.value && !endInput.value ? "Click end pin…" : "Click start pin…") : "Pick on map";
+    };
+
+    /** Connection types the search may use, per the type mode. Undefined means all. */
+    const allowedTypes = (): Set<string> | undefined => {
+        if (typeMode.value === "all") return undefined;
+        if (typeMode.value === "active") return new Set(host.getActiveTypes());
+        return new Set(Array.from(panel.querySelectorAll<HTMLInputElement>(".route-type-cb:checked")).map(cb => cb.dataset.key!));
+    };
+
+    const renderHops = (path: PathHop[]) => path.map(hop => {
+        const types = Array.from(new Set(hop.edges.map(e => e.type))).join(", ");
+        const ier = Array.from(new Set(hop.edges.flatMap(e => e.ier)));
+        return `
+            <li>
+                <b>${escapeHtml(hop.from)}</b> &rarr; <b>${escapeHtml(hop.to)}</b>
+                <div style="color:#555;">${escapeHtml(types)}${ier.length ? ` &middot; IER: ${escapeHtml(ier.join(", "))}` : ""}</div>
+            </li>
+        `;
+    }).join('');
+
+    const render = () => {
+        if (paths.length === 0) {
+            results.innerHTML = noRoute
+                ? `<i style="color:#a00;">No route between these sites with the selected links.</i>`
+                : "";
+            return;
+        }
+        results.innerHTML = `
+            <div>${paths.length}${paths.length >= MAX_LISTED_PATHS ? "+" : ""} route(s); shortest is ${paths[0].length} hop(s).</div>
+            <select id="route-path-select">
+                ${paths.map((p, i) => `<option value="${i}" ${i === selected ? "selected" : ""}>${i === 0 ? "Shortest" : `Route ${i + 1}`} (${p.length} hops)</option>`).join('')}
+            </select>
+            <ol style="margin:0; padding-left:18px;">${renderHops(paths[selected])}</ol>
+        `;
+        results.querySelector<HTMLSelectElement>("#route-path-select")?.addEventListener("change", e => {
+            selected = Number((e.target as HTMLSelectElement).value);
+            host.onPathChange(paths[selected]);
+            render();
+        });
+    };
+
+    const find = () => {
+        fillPointNames();
+        const start = startInput.value.trim();
+        const end = endInput.value.trim();
+        const names = new Set(host.getPointNames());
+        if (!names.has(start) || !names.has(end)) {
+            results.innerHTML = `<i style="color:#a00;">Choose a known start and end site.</i>`;
+            return;
+        }
+
+        const graph = buildGraph(host.getConnections(), { types: allowedTypes(), directed: directedCb.checked });
+        const maxHops = Math.max(1, Number(maxHopsInput.value) || DEFAULT_MAX_HOPS);
+        const shortest = shortestPath(graph, start, end);
+        paths = shortest ? simplePaths(graph, start, end, maxHops, MAX_LISTED_PATHS) : [];
+        // The shortest path may be longer than maxHops; always list it first.
+        if (shortest && (paths.length === 0 || paths[0].length > shortest.length)) paths.unshift(shortest);
+
+        selected = 0;
+        noRoute = paths.length === 0;
+        host.onPathChange(paths.length ? paths[0] : null);
+        render();
+    };
+
+    const clear = () => {
+        paths = [];
+        selected = 0;
+        noRoute = false;
+        startInput.value = "";
+        endInput.value = "";
+        setPicking(false);
+        host.onPathChange(null);
+        render();
+    };
+
+    pickButton.addEventListener("click", () => {
+        if (!picking) {
+            startInput.value = "";
+            endInput.value = "";
+        }
+        setPicking(!picking);
+    });
+    typeMode.addEventListener("change", () => {
+        typeList.style.display = typeMode.value === "chosen" ? "flex" : "none";
+    });
+    panel.querySelector("#route-find-btn")?.addEventListener("click", find);
+    panel.querySelector("#route-clear-btn")?.addEventListener("click", clear);
+
+    const toggle = panel.querySelector<HTMLButtonElement>("#route-toggle")!;
+    toggle.addEventListener("click", () => {
+        panel.classList.toggle("minimized");
+        toggle.textContent = panel.classList.contains("minimized") ? "+" : "-";
+        if (!panel.classList.contains("minimized")) fillPointNames();
+    });
+
+    return {
+        isPicking: () => picking,
+        pickPoint(name: string) {
+            if (!picking) return;
+            if (!startInput.value) {
+                startInput.value = name;
+                setPicking(true);
+                return;
+            }
+            endInput.value = name;
+            setPicking(false);
+            find();
+        },
+    };
+}
@@ -0,0 +1,136 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Tests for connection rules: conditions, actions, parsing and the shipped rules file.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { evaluateRules, matchesRule, parseRules, formatRuleLabel } from './rules';
+import type { Rule, RuleEndpoints } from './rules';
+import { validateRules } from './validation';
+
+type Point = GeoJSON.Feature<GeoJSON.Point, any>;
+
+function point(name: string, lng: number, lat: number, properties: Record<string, unknown> = {}): Point {
+    return { type: "Feature", properties: { name, ...properties }, geometry: { type: "Point", coordinates: [lng, lat] } };
+}
+
+const points = new Map([
+    point("East", -80, 40),
+    point("West", -100, 40, { tech: "HF" }),
+    point("Pacific", 170, 10),
+].map(p => [p.properties.name, p]));
+const groups: Record<string, string> = { East: "BLUE", West: "RED", Pacific: "RED" };
+
+function ends(c: any): RuleEndpoints {
+    return { from: points.get(c.from), to: points.get(c.to), groupOf: p => groups[p.properties.name] };
+}
+
+function link(from: string, to: string, type = "N", extra: Record<string, unknown> = {}) {
+    return { from, to, Connection_type: type, ...extra };
+}
+
+function matches(when: Rule["when"], c: any): boolean {
+    return matchesRule(when, c, ends(c));
+}
+
+describe("matchesRule", () => {
+    it("tests connection types and properties", () => {
+        expect(matches({ type: "TR" }, link("East", "West", "TR"))).toBe(true);
+        expect(matches({ type: ["N", "HF"] }, link("East", "West", "TR"))).toBe(false);
+        expect(matches({ properties: { status: ["down", "degraded"] } }, link("East", "West", "N", { status: "down" }))).toBe(true);
+        expect(matches({ properties: { status: "down" } }, link("East", "West"))).toBe(false);
+    });
+
+    it("tests endpoint names, groups and properties", () => {
+        expect(matches({ from: { name: "East" }, to: { group: "RED" } }, link("East", "West"))).toBe(true);
+        expect(matches({ to: { properties: { tech: "HF" } } }, link("East", "West"))).toBe(true);
+        expect(matches({ either: { name: "West" } }, link("East", "West"))).toBe(true);
+        expect(matches({ either: { group: "GREEN" } }, link("East", "West"))).toBe(false);
+    });
+
+    it("tests meridian sides and bounding boxes, across the antimeridian too", () => {
+        expect(matches({ to: { westOf: -90 } }, link("East", "West"))).toBe(true);
+        expect(matches({ to: { eastOf: -90 } }, link("East", "West"))).toBe(false);
+        expect(matches({ from: { bbox: [-85, 35, -75, 45] } }, link("East", "West"))).toBe(true);
+        expect(matches({ to: { bbox: [160, 0, -160, 20] } }, link("East", "Pacific"))).toBe(true);
+        expect(matches({ to: { bbox: [160, 0, -160, 20] } }, link("East", "West"))).toBe(false);
+    });
+
+    it("only matches unknown endpoints by name", () => {
+        expect(matches({ to: { name: "Nowhere" } }, link("East", "Nowhere"))).toBe(true);
+        expect(matches({ to: { westOf: 0 } }, link("East", "Nowhere"))).toBe(false);
+    });
+});
+
+describe("evaluateRules", () => {
+    const rules: Rule[] = [
+        { id: "keep-east", when: { from: { name: "East" }, to: { name: "West" } }, action: "include" },
+        { id: "drop-west", when: { to: { westOf: -90 } }, action: "exclude" },
+        { id: "orange", when: { type: "TR" }, action: "restyle", style: { color: [255, 165, 0, 255], height: 0.2 } },
+        { id: "tall", when: { type: "TR" }, action: "restyle", style: { height: 0.9 } },
+        { id: "label", when: {}, action: "relabel", label: "{from} → {to} ({type}, {rate})" },
+    ];
+
+    it("lets the first include or exclude rule decide", () => {
+        const kept = evaluateRules(rules, link("East", "West"), ends(link("East", "West")));
+        expect(kept.included).toBe(true);
+        expect(kept.matched.map(m => m.id)).toEqual(["keep-east", "label"]);
+
+        const dropped = evaluateRules(rules, link("Pacific", "West", "TR"), ends(link("Pacific", "West")));
+        expect(dropped).toEqual({ included: false, matched: [{ id: "drop-west", action: "exclude" }] });
+    });
+
+    it("applies every restyle and relabel rule, later ones winning", () => {
+        const c = link("West", "East", "TR", { rate: 10 });
+        const outcome = evaluateRules(rules, c, ends(c));
+        expect(outcome.included).toBe(true);
+        expect(outcome.style).toEqual({ color: [255, 165, 0, 255], height: 0.9 });
+        expect(outcome.label).toBe("West → East (TR, 10)");
+    });
+
+    it("skips disabled rules", () => {
+        const c = link("West", "East");
+        expect(evaluateRules([{ ...rules[4], enabled: false }], c, ends(c))).toEqual({ included: true, matched: [] });
+    });
+
+    it("fills unknown placeholders with nothing", () => {
+        expect(formatRuleLabel("{from}:{missing}", link("Nowhere", "East"), { from: undefined, to: undefined })).toBe("Nowhere:");
+    });
+});
+
+describe("rules files", () => {
+    it("keeps only enabled, well-formed rules and reports the rest", () => {
+        const config = {
+            rules: [
+                { id: "ok", when: {}, action: "exclude" },
+                { id: "off", when: {}, action: "exclude", enabled: false },
+                { id: "bad", when: { to: { bbox: [1, 2] } }, action: "hide" },
+                { id: "unknown", when: { type: "XX", from: { group: "GREEN" } }, action: "include" },
+            ],
+        };
+        expect(parseRules(config).map(r => r.id)).toEqual(["ok", "unknown"]);
+
+        const issues = validateRules(config, { connectionTypes: ["N"], ierTypes: [], matchGroup: () => null, memberNames: [], groups: ["RED"] });
+        expect(issues.filter(i => i.severity === "error").map(i => i.subject)).toEqual(["bad", "bad"]);
+        expect(issues.filter(i => i.severity === "warning").map(i => i.message)).toEqual([
+            `Rule unknown names unknown connection type "XX".`,
+            `Rule unknown names unknown group "GREEN".`,
+        ]);
+    });
+
+    it("ships the Mississippi rule for TR legs", () => {
+        const rules = parseRules(JSON.parse(readFileSync(resolve(__dirname, '../database/rules.json'), 'utf8')));
+        const included = (from: string, to: string, type = "TR") => evaluateRules(rules, link(from, to, type), ends(link(from, to))).included;
+
+        expect(included("Ohio Pin", "East")).toBe(true);
+        expect(included("Ohio Pin", "West")).toBe(false);
+        expect(included("FOB1", "West")).toBe(true);
+        expect(included("FOB1", "East")).toBe(false);
+        expect(included("FOB1", "East", "N")).toBe(true);
+        expect(included("FOB1", "Nowhere")).toBe(true);
+    });
+});
@@ -0,0 +1,277 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Connection rules: declarative conditions over a connection and its endpoints, each with an
+ * action. Read from `database/rules.json` and evaluated while the data is preprocessed.
+ *
+ * {"version": 1, "rules": [{
+ *     "id": "tr-ohio-pin-east", "description": "...",
+ *     "when": {"type": "TR", "from": {"name": "Ohio Pin"}, "to": {"westOf": -90}},
+ *     "action": "exclude"
+ * }]}
+ *
+ * - `include` / `exclude`: the first such rule matching a connection decides whether it is kept.
+ *   Connections no rule decides are kept.
+ * - `restyle` / `relabel`: every matching rule applies its `style` or `label`; later rules win.
+ *
+ * Pure module: no DOM or deck.gl references.
+ */
+
+import { getProp, getConnType, getPointName } from './model';
+import type { RGBA } from './taxonomy';
+
+// ---------------------- Types ----------------------
+
+export type RuleAction = "include" | "exclude" | "restyle" | "relabel";
+
+export const RULE_ACTIONS: RuleAction[] = ["include", "exclude", "restyle", "relabel"];
+
+/** A value, or a list of values any of which matches. */
+export type RuleValue = string | number | boolean | (string | number | boolean)[];
+
+/** Conditions on one endpoint; all given ones must hold. */
+export interface EndpointCondition {
+    name?: string | string[];
+    /** Pin group key(s). */
+    group?: string | string[];
+    /** [west, south, east, north] in degrees. */
+    bbox?: [number, number, number, number];
+    /** The endpoint lies east of this longitude. */
+    eastOf?: number;
+    /** The endpoint lies west of this longitude. */
+    westOf?: number;
+    /** Point properties and the values they must have. */
+    properties?: Record<string, RuleValue>;
+}
+
+/** Conditions on a connection; all given ones must hold. An empty condition matches everything. */
+export interface RuleCondition {
+    /** Connection type(s). */
+    type?: string | string[];
+    from?: EndpointCondition;
+    to?: EndpointCondition;
+    /** Holds for at least one of the endpoints. */
+    either?: EndpointCondition;
+    /** Connection properties and the values they must have. */
+    properties?: Record<string, RuleValue>;
+}
+
+/** Style overrides of a `restyle` rule. */
+export interface RuleStyle {
+    color?: RGBA;
+    /** Arc tilt, as in the taxonomy's connection types. */
+    height?: number;
+}
+
+export interface Rule {
+    id: string;
+    description?: string;
+    /** False to keep a rule in the file without applying it. */
+    enabled?: boolean;
+    when: RuleCondition;
+    action: RuleAction;
+    /** For `restyle`. */
+    style?: RuleStyle;
+    /** For `relabel`: text with {from}, {to}, {type} or {<connection property>} placeholders. */
+    label?: string;
+}
+
+/** Contents of the rules file. */
+export interface RulesConfig {
+    version?: number;
+    rules: Rule[];
+}
+
+/** A rule that matched a connection. */
+export interface RuleMatch {
+    id: string;
+    action: RuleAction;
+}
+
+/** What the rules did to one connection. */
+export interface RuleOutcome {
+    included: boolean;
+    /** Rules that affected the connection, in evaluation order. */
+    matched: RuleMatch[];
+    style?: RuleStyle;
+    label?: string;
+}
+
+/** The endpoints of a connection as the rules see them. */
+export interface RuleEndpoints {
+    /** Undefined when the endpoint is unknown; only `name` conditions can match it. */
+    from: GeoJSON.Feature<GeoJSON.Point, any> | undefined;
+    to: GeoJSON.Feature<GeoJSON.Point, any> | undefined;
+    /** Pin group of a point. */
+    groupOf(point: GeoJSON.Feature<GeoJSON.Point, any>): string;
+}
+
+// ---------------------- Parsing ----------------------
+
+/**
+ * Return true if a value is a rule action.
+ */
+export function isRuleAction(value: unknown): value is RuleAction {
+    return (RULE_ACTIONS as unknown[]).includes(value);
+}
+
+/**
+ * Return the rules array of a rules file, or null if it has none.
+ */
+export function getRuleList(config: any): any[] | null {
+    if (Array.isArray(config)) return config;
+    return Array.isArray(config?.rules) ? config.rules : null;
+}
+
+/**
+ * Describe what is wrong with the endpoint condition at `where`.
+ */
+function endpointProblems(cond: any, where: string): string[] {
+    if (!cond || typeof cond !== "object" || Array.isArray(cond)) return [`"${where}" must be an object.`];
+    const problems: string[] = [];
+    const { bbox, eastOf, westOf } = cond;
+    if (bbox !== undefined && !(Array.isArray(bbox) && bbox.length === 4 && bbox.every(Number.isFinite) && bbox[1] <= bbox[3])) {
+        problems.push(`"${where}.bbox" must be [west, south, east, north] in degrees.`);
+    }
+    if (eastOf !== undefined && !Number.isFinite(eastOf)) problems.push(`"${where}.eastOf" must be a longitude.`);
+    if (westOf !== undefined && !Number.isFinite(westOf)) problems.push(`"${where}.westOf" must be a longitude.`);
+    return problems;
+}
+
+/**
+ * Describe what is wrong with a rule; an empty list means it can be evaluated.
+ */
+export function ruleProblems(rule: any): string[] {
+    if (!rule || typeof rule !== "object") return ["Expected a rule object."];
+    const problems: string[] = [];
+    if (typeof rule.id !== "string" || !rule.id.trim()) problems.push(`Rule has no "id".`);
+    if (!isRuleAction(rule.action)) problems.push(`"action" must be one of ${RULE_ACTIONS.join(", ")}.`);
+    if (!rule.when || typeof rule.when !== "object" || Array.isArray(rule.when)) {
+        problems.push(`"when" must be an object.`);
+    } else {
+        (["from", "to", "either"] as const)
+            .filter(key => rule.when[key] !== undefined)
+            .forEach(key => problems.push(...endpointProblems(rule.when[key], `when.${key}`)));
+    }
+    if (rule.action === "restyle" && (!rule.style || (rule.style.color === undefined && rule.style.height === undefined))) {
+        problems.push(`A restyle rule needs "style" with a "color" or "height".`);
+    }
+    const color = rule.style?.color;
+    if (color !== undefined && !(Array.isArray(color) && (color.length === 3 || color.length === 4) &&
+        color.every((v: unknown) => Number.isInteger(v) && (v as number) >= 0 && (v as number) <= 255))) {
+        problems.push(`"style.color" must be [r, g, b] or [r, g, b, a] with 0-255 integers.`);
+    }
+    const height = rule.style?.height;
+    if (height !== undefined && !(typeof height === "number" && height >= 0)) {
+        problems.push(`"style.height" must be a number of at least 0.`);
+    }
+    if (rule.action === "relabel" && typeof rule.label !== "string") {
+        problems.push(`A relabel rule needs a "label".`);
+    }
+    return problems;
+}
+
+/**
+ * Return the enabled rules of a rules file that can be evaluated, in file order.
+ * Broken rules are left out; `validateRules` reports them.
+ */
+export function parseRules(config: unknown): Rule[] {
+    return (getRuleList(config) ?? [])
+        .filter(rule => ruleProblems(rule).length === 0 && rule.enabled !== false);
+}
+
+// ---------------------- Evaluation ----------------------
+
+/**
+ * Return true if a value matches a rule value (one of it, for a list).
+ */
+function matchesValue(value: unknown, expected: RuleValue): boolean {
+    return Array.isArray(expected) ? expected.some(e => e === value) : expected === value;
+}
+
+/**
+ * Return true if every listed property of a record has the expected value.
+ */
+function matchesProperties(record: any, expected: Record<string, RuleValue> | undefined): boolean {
+    return !expected || Object.entries(expected).every(([key, value]) => matchesValue(getProp(record, key), value));
+}
+
+/**
+ * Return true if an endpoint meets a condition. `name` is the name the connection refers to,
+ * so it can be tested even for an unknown endpoint.
+ */
+function matchesEndpoint(cond: EndpointCondition, name: string, point: RuleEndpoints["from"], groupOf: RuleEndpoints["groupOf"]): boolean {
+    if (cond.name !== undefined && !matchesValue(name, cond.name)) return false;
+    const needsPoint = cond.group !== undefined || cond.bbox || cond.eastOf !== undefined ||
+        cond.westOf !== undefined || cond.properties;
+    if (!needsPoint) return true;
+    if (point?.geometry?.type !== "Point") return false;
+
+    const [lng, lat] = point.geometry.coordinates;
+    if (cond.group !== undefined && !matchesValue(groupOf(point), cond.group)) return false;
+    if (cond.bbox) {
+        const [west, south, east, north] = cond.bbox;
+        // A west edge greater than the east edge crosses the antimeridian.
+        const inLng = west <= east ? lng >= west && lng <= east : lng >= west || lng <= east;
+        if (!inLng || lat < south || lat > north) return false;
+    }
+    if (cond.eastOf !== undefined && !(lng > cond.eastOf)) return false;
+    if (cond.westOf !== undefined && !(lng < cond.westOf)) return false;
+    return matchesProperties(point, cond.properties);
+}
+
+/**
+ * Return true if a connection meets a rule's condition.
+ */
+export function matchesRule(when: RuleCondition, c: any, ends: RuleEndpoints): boolean {
+    const fromName = getProp(c, "from");
+    const toName = getProp(c, "to");
+    if (when.type !== undefined && !matchesValue(getConnType(c), when.type)) return false;
+    if (when.from && !matchesEndpoint(when.from, fromName, ends.from, ends.groupOf)) return false;
+    if (when.to && !matchesEndpoint(when.to, toName, ends.to, ends.groupOf)) return false;
+    if (when.either && !matchesEndpoint(when.either, fromName, ends.from, ends.groupOf) &&
+        !matchesEndpoint(when.either, toName, ends.to, ends.groupOf)) return false;
+    return matchesProperties(c, when.properties);
+}
+
+/**
+ * Fill a label template's placeholders; unknown ones are left empty.
+ */
+export function formatRuleLabel(template: string, c: any, ends: Pick<RuleEndpoints, "from" | "to">): string {
+    return template.replace(/\{([^{}]+)\}/g, (_, key: string) => {
+        if (key === "from") return ends.from ? getPointName(ends.from) : String(getProp(c, "from") ?? "");
+        if (key === "to") return ends.to ? getPointName(ends.to) : String(getProp(c, "to") ?? "");
+        if (key === "type") return getConnType(c);
+        return String(getProp(c, key) ?? "");
+    });
+}
+
+/**
+ * Run the rules over one connection, in order.
+ */
+export function evaluateRules(rules: Rule[], c: any, ends: RuleEndpoints): RuleOutcome {
+    const outcome: RuleOutcome = { included: true, matched: [] };
+    let decided = false;
+
+    for (const rule of rules) {
+        if (rule.enabled === false || !matchesRule(rule.when, c, ends)) continue;
+        if (rule.action === "include" || rule.action === "exclude") {
+            // Only the first include/exclude rule decides; later ones are shadowed.
+            if (decided) continue;
+            decided = true;
+            outcome.matched.push({ id: rule.id, action: rule.action });
+            if (rule.action === "exclude") {
+                outcome.included = false;
+                return outcome;
+            }
+        } else if (rule.action === "restyle") {
+            outcome.matched.push({ id: rule.id, action: rule.action });
+            outcome.style = { ...outcome.style, ...rule.style };
+        } else {
+            outcome.matched.push({ id: rule.id, action: rule.action });
+            outcome.label = formatRuleLabel(rule.label ?? "", c, ends);
+        }
+    }
+    return outcome;
+}
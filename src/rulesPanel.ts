@@ -0,0 +1,98 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * "Rules" debug panel: each connection rule with the connections it affected, excluded ones
+ * included, so a rule that matches too much or nothing at all is easy to spot.
+ */
+
+import { escapeHtml } from './html';
+import type { Rule, RuleAction } from './rules';
+import type { RuleLogEntry } from './pipeline';
+
+/** What the rules panel needs from the map. */
+export interface RulesHost {
+    /** Rules in evaluation order. */
+    getRules(): Rule[];
+    /** Connections the rules affected, from the current data. */
+    explain(): RuleLogEntry[];
+}
+
+export interface RulesTool {
+    /** Redraw after the data changed, e.g. after an edit or a live update. */
+    refresh(): void;
+}
+
+const ACTION_COLORS: Record<RuleAction, string> = {
+    include: "#070",
+    exclude: "#a00",
+    restyle: "#05a",
+    relabel: "#a60",
+};
+
+/**
+ * Adds the rules panel to a container.
+ * @returns Hooks for refreshing it when the data changes.
+ */
+export function addRulesPanel(container: HTMLElement, host: RulesHost): RulesTool {
+    const panel = document.createElement("div");
+    panel.id = "rules-box";
+    panel.className = "legend-box minimized";
+    panel.style.cssText = `margin-top: 8px; width: 220px; font: 13px system-ui, sans-serif;`;
+    panel.innerHTML = `
+        <div class="legend-header"><h2 style="font-size:16px; margin:0;">Rules</h2><button class="toggle-btn" id="rules-toggle">+</button></div>
+        <div id="rules-summary" style="color:#555;"></div>
+        <div id="rules-list" style="max-height:40vh; overflow-y:auto;"></div>
+    `;
+    container.appendChild(panel);
+
+    const summary = panel.querySelector<HTMLDivElement>("#rules-summary")!;
+    const list = panel.querySelector<HTMLDivElement>("#rules-list")!;
+
+    const render = () => {
+        // Evaluating every connection is only worth it while the panel is open.
+        if (panel.classList.contains("minimized")) return;
+
+        const rules = host.getRules();
+        if (rules.length === 0) {
+            summary.textContent = "No connection rules loaded.";
+            list.innerHTML = "";
+            return;
+        }
+
+        const log = host.explain();
+        const excluded = log.filter(e => !e.included).length;
+        summary.textContent = `${rules.length} rules affect ${log.length} connections; ${excluded} excluded.`;
+
+        // Keep the rules the user expanded open across refreshes.
+        const open = new Set(Array.from(list.querySelectorAll<HTMLDetailsElement>("details[open]")).map(d => d.dataset.id));
+        list.innerHTML = rules.map(rule => {
+            const entries = log.filter(e => e.matched.some(m => m.id === rule.id));
+            const rows = entries.map(e => `
+                <li style="${e.included ? "" : "color:#a00;"}" title="Connection #${e.index}: ${escapeHtml(e.matched.map(m => `${m.id} (${m.action})`).join(", "))}">
+                    ${escapeHtml(e.from)} &rarr; ${escapeHtml(e.to)} (${escapeHtml(e.type)})${e.included ? "" : " <i>excluded</i>"}
+                </li>
+            `).join('');
+            return `
+                <details data-id="${escapeHtml(rule.id)}" ${open.has(rule.id) ? "open" : ""}>
+                    <summary>
+                        <b>${escapeHtml(rule.id)}</b>
+                        <span style="color:${ACTION_COLORS[rule.action]};">${rule.action}</span>
+                        <span style="color:#555;">(${entries.length || "no matches"})</span>
+                    </summary>
+                    ${rule.description ? `<div style="color:#555;">${escapeHtml(rule.description)}</div>` : ""}
+                    <ul style="margin:4px 0; padding-left:18px;">${rows}</ul>
+                </details>
+            `;
+        }).join('');
+    };
+
+    const toggle = panel.querySelector<HTMLButtonElement>("#rules-toggle")!;
+    toggle.addEventListener("click", () => {
+        panel.classList.toggle("minimized");
+        toggle.textContent = panel.classList.contains("minimized") ? "+" : "-";
+        render();
+    });
+
+    return { refresh: render };
+}
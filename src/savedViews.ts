@@ -0,0 +1,180 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Saved named views ("HF backbone", "EU theatre", ...):
+ * - Persisted in localStorage.
+ * - Listed in a panel with one-click restore, delete, and JSON export/import for sharing.
+ */
+
+import { escapeHtml, downloadJson } from './html';
+import type { ViewState } from './viewState';
+
+/** A view state saved under a user-chosen name. */
+export interface SavedView {
+    name: string;
+    savedAt: string; // ISO-8601
+    state: ViewState;
+}
+
+const STORAGE_KEY = "nxgen.savedViews.v1";
+
+/** Format tag written into exported files and checked on import. */
+const EXPORT_FORMAT = "nxgen-saved-views";
+
+// ---------------------- Storage ----------------------
+
+/**
+ * Return true if a value has the shape of a saved view.
+ */
+function isSavedView(v: any): v is SavedView {
+    const s = v?.state;
+    return typeof v?.name === "string" && v.name.trim() !== "" &&
+        typeof s === "object" && s !== null &&
+        typeof s.center?.lat === "number" && typeof s.center?.lng === "number" &&
+        typeof s.zoom === "number" &&
+        Array.isArray(s.connTypes) && Array.isArray(s.pinGroups) && Array.isArray(s.ierTypes);
+}
+
+/**
+ * Load saved views from localStorage. Corrupt entries are skipped.
+ */
+export function loadSavedViews(): SavedView[] {
+    try {
+        const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+        return Array.isArray(raw) ? raw.filter(isSavedView) : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Persist saved views to localStorage.
+ */
+function storeSavedViews(views: SavedView[]) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(views));
+}
+
+/**
+ * Parse an exported saved-views file (or a bare array of views).
+ * @throws Error if the file contains no valid views.
+ */
+export function parseSavedViewsFile(json: any): SavedView[] {
+    const list = Array.isArray(json) ? json : json?.format === EXPORT_FORMAT ? json.views : null;
+    const views = Array.isArray(list) ? list.filter(isSavedView) : [];
+    if (views.length === 0) throw new Error("No saved views found in this file.");
+    return views;
+}
+
+/**
+ * Merge views by name; entries in `incoming` replace existing ones with the same name.
+ */
+export function mergeSavedViews(existing: SavedView[], incoming: SavedView[]): SavedView[] {
+    const byName = new Map(existing.map(v => [v.name, v]));
+    incoming.forEach(v => byName.set(v.name, v));
+    return Array.from(byName.values());
+}
+
+// ---------------------- UI ----------------------
+
+/**
+ * Adds the "Saved views" panel to a container.
+ * @param container - Element the panel is appended to.
+ * @param getState - Returns the current view state to save.
+ * @param applyState - Restores a saved view state (filters, checkboxes, camera).
+ */
+export function addSavedViewsPanel(container: HTMLElement, getState: () => ViewState, applyState: (state: ViewState) => void) {
+    let views = loadSavedViews();
+
+    const panel = document.createElement("div");
+    panel.id = "saved-views-box";
+    panel.className = "legend-box minimized";
+    panel.style.cssText = `margin-top: 8px; width: 220px; font: 13px system-ui, sans-serif;`;
+    panel.innerHTML = `
+        <div class="legend-header"><h2 style="font-size:16px; margin:0;">Saved views</h2><button class="toggle-btn" id="saved-views-toggle">+</button></div>
+        <div class="button-section">
+            <input type="text" id="saved-view-name" placeholder="View name" style="flex: 1 1 100%; padding:5px; border:1px solid #ccc; border-radius:6px;">
+            <button id="save-view-btn">Save</button>
+            <button id="export-views-btn">Export</button>
+            <button id="import-views-btn">Import</button>
+            <input type="file" id="import-views-input" accept="application/json,.json" style="display:none;">
+        </div>
+        <div id="saved-views-list" style="display:flex; flex-direction:column; gap:4px; max-height: 40vh; overflow-y:auto;"></div>
+    `;
+    container.appendChild(panel);
+
+    const list = panel.querySelector<HTMLDivElement>("#saved-views-list")!;
+    const nameInput = panel.querySelector<HTMLInputElement>("#saved-view-name")!;
+    const fileInput = panel.querySelector<HTMLInputElement>("#import-views-input")!;
+
+    const setViews = (next: SavedView[]) => {
+        views = next;
+        storeSavedViews(views);
+        render();
+    };
+
+    const render = () => {
+        list.innerHTML = views.length === 0
+            ? `<i style="color:#888;">No saved views yet.</i>`
+            : views.map((v, i) => `
+                <div style="display:flex; gap:4px; align-items:center;">
+                    <button class="restore-view-btn" data-index="${i}" title="Saved ${escapeHtml(new Date(v.savedAt).toLocaleString())}"
+                        style="flex:1; text-align:left; padding:4px 8px; border:1px solid #ccc; border-radius:6px; background:#f7f7f7; cursor:pointer;">${escapeHtml(v.name)}</button>
+                    <button class="delete-view-btn" data-index="${i}" title="Delete"
+                        style="padding:4px 6px; border:1px solid #ccc; border-radius:6px; background:#fff; cursor:pointer;">&times;</button>
+                </div>
+            `).join('');
+
+        list.querySelectorAll<HTMLButtonElement>(".restore-view-btn").forEach(btn => {
+            btn.addEventListener("click", () => applyState(views[Number(btn.dataset.index)].state));
+        });
+        list.querySelectorAll<HTMLButtonElement>(".delete-view-btn").forEach(btn => {
+            btn.addEventListener("click", () => {
+                const view = views[Number(btn.dataset.index)];
+                if (confirm(`Delete saved view "${view.name}"?`)) setViews(views.filter(v => v !== view));
+            });
+        });
+    };
+
+    const save = () => {
+        const name = nameInput.value.trim();
+        if (!name) {
+            nameInput.focus();
+            return;
+        }
+        if (views.some(v => v.name === name) && !confirm(`Replace the saved view "${name}"?`)) return;
+        setViews(mergeSavedViews(views, [{ name, savedAt: new Date().toISOString(), state: getState() }]));
+        nameInput.value = "";
+    };
+
+    panel.querySelector("#save-view-btn")?.addEventListener("click", save);
+    nameInput.addEventListener("keydown", e => {
+        if (e.key === "Enter") save();
+    });
+
+    panel.querySelector("#export-views-btn")?.addEventListener("click", () => {
+        downloadJson("saved-views.json", { format: EXPORT_FORMAT, version: 1, views });
+    });
+
+    panel.querySelector("#import-views-btn")?.addEventListener("click", () => fileInput.click());
+    fileInput.addEventListener("change", async () => {
+        const file = fileInput.files?.[0];
+        fileInput.value = "";
+        if (!file) return;
+        try {
+            const imported = parseSavedViewsFile(JSON.parse(await file.text()));
+            setViews(mergeSavedViews(views, imported));
+            alert(`Imported ${imported.length} saved view(s).`);
+        } catch (err) {
+            alert(`Could not import ${file.name}: ${(err as Error).message}`);
+        }
+    });
+
+    const toggle = panel.querySelector<HTMLButtonElement>("#saved-views-toggle")!;
+    toggle.addEventListener("click", () => {
+        panel.classList.toggle("minimized");
+        toggle.textContent = panel.classList.contains("minimized") ? "+" : "-";
+    });
+
+    render();
+}
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Fuzzy site search over point names and their `tech`/`type` properties.
+ * Punctuation, spacing and case are ignored, so "e6 3" finds "E6-3" and "holt" finds "Harold E. Holt".
+ */
+
+import { getPointName } from './model';
+
+/** Properties searched besides the name, with how much a match on them counts. */
+const FIELD_WEIGHTS: Record<string, number> = { name: 1, tech: 0.7, type: 0.7 };
+
+export interface SearchResult {
+    name: string;
+    /** Field that matched best: "name", "tech" or "type". */
+    field: string;
+    /** Value of that field, for display. */
+    value: string;
+    score: number;
+}
+
+/**
+ * Lower-case and strip everything but letters and digits.
+ */
+function normalize(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Score how well a normalized query matches a normalized text; 0 means no match.
+ * Exact beats prefix beats substring beats in-order (subsequence) matches.
+ */
+function matchScore(text: string, query: string): number {
+    if (!query || !text) return 0;
+    if (text === query) return 100;
+    if (text.startsWith(query)) return 80;
+    const at = text.indexOf(query);
+    if (at >= 0) return 60 - Math.min(at, 20);
+
+    // Subsequence: every query character appears in order; tighter spans score higher.
+    let first = -1;
+    let pos = -1;
+    for (const ch of query) {
+        pos = text.indexOf(ch, pos + 1);
+        if (pos < 0) return 0;
+        if (first < 0) first = pos;
+    }
+    const gaps = pos - first + 1 - query.length;
+    return Math.max(1, 40 - gaps * 2 - Math.min(first, 10));
+}
+
+/**
+ * Search points by name, `tech` and `type`.
+ * @returns Up to `limit` matches, best first; one entry per point.
+ */
+export function searchPoints(points: any[], query: string, limit = 10): SearchResult[] {
+    const q = normalize(query);
+    if (!q) return [];
+
+    const best = new Map<string, SearchResult>();
+    points.forEach(p => {
+        const name = getPointName(p);
+        if (!name) return;
+        Object.entries(FIELD_WEIGHTS).forEach(([field, weight]) => {
+            // Read properties directly: a feature's own `type` is "Feature".
+            const value = field === "name" ? name : p?.properties?.[field];
+            if (typeof value !== "string") return;
+            const score = matchScore(normalize(value), q) * weight;
+            if (score > 0 && score > (best.get(name)?.score ?? 0)) {
+                best.set(name, { name, field, value, score });
+            }
+        });
+    });
+
+    return Array.from(best.values())
+        .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+        .slice(0, limit);
+}
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Site search control: autocomplete with keyboard navigation and a recent-searches list.
+ */
+
+import { escapeHtml } from './html';
+import { searchPoints } from './search';
+
+/** What the search box needs from the map. */
+export interface SearchHost {
+    getPoints(): any[];
+    /** Called when the user picks a site. */
+    onSelect(name: string): void;
+    /** Called when the search is cleared with Escape. */
+    onClear(): void;
+}
+
+const STORAGE_KEY = "nxgen.recentSearches.v1";
+const MAX_RECENT = 8;
+const MAX_RESULTS = 10;
+
+/**
+ * Load recent searches from localStorage, most recent first.
+ */
+function loadRecent(): string[] {
+    try {
+        const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+        return Array.isArray(raw) ? raw.filter(n => typeof n === "string") : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Adds the search box to a container.
+ */
+export function addSearchBox(container: HTMLElement, host: SearchHost) {
+    let recent = loadRecent();
+    let options: { name: string; detail: string }[] = [];
+    let highlighted = -1;
+
+    const box = document.createElement("div");
+    box.id = "site-search";
+    box.style.cssText = `position: relative; width: 260px; font: 13px system-ui, sans-serif;`;
+    box.innerHTML = `
+        <input type="search" id="site-search-input" placeholder="Search sites…" autocomplete="off"
+            role="combobox" aria-autocomplete="list" aria-controls="site-search-list" aria-expanded="false"
+            style="width:100%; box-sizing:border-box; padding:8px 10px; border:1px solid #ccc; border-radius:8px; box-shadow:0 2px 8px rgba(0,0,0,.15);">
+        <ul id="site-search-list" role="listbox"
+            style="display:none; position:absolute; top:100%; left:0; right:0; margin:4px 0 0; padding:4px 0; list-style:none;
+                   background:#fff; border-radius:8px; box-shadow:0 2px 8px rgba(0,0,0,.15); max-height:50vh; overflow-y:auto;"></ul>
+    `;
+    container.appendChild(box);
+
+    const input = box.querySelector<HTMLInputElement>("#site-search-input")!;
+    const list = box.querySelector<HTMLUListElement>("#site-search-list")!;
+
+    const render = (heading: string) => {
+        const open = options.length > 0;
+        list.style.display = open ? "block" : "none";
+        input.setAttribute("aria-expanded", String(open));
+        list.innerHTML = (heading ? `<li style="padding:2px 10px; color:#888;">${heading}</li>` : "") +
+            options.map((o, i) => `
+                <li role="option" data-index="${i}" aria-selected="${i === highlighted}"
+                    style="padding:5px 10px; cursor:pointer; ${i === highlighted ? "background:#e8f0fe;" : ""}">
+                    <b>${escapeHtml(o.name)}</b>${o.detail ? ` <span style="color:#555;">${escapeHtml(o.detail)}</span>` : ""}
+                </li>
+            `).join('');
+        list.querySelector<HTMLLIElement>(`li[data-index="${highlighted}"]`)?.scrollIntoView({ block: "nearest" });
+    };
+
+    const update = () => {
+        highlighted = -1;
+        const query = input.value.trim();
+        if (!query) {
+            // Only offer recent sites that still exist.
+            const known = new Set(host.getPoints().map(p => p?.properties?.name));
+            options = recent.filter(n => known.has(n)).map(name => ({ name, detail: "" }));
+            render(options.length ? "Recent" : "");
+            return;
+        }
+        options = searchPoints(host.getPoints(), query, MAX_RESULTS)
+            .map(r => ({ name: r.name, detail: r.field === "name" ? "" : `${r.field}: ${r.value}` }));
+        highlighted = options.length ? 0 : -1;
+        render("");
+    };
+
+    const close = () => {
+        options = [];
+        highlighted = -1;
+        render("");
+    };
+
+    const select = (name: string) => {
+        recent = [name, ...recent.filter(n => n !== name)].slice(0, MAX_RECENT);
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(recent));
+        input.value = name;
+        close();
+        input.blur();
+        host.onSelect(name);
+    };
+
+    input.addEventListener("input", update);
+    input.addEventListener("focus", update);
+    input.addEventListener("blur", () => setTimeout(close, 150)); // Let a click on a result land first.
+    input.addEventListener("keydown", e => {
+        if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+            e.preventDefault();
+            if (options.length === 0) return update();
+            const step = e.key === "ArrowDown" ? 1 : -1;
+            highlighted = (highlighted + step + options.length) % options.length;
+            render(input.value.trim() ? "" : "Recent");
+        } else if (e.key === "Enter") {
+            const option = options[highlighted] ?? options[0];
+            if (option) select(option.name);
+        } else if (e.key === "Escape") {
+            input.value = "";
+            close();
+            host.onClear();
+        }
+    });
+    list.addEventListener("mousedown", e => {
+        const item = (e.target as HTMLElement).closest<HTMLLIElement>("li[data-index]");
+        if (!item) return;
+        e.preventDefault(); // Keep focus in the input until the selection is made.
+        select(options[Number(item.dataset.index)].name);
+    });
+}
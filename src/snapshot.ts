@@ -0,0 +1,304 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Snapshot rendering: the deck.gl layers composited over the basemap, with a title block,
+ * a classification banner and a legend of the active types, at a chosen resolution.
+ *
+ * The live basemap can't be read back from the page, so it is rebuilt from Static Maps API
+ * images tiled over the viewport. Static maps are top-down only; tilted or rotated views
+ * are drawn over a plain background instead.
+ */
+
+import type { RGBA } from './taxonomy';
+import type { CameraState } from './tours';
+
+declare const deck: any;
+
+export interface SnapshotCamera extends CameraState {
+    /** Viewport size in CSS pixels. */
+    width: number;
+    height: number;
+}
+
+export interface LegendSection {
+    title: string;
+    items: { label: string; color: RGBA }[];
+}
+
+export interface SnapshotOptions {
+    /** Output pixels per CSS pixel (1, 2, 4...). */
+    scale: number;
+    title: string;
+    timestamp: string;
+    /** Classification and caveat banner drawn at the top and bottom; omitted when null. */
+    banner: { text: string; background: string; color: string } | null;
+    legend: LegendSection[];
+    /** Attribution drawn in the corner of the map area, e.g. for the basemap. */
+    attribution: string;
+    /** Fill used when there is no basemap. */
+    background: string;
+}
+
+const STATIC_MAPS_URL = "https://maps.googleapis.com/maps/api/staticmap";
+/** Largest static map side is 640; each tile is requested taller and cropped to drop the Google logo. */
+const TILE = 580;
+const TILE_CROP = 25;
+/** Give up waiting for icons and other async layer data after this long. */
+const LAYER_LOAD_TIMEOUT_MS = 15000;
+
+// ---------------------- Basemap ----------------------
+
+/**
+ * Web Mercator world pixel coordinates at a zoom level.
+ */
+function project(lat: number, lng: number, zoom: number): [number, number] {
+    const size = 256 * 2 ** zoom;
+    const sin = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+    return [((lng + 180) / 360) * size, (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size];
+}
+
+/**
+ * Inverse of `project`.
+ */
+function unproject(x: number, y: number, zoom: number): { lat: number; lng: number } {
+    const size = 256 * 2 ** zoom;
+    const n = Math.PI - (2 * Math.PI * y) / size;
+    return { lat: (180 / Math.PI) * Math.atan(Math.sinh(n)), lng: (x / size) * 360 - 180 };
+}
+
+/**
+ * Convert map styles to Static Maps `style` parameters.
+ */
+function styleParams(styles: google.maps.MapTypeStyle[]): string[] {
+    return styles.map(style => [
+        style.featureType ? `feature:${style.featureType}` : "",
+        style.elementType ? `element:${style.elementType}` : "",
+        ...(style.stylers ?? []).flatMap(styler => Object.entries(styler).map(([key, value]) =>
+            `${key}:${String(value).replace(/^#/, "0x")}`)),
+    ].filter(Boolean).join("|"));
+}
+
+/**
+ * Render the basemap for a camera from Static Maps API tiles.
+ * @param mapType - "roadmap" or "satellite".
+ * @param styles - Styles of a styled map type, if any.
+ * @throws Error if a tile can't be fetched (network, key or quota problems).
+ */
+export async function renderStaticBasemap(
+    camera: SnapshotCamera, scale: number, apiKey: string, mapType: string, styles: google.maps.MapTypeStyle[] = [],
+): Promise<HTMLCanvasElement> {
+    // Fetch at the integer zoom below the camera's and stretch by the remainder.
+    const zoom = Math.max(0, Math.floor(camera.zoom));
+    const stretch = 2 ** (camera.zoom - zoom);
+    const [cx, cy] = project(camera.center.lat, camera.center.lng, zoom);
+    const width = camera.width / stretch;
+    const height = camera.height / stretch;
+    const left = cx - width / 2;
+    const top = cy - height / 2;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(camera.width * scale);
+    canvas.height = Math.round(camera.height * scale);
+    const ctx = canvas.getContext("2d")!;
+    const toCanvas = (scale * stretch);
+
+    const tiles: Promise<void>[] = [];
+    for (let ty = 0; ty < height; ty += TILE) {
+        for (let tx = 0; tx < width; tx += TILE) {
+            const w = Math.ceil(Math.min(TILE, width - tx));
+            const h = Math.ceil(Math.min(TILE, height - ty));
+            const center = unproject(left + tx + w / 2, top + ty + h / 2, zoom);
+            const params = new URLSearchParams({
+                center: `${center.lat.toFixed(6)},${center.lng.toFixed(6)}`,
+                zoom: String(zoom),
+                size: `${w}x${h + 2 * TILE_CROP}`,
+                scale: "2",
+                maptype: mapType,
+                key: apiKey,
+            });
+            styleParams(styles).forEach(style => params.append("style", style));
+
+            tiles.push(fetch(`${STATIC_MAPS_URL}?${params}`)
+                .then(res => {
+                    if (!res.ok) throw new Error(`Static map request failed (${res.status}).`);
+                    return res.blob();
+                })
+                .then(createImageBitmap)
+                .then(image => {
+                    ctx.drawImage(image, 0, TILE_CROP * 2, w * 2, h * 2, tx * toCanvas, ty * toCanvas, w * toCanvas, h * toCanvas);
+                }));
+        }
+    }
+    await Promise.all(tiles);
+    return canvas;
+}
+
+// ---------------------- Layers ----------------------
+
+/**
+ * Render layers for a camera on a separate, hidden deck at `scale` device pixels per CSS pixel,
+ * once their icons and other async data have loaded.
+ * @param layers - Fresh layer instances; layers can't be shared with the live overlay's deck.
+ */
+export function renderLayers(camera: SnapshotCamera, layers: any[], scale: number): Promise<HTMLCanvasElement> {
+    const canvas = document.createElement("canvas");
+    canvas.style.cssText = `position: fixed; left: 0; top: 0; width: ${camera.width}px; height: ${camera.height}px; visibility: hidden; pointer-events: none;`;
+    document.body.appendChild(canvas);
+
+    return new Promise((resolve, reject) => {
+        let snapshotDeck: any = null;
+        let done = false;
+        const finish = (result: HTMLCanvasElement | null, error?: Error) => {
+            if (done) return;
+            done = true;
+            clearTimeout(timer);
+            // finalize() can't run inside the deck's own render callback.
+            setTimeout(() => {
+                snapshotDeck?.finalize();
+                canvas.remove();
+            });
+            if (result) resolve(result); else reject(error);
+        };
+        const timer = setTimeout(() => finish(null, new Error("Timed out waiting for the layers to load.")), LAYER_LOAD_TIMEOUT_MS);
+
+        snapshotDeck = new deck.Deck({
+            canvas,
+            width: camera.width,
+            height: camera.height,
+            // Google's zoom levels are one above deck.gl's 512px-tile zoom.
+            viewState: {
+                longitude: camera.center.lng,
+                latitude: camera.center.lat,
+                zoom: camera.zoom - 1,
+                pitch: camera.tilt,
+                bearing: camera.heading,
+            },
+            controller: false,
+            layers,
+            useDevicePixels: scale,
+            glOptions: { preserveDrawingBuffer: true },
+            onAfterRender: () => {
+                if (!layers.every(layer => layer.isLoaded)) return;
+                // Copy out while the frame is still in the drawing buffer.
+                const copy = document.createElement("canvas");
+                copy.width = canvas.width;
+                copy.height = canvas.height;
+                copy.getContext("2d")!.drawImage(canvas, 0, 0);
+                finish(copy);
+            },
+            onError: (error: Error) => finish(null, error),
+        });
+    });
+}
+
+// ---------------------- Composition ----------------------
+
+/**
+ * CSS colour for an RGBA colour.
+ */
+function rgba([r, g, b, a = 255]: RGBA): string {
+    return `rgba(${r}, ${g}, ${b}, ${a / 255})`;
+}
+
+/**
+ * Draw the legend box in the bottom-left corner of the map area.
+ */
+function drawLegend(ctx: CanvasRenderingContext2D, sections: LegendSection[], mapBottom: number) {
+    const rows = sections.filter(s => s.items.length).flatMap(s => [{ heading: s.title }, ...s.items.map(item => ({ item }))]);
+    if (rows.length === 0) return;
+
+    const lineHeight = 18;
+    ctx.font = "13px system-ui, sans-serif";
+    const textWidth = Math.max(...rows.map(row => ctx.measureText("heading" in row ? row.heading! : row.item!.label).width));
+    const boxWidth = textWidth + 40;
+    const boxHeight = rows.length * lineHeight + 12;
+    const x = 10;
+    const y = mapBottom - boxHeight - 10;
+
+    ctx.fillStyle = "rgba(255, 255, 255, 0.9)";
+    ctx.fillRect(x, y, boxWidth, boxHeight);
+    ctx.textBaseline = "middle";
+    rows.forEach((row, i) => {
+        const rowY = y + 6 + i * lineHeight + lineHeight / 2;
+        if ("heading" in row) {
+            ctx.font = "bold 13px system-ui, sans-serif";
+            ctx.fillStyle = "#000";
+            ctx.fillText(row.heading!, x + 8, rowY);
+        } else {
+            ctx.fillStyle = rgba(row.item!.color);
+            ctx.fillRect(x + 10, rowY - 5, 12, 10);
+            ctx.font = "13px system-ui, sans-serif";
+            ctx.fillStyle = "#222";
+            ctx.fillText(row.item!.label, x + 28, rowY);
+        }
+    });
+}
+
+/**
+ * Compose the snapshot image.
+ * @param basemap - Basemap for the viewport, or null for a plain background.
+ * @param layers - The deck.gl canvas; it is stretched to the map area.
+ */
+export function composeSnapshot(
+    basemap: CanvasImageSource | null, layers: CanvasImageSource, camera: SnapshotCamera, options: SnapshotOptions,
+): HTMLCanvasElement {
+    const bannerHeight = options.banner ? 26 : 0;
+    const titleHeight = 44;
+    const { width, height } = camera;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * options.scale);
+    canvas.height = Math.round((height + titleHeight + 2 * bannerHeight) * options.scale);
+    const ctx = canvas.getContext("2d")!;
+    // Lay out in CSS pixels and let the transform scale everything.
+    ctx.scale(options.scale, options.scale);
+
+    const drawBanner = (y: number) => {
+        if (!options.banner) return;
+        ctx.fillStyle = options.banner.background;
+        ctx.fillRect(0, y, width, bannerHeight);
+        ctx.fillStyle = options.banner.color;
+        ctx.font = "bold 15px system-ui, sans-serif";
+        ctx.textAlign = "center";
+        ctx.textBaseline = "middle";
+        ctx.fillText(options.banner.text, width / 2, y + bannerHeight / 2);
+        ctx.textAlign = "left";
+    };
+
+    // Title block.
+    drawBanner(0);
+    ctx.fillStyle = "#fff";
+    ctx.fillRect(0, bannerHeight, width, titleHeight);
+    ctx.textBaseline = "alphabetic";
+    ctx.fillStyle = "#000";
+    ctx.font = "bold 20px system-ui, sans-serif";
+    ctx.fillText(options.title, 12, bannerHeight + 28);
+    ctx.font = "13px system-ui, sans-serif";
+    ctx.fillStyle = "#444";
+    ctx.textAlign = "right";
+    ctx.fillText(options.timestamp, width - 12, bannerHeight + 28);
+    ctx.textAlign = "left";
+
+    // Map area: basemap, then the layers, then the legend and attribution on top.
+    const mapTop = bannerHeight + titleHeight;
+    ctx.fillStyle = options.background;
+    ctx.fillRect(0, mapTop, width, height);
+    if (basemap) ctx.drawImage(basemap, 0, mapTop, width, height);
+    ctx.drawImage(layers, 0, mapTop, width, height);
+    drawLegend(ctx, options.legend, mapTop + height);
+    if (options.attribution) {
+        ctx.font = "11px system-ui, sans-serif";
+        ctx.textAlign = "right";
+        ctx.textBaseline = "bottom";
+        ctx.fillStyle = "rgba(255, 255, 255, 0.8)";
+        const textWidth = ctx.measureText(options.attribution).width;
+        ctx.fillRect(width - textWidth - 10, mapTop + height - 16, textWidth + 10, 16);
+        ctx.fillStyle = "#333";
+        ctx.fillText(options.attribution, width - 5, mapTop + height - 2);
+        ctx.textAlign = "left";
+    }
+
+    drawBanner(mapTop + height);
+    return canvas;
+}
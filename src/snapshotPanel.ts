@@ -0,0 +1,188 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * "Snapshot" panel: download the map as a PNG or single-page PDF at 1x, 2x or 4x, with a
+ * legend of the active types, a title, a timestamp and a classification/caveat banner.
+ */
+
+import { escapeHtml, downloadBlob, fileStem } from './html';
+import { renderStaticBasemap, renderLayers, composeSnapshot } from './snapshot';
+import type { SnapshotCamera, LegendSection } from './snapshot';
+import { jpegToPdf } from './pdf';
+import { formatTime } from './timeline';
+
+/** What the snapshot panel needs from the map. */
+export interface SnapshotHost {
+    getCamera(): SnapshotCamera;
+    /** Static Maps equivalent of the current map type. */
+    getBasemap(): { mapType: string; styles: google.maps.MapTypeStyle[] };
+    /** Static Maps API key; without one the basemap is left out. */
+    apiKey?: string;
+    /** Fresh layer instances for the current view. */
+    buildLayers(): any[];
+    /** Legend of the active connection types and pin groups. */
+    getLegend(): LegendSection[];
+}
+
+interface SnapshotSettings {
+    title: string;
+    classification: string;
+    caveat: string;
+}
+
+/** Banner colours for each classification marking. */
+const CLASSIFICATIONS: { key: string; background: string; color: string }[] = [
+    { key: "UNCLASSIFIED", background: "#007a33", color: "#fff" },
+    { key: "CUI", background: "#502b85", color: "#fff" },
+    { key: "CONFIDENTIAL", background: "#0033a0", color: "#fff" },
+    { key: "SECRET", background: "#c8102e", color: "#fff" },
+    { key: "TOP SECRET", background: "#ff8c00", color: "#000" },
+];
+/** Banner used for a caveat without a classification. */
+const CAVEAT_ONLY_BANNER = { background: "#555", color: "#fff" };
+
+const STORAGE_KEY = "nxgen.snapshot.v1";
+const MAP_BACKGROUND = "#e5e3df";
+
+/**
+ * Load the title, classification and caveat used last time.
+ */
+function loadSettings(): SnapshotSettings {
+    const defaults: SnapshotSettings = { title: "NXGEN network", classification: "", caveat: "" };
+    try {
+        return { ...defaults, ...JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}") };
+    } catch {
+        return defaults;
+    }
+}
+
+/**
+ * Banner text and colours: "SECRET//REL TO USA, FVEY", or null with neither marking.
+ */
+function bannerFor(settings: SnapshotSettings) {
+    const text = [settings.classification, settings.caveat.trim()].filter(Boolean).join("//");
+    if (!text) return null;
+    const colors = CLASSIFICATIONS.find(c => c.key === settings.classification) ?? CAVEAT_ONLY_BANNER;
+    return { text, background: colors.background, color: colors.color };
+}
+
+/**
+ * Encode a canvas as a PNG or JPEG Blob.
+ */
+function canvasToBlob(canvas: HTMLCanvasElement, type: string): Promise<Blob> {
+    return new Promise((resolve, reject) => canvas.toBlob(
+        blob => blob ? resolve(blob) : reject(new Error("The image is too large to encode; try a lower resolution.")),
+        type, 0.92));
+}
+
+/**
+ * Adds the snapshot panel to a container.
+ */
+export function addSnapshotPanel(container: HTMLElement, host: SnapshotHost) {
+    const settings = loadSettings();
+
+    const panel = document.createElement("div");
+    panel.id = "snapshot-box";
+    panel.className = "legend-box minimized";
+    panel.style.cssText = `margin-top: 8px; width: 220px; font: 13px system-ui, sans-serif;`;
+    panel.innerHTML = `
+        <div class="legend-header"><h2 style="font-size:16px; margin:0;">Snapshot</h2><button class="toggle-btn" id="snapshot-toggle">+</button></div>
+        <label>Title <input id="snapshot-title" type="text" value="${escapeHtml(settings.title)}" style="flex:1; min-width:0;"></label>
+        <label>Class.
+            <select id="snapshot-classification" style="flex:1;">
+                <option value="">(none)</option>
+                ${CLASSIFICATIONS.map(c => `<option value="${c.key}" ${c.key === settings.classification ? "selected" : ""}>${c.key}</option>`).join('')}
+            </select>
+        </label>
+        <label>Caveat <input id="snapshot-caveat" type="text" value="${escapeHtml(settings.caveat)}" placeholder="e.g. REL TO USA, FVEY" style="flex:1; min-width:0;"></label>
+        <label>Size
+            <select id="snapshot-scale" style="flex:1;">
+                <option value="1">1x</option>
+                <option value="2" selected>2x</option>
+                <option value="4">4x</option>
+            </select>
+            <select id="snapshot-format" style="flex:1;">
+                <option value="png">PNG</option>
+                <option value="pdf">PDF</option>
+            </select>
+        </label>
+        <div class="button-section">
+            <button id="snapshot-btn">Take snapshot</button>
+        </div>
+        <div id="snapshot-status" style="color:#555;"></div>
+    `;
+    container.appendChild(panel);
+
+    const titleInput = panel.querySelector<HTMLInputElement>("#snapshot-title")!;
+    const classificationSelect = panel.querySelector<HTMLSelectElement>("#snapshot-classification")!;
+    const caveatInput = panel.querySelector<HTMLInputElement>("#snapshot-caveat")!;
+    const scaleSelect = panel.querySelector<HTMLSelectElement>("#snapshot-scale")!;
+    const formatSelect = panel.querySelector<HTMLSelectElement>("#snapshot-format")!;
+    const button = panel.querySelector<HTMLButtonElement>("#snapshot-btn")!;
+    const status = panel.querySelector<HTMLDivElement>("#snapshot-status")!;
+
+    const takeSnapshot = async () => {
+        const current: SnapshotSettings = {
+            title: titleInput.value.trim(),
+            classification: classificationSelect.value,
+            caveat: caveatInput.value,
+        };
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(current));
+        const scale = Number(scaleSelect.value);
+        const camera = host.getCamera();
+        const notes: string[] = [];
+
+        button.disabled = true;
+        status.textContent = "Rendering…";
+        try {
+            // Static maps are top-down only, so a tilted or rotated view gets a plain background.
+            let basemap: HTMLCanvasElement | null = null;
+            if (!host.apiKey) {
+                notes.push("no API key for the basemap");
+            } else if (camera.tilt || camera.heading) {
+                notes.push("basemap left out for a tilted or rotated view");
+            } else {
+                const { mapType, styles } = host.getBasemap();
+                basemap = await renderStaticBasemap(camera, scale, host.apiKey, mapType, styles)
+                    .catch(err => {
+                        notes.push(`basemap unavailable (${(err as Error).message})`);
+                        return null;
+                    });
+            }
+            const layers = await renderLayers(camera, host.buildLayers(), scale);
+
+            const canvas = composeSnapshot(basemap, layers, camera, {
+                scale,
+                title: current.title,
+                timestamp: formatTime(Date.now()),
+                banner: bannerFor(current),
+                legend: host.getLegend(),
+                attribution: basemap ? "Map data ©Google" : "",
+                background: MAP_BACKGROUND,
+            });
+
+            const stem = fileStem("nxgen-snapshot");
+            if (formatSelect.value === "pdf") {
+                const jpeg = new Uint8Array(await (await canvasToBlob(canvas, "image/jpeg")).arrayBuffer());
+                // Scale the DPI with the resolution so the page stays at screen size.
+                downloadBlob(`${stem}.pdf`, jpegToPdf(jpeg, canvas.width, canvas.height, 96 * scale));
+            } else {
+                downloadBlob(`${stem}.png`, await canvasToBlob(canvas, "image/png"));
+            }
+            status.textContent = `Saved ${canvas.width}×${canvas.height}${notes.length ? `; ${notes.join("; ")}` : ""}.`;
+        } catch (err) {
+            status.textContent = `Snapshot failed: ${(err as Error).message}`;
+        } finally {
+            button.disabled = false;
+        }
+    };
+
+    button.addEventListener("click", takeSnapshot);
+
+    const toggle = panel.querySelector<HTMLButtonElement>("#snapshot-toggle")!;
+    toggle.addEventListener("click", () => {
+        panel.classList.toggle("minimized");
+        toggle.textContent = panel.classList.contains("minimized") ? "+" : "-";
+    });
+}
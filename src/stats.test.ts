@@ -0,0 +1,96 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Tests for the network statistics behind the dashboard.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compileTaxonomy } from './taxonomy';
+import { createContext, buildModel } from './pipeline';
+import type { RawPoint, RawConnection, SourceData } from './pipeline';
+import { computeStats, countValues, groupMatrix } from './stats';
+
+const taxonomy = compileTaxonomy({
+    version: 1,
+    defaultGroup: "BLUE",
+    defaultConnection: { color: [128, 128, 128, 200], height: 0.5 },
+    groups: [
+        { key: "RED", label: "Red", description: "Forward bases", color: [200, 0, 0, 220], members: { names: ["A"] } },
+        { key: "BLUE", label: "Blue", description: "Any point in no other group", color: [0, 120, 255, 220] },
+    ],
+    connectionTypes: [
+        { key: "N", label: "Blue", description: "Terrestrial network circuit", color: [0, 128, 200, 220] },
+        { key: "HF", label: "Pink", description: "High-frequency radio", color: [255, 105, 180, 220] },
+    ],
+    ierTypes: [{ key: "X", label: "X" }],
+});
+
+function point(name: string, lng: number, lat: number): RawPoint {
+    return { type: "Feature", properties: { name }, geometry: { type: "Point", coordinates: [lng, lat] } };
+}
+
+function link(from: string, to: string, type = "N", extra: RawConnection = {}): RawConnection {
+    return { from, to, Connection_type: type, ...extra };
+}
+
+/** A is RED; B, C and the unconnected D are BLUE. Each link spans one degree along a meridian or the equator. */
+const data: SourceData = {
+    points: [point("A", 0, 0), point("B", 1, 0), point("C", 1, 1), point("D", 5, 5)],
+    connections: [
+        link("A", "B"),
+        link("B", "A", "HF", { IER: ["X"] }),
+        link("B", "C", "HF", { IER: ["X", "Y"] }),
+    ],
+};
+const model = buildModel(data, createContext(data, taxonomy));
+
+describe("computeStats", () => {
+    const stats = computeStats({ edges: model.edges, nodes: model.nodes, allEdges: model.edges, groupOrder: ["RED", "BLUE"] });
+
+    it("counts links, site pairs, types and IER categories", () => {
+        expect(stats.linkCount).toBe(3);
+        expect(stats.sitePairCount).toBe(2);
+        expect(stats.byType).toEqual([["HF", 2], ["N", 1]]);
+        expect(stats.byIer).toEqual([["X", 2], ["Y", 1]]);
+    });
+
+    it("ranks sites by degree", () => {
+        expect(stats.degrees).toEqual([["B", 3], ["A", 2], ["C", 1]]);
+    });
+
+    it("averages great-circle lengths", () => {
+        // Every link spans one degree: about 111.2 km.
+        expect(stats.averageKm).toBeCloseTo(111.2, 0);
+    });
+
+    it("lists shown sites without any link in the data", () => {
+        expect(stats.unconnected).toEqual(["D"]);
+        const filtered = computeStats({ edges: model.edges.slice(0, 1), nodes: model.nodes, allEdges: model.edges, groupOrder: [] });
+        expect(filtered.unconnected).toEqual(["D"]);
+        expect(filtered.averageKm).toBeCloseTo(111.2, 0);
+    });
+
+    it("has nothing to average without links", () => {
+        expect(computeStats({ edges: [], nodes: [], allEdges: [], groupOrder: [] }).averageKm).toBeNull();
+    });
+});
+
+describe("groupMatrix", () => {
+    it("counts links between groups either way round, in the given order", () => {
+        expect(groupMatrix(model.edges, ["RED", "BLUE"])).toEqual({
+            groups: ["RED", "BLUE"],
+            counts: [[0, 2], [2, 1]],
+        });
+    });
+
+    it("keeps groups missing from the order and drops groups without links", () => {
+        expect(groupMatrix(model.edges, ["GREEN"]).groups).toEqual(["BLUE", "RED"]);
+    });
+});
+
+describe("countValues", () => {
+    it("sorts by count, then by name", () => {
+        expect(countValues(["b", "a", "b", "c", "a"])).toEqual([["a", 2], ["b", 2], ["c", 1]]);
+    });
+});
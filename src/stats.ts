@@ -0,0 +1,96 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Network statistics for the dashboard: link counts by connection type and IER category, a pin
+ * group × pin group matrix, site degrees, mean great-circle link length and unconnected sites.
+ *
+ * Pure module: no DOM or deck.gl references. Callers pass the links and pins that pass the
+ * current filters, so the numbers describe what is on the map.
+ */
+
+import { getPointName } from './model';
+import { distanceKm } from './geo';
+import { aggregationKey } from './pipeline';
+import type { Edge, Node } from './pipeline';
+import type { PointType } from './taxonomy';
+
+/** Link counts between pin groups; symmetric, with links within a group on the diagonal. */
+export interface GroupMatrix {
+    /** Groups with at least one link, in the order given. */
+    groups: PointType[];
+    counts: number[][];
+}
+
+export interface NetworkStats {
+    linkCount: number;
+    /** Distinct pairs of locations linked, i.e. arcs in the aggregated view. */
+    sitePairCount: number;
+    /** Most frequent first. */
+    byType: [string, number][];
+    byIer: [string, number][];
+    matrix: GroupMatrix;
+    /** Sites by number of link ends, highest first. */
+    degrees: [string, number][];
+    /** Mean great-circle length of the links, or null without links. */
+    averageKm: number | null;
+    /** Shown sites with no connection in the data at all, by name. */
+    unconnected: string[];
+}
+
+export interface StatsInput {
+    /** Links passing the filters. */
+    edges: Edge[];
+    /** Pins passing the filters. */
+    nodes: Node[];
+    /** Every link in the data, to tell unconnected sites from filtered-out ones. */
+    allEdges: Edge[];
+    /** Pin group order for the matrix, e.g. the taxonomy's. */
+    groupOrder: PointType[];
+}
+
+/**
+ * Return how many times each value occurs, most frequent first, ties by name.
+ */
+export function countValues(values: string[]): [string, number][] {
+    const counts = new Map<string, number>();
+    values.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+/**
+ * Count links between each pair of pin groups, either way round.
+ */
+export function groupMatrix(edges: Edge[], groupOrder: PointType[]): GroupMatrix {
+    const used = new Set(edges.flatMap(e => [e._sourcePinType, e._targetPinType]));
+    // Groups missing from the order go last, so no link is left out.
+    const groups = [...groupOrder, ...Array.from(used).filter(g => !groupOrder.includes(g)).sort()].filter(g => used.has(g));
+    const index = new Map(groups.map((g, i) => [g, i]));
+    const counts = groups.map(() => groups.map(() => 0));
+    edges.forEach(e => {
+        const i = index.get(e._sourcePinType)!;
+        const j = index.get(e._targetPinType)!;
+        counts[i][j] += 1;
+        if (i !== j) counts[j][i] += 1;
+    });
+    return { groups, counts };
+}
+
+/**
+ * Compute the dashboard's statistics.
+ */
+export function computeStats({ edges, nodes, allEdges, groupOrder }: StatsInput): NetworkStats {
+    const connected = new Set(allEdges.flatMap(e => [getPointName(e.from), getPointName(e.to)]));
+    const totalKm = edges.reduce((sum, e) => sum + distanceKm(e._sourcePos, e._targetPos), 0);
+
+    return {
+        linkCount: edges.length,
+        sitePairCount: new Set(edges.map(e => aggregationKey(e._sourcePos, e._targetPos))).size,
+        byType: countValues(edges.map(e => e._connType)),
+        byIer: countValues(edges.flatMap(e => e._ierTypes)),
+        matrix: groupMatrix(edges, groupOrder),
+        degrees: countValues(edges.flatMap(e => [getPointName(e.from), getPointName(e.to)])),
+        averageKm: edges.length ? totalKm / edges.length : null,
+        unconnected: Array.from(new Set(nodes.map(getPointName).filter(name => name && !connected.has(name)))).sort(),
+    };
+}
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * "Statistics" dashboard: counts by connection type and IER category, a pin group matrix, site
+ * degrees, mean link length and unconnected sites, for the links and pins the filters show.
+ * Clicking a bar, cell or site applies the matching filter to the map.
+ */
+
+import { escapeHtml } from './html';
+import { toCssColor } from './taxonomy';
+import type { RGBA, PointType } from './taxonomy';
+import type { NetworkStats } from './stats';
+
+/** A dashboard element the user clicked, as a filter to apply. */
+export type StatsSelection =
+    | { kind: "type"; key: string }
+    | { kind: "ier"; key: string }
+    | { kind: "groups"; groups: PointType[] }
+    /** Show only the links of a site. */
+    | { kind: "site"; name: string }
+    /** Find a site on the map; used for sites without links. */
+    | { kind: "locate"; name: string };
+
+/** What the dashboard needs from the map. */
+export interface StatsHost {
+    getStats(): NetworkStats;
+    typeColor(key: string): RGBA;
+    groupLabel(key: PointType): string;
+    groupColor(key: PointType): RGBA;
+    ierLabel(key: string): string;
+    onSelect(selection: StatsSelection): void;
+}
+
+export interface StatsTool {
+    /** Recompute after the filters or the data changed. */
+    refresh(): void;
+}
+
+const TOP_SITES = 10;
+const BAR_COLOR: RGBA = [120, 120, 120, 255];
+
+/**
+ * One clickable bar chart row.
+ */
+function barRow(kind: string, key: string, label: string, count: number, max: number, color: RGBA): string {
+    return `
+        <div class="stats-select" data-kind="${kind}" data-key="${escapeHtml(key)}" title="Show only ${escapeHtml(label)}"
+            style="display:flex; align-items:center; gap:6px; cursor:pointer;">
+            <span style="width:60px; overflow:hidden; text-overflow:ellipsis; white-space:nowrap;">${escapeHtml(label)}</span>
+            <span style="flex:1;"><span style="display:block; height:10px; width:${(100 * count / max).toFixed(1)}%; background:${toCssColor(color)};"></span></span>
+            <span style="min-width:24px; text-align:right;">${count}</span>
+        </div>
+    `;
+}
+
+/**
+ * Adds the statistics dashboard to a container.
+ * @returns Hooks for refreshing it when the filters or data change.
+ */
+export function addStatsPanel(container: HTMLElement, host: StatsHost): StatsTool {
+    const panel = document.createElement("div");
+    panel.id = "stats-box";
+    panel.className = "legend-box minimized";
+    panel.style.cssText = `margin-top: 8px; width: 300px; font: 13px system-ui, sans-serif;`;
+    panel.innerHTML = `
+        <div class="legend-header"><h2 style="font-size:16px; margin:0;">Statistics</h2><button class="toggle-btn" id="stats-toggle">+</button></div>
+        <div id="stats-results" style="display:flex; flex-direction:column; gap:8px; max-height:60vh; overflow-y:auto;"></div>
+    `;
+    container.appendChild(panel);
+
+    const results = panel.querySelector<HTMLDivElement>("#stats-results")!;
+    let shownHtml = "";
+
+    const matrixTable = ({ groups, counts }: NetworkStats["matrix"]) => {
+        const swatch = (g: PointType) =>
+            `<span class="swatch" style="background:${toCssColor(host.groupColor(g))};" title="${escapeHtml(host.groupLabel(g))}"></span>`;
+        return `
+            <table style="border-collapse:collapse; font-size:11px;">
+                <tr><th></th>${groups.map(g => `<th>${swatch(g)}</th>`).join('')}</tr>
+                ${groups.map((row, i) => `
+                    <tr>
+                        <th style="text-align:left; white-space:nowrap;">${swatch(row)} ${escapeHtml(host.groupLabel(row))}</th>
+                        ${groups.map((col, j) => counts[i][j] === 0
+                            ? `<td style="text-align:center; color:#ccc;">·</td>`
+                            : `<td class="stats-select" data-kind="groups" data-key="${escapeHtml(row)}" data-key2="${escapeHtml(col)}"
+                                style="text-align:center; cursor:pointer; padding:1px 3px;"
+                                title="${escapeHtml(host.groupLabel(row))} – ${escapeHtml(host.groupLabel(col))}: ${counts[i][j]} links. Click to show only these groups.">${counts[i][j]}</td>`,
+                        ).join('')}
+                    </tr>
+                `).join('')}
+            </table>
+        `;
+    };
+
+    const render = () => {
+        // Statistics are only worth computing while the dashboard is open.
+        if (panel.classList.contains("minimized")) return;
+
+        const stats = host.getStats();
+        const maxType = Math.max(1, ...stats.byType.map(([, n]) => n));
+        const maxIer = Math.max(1, ...stats.byIer.map(([, n]) => n));
+        const maxDegree = Math.max(1, ...stats.degrees.map(([, n]) => n));
+        const section = (title: string, body: string) => `<div><b>${title}</b>${body}</div>`;
+        const none = `<div style="color:#555;"><i>None shown.</i></div>`;
+
+        const html = `
+            <div>
+                <b>${stats.linkCount}</b> links between <b>${stats.sitePairCount}</b> site pairs;
+                mean length <b>${stats.averageKm === null ? "–" : `${Math.round(stats.averageKm).toLocaleString()} km`}</b> (great-circle).
+            </div>
+            ${section("By connection type", stats.byType.length
+                ? stats.byType.map(([key, n]) => barRow("type", key, key, n, maxType, host.typeColor(key))).join('')
+                : none)}
+            ${section("By IER category", stats.byIer.length
+                ? stats.byIer.map(([key, n]) => barRow("ier", key, host.ierLabel(key), n, maxIer, BAR_COLOR)).join('')
+                : none)}
+            ${section("Links between pin groups", stats.matrix.groups.length ? matrixTable(stats.matrix) : none)}
+            ${section(`Most connected sites (top ${TOP_SITES})`, stats.degrees.length
+                ? stats.degrees.slice(0, TOP_SITES).map(([name, n]) => barRow("site", name, name, n, maxDegree, BAR_COLOR)).join('')
+                : none)}
+            ${section(`Sites without connections (${stats.unconnected.length})`, stats.unconnected.length
+                ? `<div>${stats.unconnected.map(name => `<a href="#" class="stats-select" data-kind="locate" data-key="${escapeHtml(name)}" title="Find on the map">${escapeHtml(name)}</a>`).join(', ')}</div>`
+                : none)}
+        `;
+        // Redraws during animations change nothing here; keep the DOM, and any hover, as it is.
+        if (html !== shownHtml) results.innerHTML = shownHtml = html;
+    };
+
+    results.addEventListener("click", e => {
+        const target = (e.target as HTMLElement).closest<HTMLElement>(".stats-select");
+        if (!target) return;
+        e.preventDefault();
+        const { kind, key, key2 } = target.dataset;
+        if (kind === "type" || kind === "ier") host.onSelect({ kind, key: key! });
+        else if (kind === "groups") host.onSelect({ kind, groups: Array.from(new Set([key!, key2!])) });
+        else if (kind === "site" || kind === "locate") host.onSelect({ kind, name: key! });
+    });
+
+    const toggle = panel.querySelector<HTMLButtonElement>("#stats-toggle")!;
+    toggle.addEventListener("click", () => {
+        panel.classList.toggle("minimized");
+        toggle.textContent = panel.classList.contains("minimized") ? "+" : "-";
+        render();
+    });
+
+    return { refresh: render };
+}
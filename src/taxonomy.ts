@@ -0,0 +1,168 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Network taxonomy: pin groups, connection types and IER categories.
+ * - Loaded from `database/taxonomy.json` next to the data files.
+ * - Drives group membership, colours, arc heights, legend labels and filters.
+ *
+ * Group membership is resolved in this order (first match wins):
+ *   1. the feature's own `group` property, when it names a known group;
+ *   2. an exact entry in a group's `members.names`;
+ *   3. the first group whose `members.patterns` regex matches the name;
+ *   4. the first group whose `members.properties` all equal the feature's properties (e.g. `type`);
+ *   5. `defaultGroup`.
+ */
+
+import { getProp, getPointName } from './model';
+
+// ---------------------- Types ----------------------
+
+export type RGBA = [number, number, number, number];
+
+/** Key of a pin group, e.g. "TURQUOISE_GROUP". */
+export type PointType = string;
+
+/** Rules deciding which points belong to a group. */
+export interface MembershipRules {
+    /** Exact point names. */
+    names?: string[];
+    /** Regular expressions tested against the point name. */
+    patterns?: string[];
+    /** Property values that must all match, e.g. `{ "type": "TMR" }`. */
+    properties?: Record<string, string>;
+}
+
+export interface GroupDefinition {
+    key: PointType;
+    label: string;
+    /** Shown in the legend; required, as the label is only a colour name. */
+    description: string;
+    color: RGBA;
+    members?: MembershipRules;
+}
+
+export interface ConnectionTypeDefinition {
+    key: string;
+    label: string;
+    /** Shown in the legend; required, as the label is only a colour name. */
+    description: string;
+    color: RGBA;
+    /** Arc height passed to the ArcLayer; falls back to `defaultConnection.height`. */
+    height?: number;
+    /** Relative speed of the flow animation; falls back to 1. A connection's own `rate` takes precedence. */
+    flowSpeed?: number;
+}
+
+export interface IerTypeDefinition {
+    key: string;
+    label: string;
+    description?: string;
+}
+
+/** Shape of `database/taxonomy.json`. */
+export interface TaxonomyConfig {
+    version: number;
+    defaultGroup: PointType;
+    defaultConnection: { color: RGBA; height: number };
+    groups: GroupDefinition[];
+    connectionTypes: ConnectionTypeDefinition[];
+    ierTypes: IerTypeDefinition[];
+}
+
+/** A taxonomy with lookups prepared for per-feature resolution. */
+export interface Taxonomy extends TaxonomyConfig {
+    groupByKey: Map<PointType, GroupDefinition>;
+    groupByName: Map<string, PointType>;
+    groupPatterns: { key: PointType; regex: RegExp }[];
+    connTypeByKey: Map<string, ConnectionTypeDefinition>;
+}
+
+// ---------------------- Compilation ----------------------
+
+/**
+ * Prepare lookups for a taxonomy config. Invalid patterns are skipped here;
+ * `validateTaxonomy()` reports them.
+ */
+export function compileTaxonomy(config: TaxonomyConfig): Taxonomy {
+    const groupByName = new Map<string, PointType>();
+    const groupPatterns: { key: PointType; regex: RegExp }[] = [];
+
+    config.groups.forEach(group => {
+        group.members?.names?.forEach(name => {
+            if (!groupByName.has(name)) groupByName.set(name, group.key);
+        });
+        group.members?.patterns?.forEach(pattern => {
+            try {
+                groupPatterns.push({ key: group.key, regex: new RegExp(pattern) });
+            } catch {
+                // Reported by validateTaxonomy().
+            }
+        });
+    });
+
+    return {
+        ...config,
+        groupByKey: new Map(config.groups.map(g => [g.key, g])),
+        groupByName,
+        groupPatterns,
+        connTypeByKey: new Map(config.connectionTypes.map(t => [t.key, t])),
+    };
+}
+
+// ---------------------- Resolution ----------------------
+
+/**
+ * Return the group whose membership rules match a point, or null when only the default applies.
+ */
+export function matchGroup(taxonomy: Taxonomy, d: any): PointType | null {
+    const explicit = getProp(d, "group");
+    if (typeof explicit === "string" && taxonomy.groupByKey.has(explicit)) return explicit;
+
+    const name = getPointName(d);
+    const byName = taxonomy.groupByName.get(name);
+    if (byName) return byName;
+
+    const byPattern = taxonomy.groupPatterns.find(p => p.regex.test(name));
+    if (byPattern) return byPattern.key;
+
+    const byProperties = taxonomy.groups.find(g => {
+        const props = g.members?.properties;
+        return props && Object.keys(props).length > 0 &&
+            Object.entries(props).every(([key, value]) => String(getProp(d, key) ?? "") === value);
+    });
+    return byProperties?.key ?? null;
+}
+
+/**
+ * Return the group for a point, falling back to the taxonomy's default group.
+ */
+export function getGroup(taxonomy: Taxonomy, d: any): PointType {
+    return matchGroup(taxonomy, d) ?? taxonomy.defaultGroup;
+}
+
+/**
+ * Return the RGBA colour of a group, or of the default group for unknown keys.
+ */
+export function getGroupColor(taxonomy: Taxonomy, key: PointType): RGBA {
+    return (taxonomy.groupByKey.get(key) ?? taxonomy.groupByKey.get(taxonomy.defaultGroup))?.color ?? [0, 120, 255, 220];
+}
+
+/**
+ * Return colour, arc height and flow speed for a normalized connection type.
+ */
+export function getConnectionStyle(taxonomy: Taxonomy, connType: string): { color: RGBA; height: number; flowSpeed: number } {
+    const def = taxonomy.connTypeByKey.get(connType);
+    return {
+        color: def?.color ?? taxonomy.defaultConnection.color,
+        height: def?.height ?? taxonomy.defaultConnection.height,
+        flowSpeed: def?.flowSpeed ?? 1,
+    };
+}
+
+/**
+ * Format an RGBA tuple as a CSS `rgb()` colour for legend swatches.
+ */
+export function toCssColor([r, g, b]: RGBA): string {
+    return `rgb(${r},${g},${b})`;
+}
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Time model for connections and points with optional `start`/`end` (ISO-8601) fields.
+ * A record without `start` has always existed; one without `end` still exists.
+ *
+ * Pure module: no DOM or deck.gl references.
+ */
+
+import { getProp } from './model';
+
+/** When a record exists, in epoch milliseconds; open ends are -Infinity/Infinity. */
+export interface TimeSpan {
+    start: number;
+    end: number;
+}
+
+/** The time window shown on the map, in epoch milliseconds. */
+export interface TimeWindow {
+    start: number;
+    end: number;
+}
+
+/** Earliest and latest finite times in the data. */
+export interface TimeExtent {
+    min: number;
+    max: number;
+}
+
+/**
+ * GPU filter values are float32, so times are sent as minutes from an origin near the data
+ * and clamped to this bound, which stands for an open end. Float32 keeps whole minutes up to 2^24.
+ */
+export const TIME_UNBOUNDED = 1e7;
+
+const MINUTE_MS = 60 * 1000;
+
+// ---------------------- Parsing ----------------------
+
+/**
+ * Parse an ISO-8601 date or date-time.
+ * @returns Epoch milliseconds, undefined if the value is absent, or null if it can't be parsed.
+ */
+export function parseTime(value: unknown): number | null | undefined {
+    if (value === undefined || value === null || value === "") return undefined;
+    if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}/.test(value)) return null;
+    const ms = Date.parse(value);
+    return Number.isNaN(ms) ? null : ms;
+}
+
+/**
+ * The time span of a connection or point. Unparseable times count as open ends;
+ * validation reports them.
+ */
+export function getTimeSpan(d: any): TimeSpan {
+    return {
+        start: parseTime(getProp(d, "start")) ?? -Infinity,
+        end: parseTime(getProp(d, "end")) ?? Infinity,
+    };
+}
+
+/**
+ * The span covering all of `spans`, e.g. for pins drawn as one marker.
+ */
+export function unionSpan(spans: TimeSpan[]): TimeSpan {
+    return {
+        start: Math.min(...spans.map(s => s.start)),
+        end: Math.max(...spans.map(s => s.end)),
+    };
+}
+
+/**
+ * Earliest and latest finite start or end, or null when no record has a time.
+ */
+export function timeExtent(spans: TimeSpan[]): TimeExtent | null {
+    const times = spans.flatMap(s => [s.start, s.end]).filter(Number.isFinite);
+    if (times.length === 0) return null;
+    return { min: Math.min(...times), max: Math.max(...times) };
+}
+
+// ---------------------- Windows ----------------------
+
+/**
+ * True if a record exists at some point in the window (null means all times).
+ */
+export function isInWindow(span: TimeSpan, window: TimeWindow | null): boolean {
+    return !window || (span.start <= window.end && span.end >= window.start);
+}
+
+/**
+ * A time as GPU filter minutes from `origin`, clamped to ±TIME_UNBOUNDED.
+ */
+export function encodeTime(ms: number, origin: number): number {
+    return Math.max(-TIME_UNBOUNDED, Math.min(TIME_UNBOUNDED, (ms - origin) / MINUTE_MS));
+}
+
+/**
+ * Format a time as "2024-01-31 14:05Z".
+ */
+export function formatTime(ms: number): string {
+    return new Date(ms).toISOString().slice(0, 16).replace("T", " ") + "Z";
+}
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Timeline control at the bottom of the map: scrub or play a time window across the data's
+ * `start`/`end` times. Hidden while no connection or point has a time.
+ */
+
+import { formatTime } from './timeline';
+import type { TimeExtent, TimeWindow } from './timeline';
+
+/** What the timeline control needs from the map. */
+export interface TimelineHost {
+    /** Extent of the data's times, or null when the data has none. */
+    getExtent(): TimeExtent | null;
+    /** Called with the new window, or null to show all times. */
+    onChange(window: TimeWindow | null): void;
+}
+
+export interface TimelineControl {
+    /** Re-read the extent after the data changes. */
+    refresh(): void;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const WINDOW_WIDTHS: { label: string; ms: number | null }[] = [
+    { label: "All times", ms: null },
+    { label: "1 hour", ms: HOUR_MS },
+    { label: "6 hours", ms: 6 * HOUR_MS },
+    { label: "1 day", ms: DAY_MS },
+    { label: "7 days", ms: 7 * DAY_MS },
+    { label: "30 days", ms: 30 * DAY_MS },
+];
+
+/** Playback speeds, as data time per second of real time. */
+const SPEEDS: { label: string; ms: number }[] = [
+    { label: "1 h/s", ms: HOUR_MS },
+    { label: "6 h/s", ms: 6 * HOUR_MS },
+    { label: "1 d/s", ms: DAY_MS },
+    { label: "7 d/s", ms: 7 * DAY_MS },
+];
+
+/**
+ * Adds the timeline control to the page.
+ */
+export function addTimelineControl(host: TimelineHost): TimelineControl {
+    let extent: TimeExtent | null = null;
+    /** End of the window; the window is [cursor - width, cursor]. Starts at the latest time. */
+    let cursor = Infinity;
+    let width: number | null = null;
+    let speed = SPEEDS[2].ms;
+    let playFrame: number | null = null;
+
+    const container = document.createElement("div");
+    container.id = "timeline-control";
+    container.style.cssText = `
+        position: absolute; z-index: 5; bottom: 24px; left: 50%; transform: translateX(-50%);
+        width: 560px; max-width: calc(100vw - 40px); display: none; flex-direction: column; gap: 6px;
+        background: #fff; border-radius: 8px; box-shadow: 0 2px 8px rgba(0,0,0,.15);
+        padding: 8px 10px; font: 13px system-ui, sans-serif;
+    `;
+    container.innerHTML = `
+        <div style="display:flex; align-items:center; gap:8px;">
+            <button id="timeline-play" title="Play/Pause" style="width:32px;">&#x25B6;</button>
+            <input id="timeline-slider" type="range" style="flex:1;">
+        </div>
+        <div style="display:flex; align-items:center; gap:8px;">
+            <label>Window
+                <select id="timeline-width">
+                    ${WINDOW_WIDTHS.map((w, i) => `<option value="${i}">${w.label}</option>`).join('')}
+                </select>
+            </label>
+            <label>Speed
+                <select id="timeline-speed">
+                    ${SPEEDS.map((s, i) => `<option value="${i}" ${s.ms === speed ? "selected" : ""}>${s.label}</option>`).join('')}
+                </select>
+            </label>
+            <span id="timeline-label" style="margin-left:auto; color:#333;"></span>
+        </div>
+    `;
+    document.body.appendChild(container);
+
+    const playBtn = container.querySelector<HTMLButtonElement>("#timeline-play")!;
+    const slider = container.querySelector<HTMLInputElement>("#timeline-slider")!;
+    const widthSelect = container.querySelector<HTMLSelectElement>("#timeline-width")!;
+    const speedSelect = container.querySelector<HTMLSelectElement>("#timeline-speed")!;
+    const label = container.querySelector<HTMLSpanElement>("#timeline-label")!;
+
+    const currentWindow = (): TimeWindow | null => width === null ? null : { start: cursor - width, end: cursor };
+
+    const update = () => {
+        const shown = currentWindow();
+        slider.disabled = playBtn.disabled = shown === null;
+        slider.value = String(cursor);
+        label.textContent = shown ? `${formatTime(shown.start)} – ${formatTime(shown.end)}` : "Showing all times";
+        host.onChange(shown);
+    };
+
+    const stop = () => {
+        if (playFrame !== null) cancelAnimationFrame(playFrame);
+        playFrame = null;
+        playBtn.innerHTML = "&#x25B6;";
+    };
+
+    const play = () => {
+        if (!extent) return;
+        // Start over when play is pressed at the end.
+        if (cursor >= extent.max) cursor = extent.min;
+        playBtn.innerHTML = "&#x23F8;";
+        let last = performance.now();
+        const step = (now: number) => {
+            cursor = Math.min(extent!.max, cursor + (speed * (now - last)) / 1000);
+            last = now;
+            update();
+            if (cursor >= extent!.max) stop();
+            else playFrame = requestAnimationFrame(step);
+        };
+        playFrame = requestAnimationFrame(step);
+    };
+
+    playBtn.addEventListener("click", () => playFrame === null ? play() : stop());
+    slider.addEventListener("input", () => {
+        stop();
+        cursor = Number(slider.value);
+        update();
+    });
+    widthSelect.addEventListener("change", () => {
+        width = WINDOW_WIDTHS[Number(widthSelect.value)].ms;
+        if (width === null) stop();
+        update();
+    });
+    speedSelect.addEventListener("change", () => {
+        speed = SPEEDS[Number(speedSelect.value)].ms;
+    });
+
+    const refresh = () => {
+        extent = host.getExtent();
+        container.style.display = extent ? "flex" : "none";
+        if (!extent) {
+            stop();
+            if (width !== null) {
+                width = null;
+                widthSelect.value = "0";
+                host.onChange(null);
+            }
+            return;
+        }
+        slider.min = String(extent.min);
+        slider.max = String(extent.max);
+        slider.step = String(60 * 1000);
+        cursor = Math.min(Math.max(cursor, extent.min), extent.max);
+        update();
+    };
+
+    refresh();
+    return { refresh };
+}
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Tour picker and player controls, plus the caption overlay tours write to.
+ */
+
+import { escapeHtml } from './html';
+import { createTourPlayer } from './tours';
+import type { Tour, TourHost, TourPlayer } from './tours';
+
+const BUTTON_STYLE = `padding:6px 10px; border:1px solid #ccc; border-radius:6px; background:#f7f7f7; cursor:pointer;`;
+
+/**
+ * Adds the caption overlay shown at the bottom centre of the map.
+ * @returns A setter; null or empty text hides the caption.
+ */
+function addCaptionOverlay(): (text: string | null) => void {
+    const caption = document.createElement("div");
+    caption.id = "tour-caption";
+    caption.style.cssText = `
+        position: absolute; z-index: 10; bottom: 40px; left: 50%; transform: translateX(-50%);
+        max-width: 60vw; padding: 10px 16px; border-radius: 8px;
+        background: rgba(0,0,0,.8); color: #fff; font: 16px system-ui, sans-serif; text-align: center;
+        display: none; pointer-events: none;
+    `;
+    document.body.appendChild(caption);
+    return text => {
+        caption.textContent = text ?? "";
+        caption.style.display = text ? "block" : "none";
+    };
+}
+
+/**
+ * Adds the tour panel: a picker listing the tours and play/pause/next/previous/restart controls.
+ * @param container - Element the panel is appended to.
+ * @param tours - Available tours, in picker order.
+ * @param host - Map access for the player; captions are handled by the panel.
+ * @returns The player, for callers that start tours themselves.
+ */
+export function addTourPanel(container: HTMLElement, tours: Tour[], host: Omit<TourHost, "setCaption">): TourPlayer {
+    const setCaption = addCaptionOverlay();
+
+    const panel = document.createElement("div");
+    panel.id = "tour-panel";
+    panel.style.cssText = `
+        background:#fff; border-radius:8px; box-shadow:0 2px 8px rgba(0,0,0,.15); padding:8px 10px;
+        font: 13px system-ui, sans-serif; display:flex; flex-direction:column; gap:6px; width: 230px;
+    `;
+    panel.innerHTML = `
+        <select id="tour-select" style="padding:5px; border:1px solid #ccc; border-radius:6px;">
+            <option value="">${tours.length ? 'Choose a tour…' : 'No tours available'}</option>
+            ${tours.map((t, i) => `<option value="${i}" title="${escapeHtml(t.description ?? '')}">${escapeHtml(t.title)}</option>`).join('')}
+        </select>
+        <div style="display:flex; gap:4px; align-items:center;">
+            <button id="tour-restart" title="Restart" style="${BUTTON_STYLE}">&#x23EE;</button>
+            <button id="tour-prev" title="Previous step" style="${BUTTON_STYLE}">&#x25C0;</button>
+            <button id="tour-play" title="Play" style="${BUTTON_STYLE}">&#x25B6;</button>
+            <button id="tour-next" title="Next step" style="${BUTTON_STYLE}">&#x25B6;&#x25B6;</button>
+            <span id="tour-progress" style="margin-left:auto; color:#555;"></span>
+        </div>
+    `;
+    container.appendChild(panel);
+
+    const select = panel.querySelector<HTMLSelectElement>("#tour-select")!;
+    const playButton = panel.querySelector<HTMLButtonElement>("#tour-play")!;
+    const progress = panel.querySelector<HTMLSpanElement>("#tour-progress")!;
+    const controls = Array.from(panel.querySelectorAll<HTMLButtonElement>("button"));
+
+    const player = createTourPlayer({ ...host, setCaption }, ({ tour, index, playing }) => {
+        controls.forEach(btn => { btn.disabled = !tour; });
+        playButton.innerHTML = playing ? "&#x23F8;" : "&#x25B6;";
+        playButton.title = playing ? "Pause" : "Play";
+        progress.textContent = tour ? `${index} / ${tour.steps.length}` : "";
+    });
+    player.load(null);
+
+    select.addEventListener("change", () => {
+        player.load(select.value === "" ? null : tours[Number(select.value)]);
+    });
+    playButton.addEventListener("click", () => {
+        if (player.getState().playing) player.pause(); else player.play();
+    });
+    panel.querySelector("#tour-next")?.addEventListener("click", () => player.next());
+    panel.querySelector("#tour-prev")?.addEventListener("click", () => player.previous());
+    panel.querySelector("#tour-restart")?.addEventListener("click", () => player.restart());
+
+    return player;
+}
@@ -0,0 +1,377 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Scriptable tours: a JSON step format and a player that executes it.
+ * - Steps move the camera, change filters, highlight a site or link, show captions and wait.
+ * - The player supports play/pause/next/previous/restart. Going back restores the state
+ *   captured when the tour was loaded and replays the earlier steps instantly.
+ *
+ * Tour files live in `database/tours/` and are listed in `database/tours/index.json`.
+ */
+
+// ---------------------- Tour Format ----------------------
+
+export type LatLng = { lat: number; lng: number };
+
+export type Easing = "linear" | "easeInCubic" | "easeOutCubic" | "easeInOutCubic";
+
+/** Change to one filter set: `only` replaces the set, then `enable`/`disable` add and remove keys. */
+export interface FilterChange {
+    only?: string[];
+    enable?: string[];
+    disable?: string[];
+}
+
+/** Camera movement shared by the `flyTo` and `camera` steps. Omitted values keep the current camera. */
+interface CameraMove {
+    zoom?: number;
+    tilt?: number;
+    heading?: number;
+    /** Milliseconds; 0 jumps straight to the end position. */
+    duration?: number;
+    easing?: Easing;
+}
+
+/** Element to emphasise on the map; an empty highlight clears it. */
+export interface TourHighlight {
+    point?: string;
+    link?: { from: string; to: string; type?: string };
+}
+
+export type TourStep =
+    | ({ type: "flyTo"; target: string | LatLng; arcZoom?: number } & CameraMove)
+    | ({ type: "camera" } & CameraMove)
+    | { type: "filters"; connTypes?: FilterChange; pinGroups?: FilterChange; ierTypes?: FilterChange }
+    | ({ type: "highlight" } & TourHighlight)
+    | { type: "caption"; text: string }
+    | { type: "wait"; duration: number };
+
+export interface Tour {
+    id: string;
+    title: string;
+    description?: string;
+    steps: TourStep[];
+}
+
+const STEP_TYPES = ["flyTo", "camera", "filters", "highlight", "caption", "wait"];
+const EASINGS: Record<Easing, (t: number) => number> = {
+    linear: t => t,
+    easeInCubic: t => t * t * t,
+    easeOutCubic: t => 1 - Math.pow(1 - t, 3),
+    easeInOutCubic: t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+};
+
+/**
+ * Validate and return a tour definition.
+ * @throws Error describing the first problem found.
+ */
+export function parseTour(json: any): Tour {
+    if (typeof json?.id !== "string" || typeof json?.title !== "string") {
+        throw new Error(`Tour needs string "id" and "title".`);
+    }
+    if (!Array.isArray(json.steps) || json.steps.length === 0) {
+        throw new Error(`Tour "${json.id}" has no steps.`);
+    }
+    json.steps.forEach((step: any, i: number) => {
+        const where = `Tour "${json.id}" step ${i + 1}`;
+        if (!STEP_TYPES.includes(step?.type)) throw new Error(`${where}: unknown step type ${JSON.stringify(step?.type)}.`);
+        if (step.easing !== undefined && !(step.easing in EASINGS)) throw new Error(`${where}: unknown easing "${step.easing}".`);
+        if (step.type === "flyTo" && typeof step.target !== "string" &&
+            !(typeof step.target?.lat === "number" && typeof step.target?.lng === "number")) {
+            throw new Error(`${where}: "target" must be a point name or { lat, lng }.`);
+        }
+        if (step.type === "wait" && !(typeof step.duration === "number" && step.duration >= 0)) {
+            throw new Error(`${where}: "duration" must be a non-negative number.`);
+        }
+        if (step.type === "caption" && typeof step.text !== "string") throw new Error(`${where}: "text" must be a string.`);
+    });
+    return json as Tour;
+}
+
+/**
+ * Apply a filter change to a set of keys and return the new set.
+ */
+export function applyFilterChange(current: Iterable<string>, change: FilterChange | undefined): Set<string> {
+    const next = new Set(change?.only ?? current);
+    change?.enable?.forEach(key => next.add(key));
+    change?.disable?.forEach(key => next.delete(key));
+    return next;
+}
+
+// ---------------------- Player ----------------------
+
+export interface CameraState {
+    center: LatLng;
+    zoom: number;
+    tilt: number;
+    heading: number;
+}
+
+export interface FilterState {
+    connTypes: string[];
+    pinGroups: string[];
+    ierTypes: string[];
+}
+
+/** What the player needs from the map. */
+export interface TourHost {
+    getCamera(): CameraState;
+    moveCamera(camera: CameraState): void;
+    /** Return the position of a named point, or null if there is none. */
+    resolvePoint(name: string): LatLng | null;
+    getFilters(): FilterState;
+    setFilters(filters: FilterState): void;
+    setHighlight(highlight: TourHighlight | null): void;
+    setCaption(text: string | null): void;
+}
+
+export interface TourPlayerState {
+    tour: Tour | null;
+    /** Index of the next step to run; steps before it have been applied. */
+    index: number;
+    playing: boolean;
+}
+
+export interface TourPlayer {
+    getState(): TourPlayerState;
+    load(tour: Tour | null): void;
+    play(): void;
+    pause(): void;
+    next(): void;
+    previous(): void;
+    restart(): void;
+}
+
+/**
+ * Interpolate between two headings along the shorter way round.
+ */
+function lerpHeading(from: number, to: number, t: number): number {
+    const delta = ((((to - from) % 360) + 540) % 360) - 180;
+    return from + delta * t;
+}
+
+/** Timing of an animated camera move. */
+export interface CameraAnimation {
+    /** Milliseconds. */
+    duration: number;
+    easing?: Easing;
+    /** Zoom out to this level over the first half and back in over the second. */
+    arcZoom?: number;
+}
+
+/**
+ * Animate the camera from one state to another, easing out (cubic) unless told otherwise.
+ * @param signal - Stops the animation where it is when aborted.
+ * @returns Resolves when the move has finished or was aborted.
+ */
+export function animateCamera(
+    moveCamera: (camera: CameraState) => void,
+    from: CameraState,
+    to: CameraState,
+    { duration, easing = "easeOutCubic", arcZoom }: CameraAnimation,
+    signal?: AbortSignal,
+): Promise<void> {
+    const ease = EASINGS[easing];
+    return new Promise(resolve => {
+        const start = performance.now();
+        const frame = (now: number) => {
+            if (signal?.aborted) return resolve();
+            const progress = duration > 0 ? Math.min((now - start) / duration, 1) : 1;
+            const t = ease(progress);
+
+            let zoom = from.zoom + (to.zoom - from.zoom) * t;
+            if (arcZoom !== undefined) {
+                zoom = t <= 0.5
+                    ? from.zoom + (arcZoom - from.zoom) * t * 2
+                    : arcZoom + (to.zoom - arcZoom) * (t - 0.5) * 2;
+            }
+
+            moveCamera({
+                center: {
+                    lat: from.center.lat + (to.center.lat - from.center.lat) * t,
+                    lng: from.center.lng + (to.center.lng - from.center.lng) * t,
+                },
+                zoom,
+                tilt: from.tilt + (to.tilt - from.tilt) * t,
+                heading: lerpHeading(from.heading, to.heading, t),
+            });
+
+            if (progress < 1) requestAnimationFrame(frame); else resolve();
+        };
+        requestAnimationFrame(frame);
+    });
+}
+
+/**
+ * Creates a tour player driving the given host.
+ * @param onChange - Called whenever the player state (step, playing) changes.
+ */
+export function createTourPlayer(host: TourHost, onChange: (state: TourPlayerState) => void): TourPlayer {
+    let tour: Tour | null = null;
+    let index = 0;
+    let playing = false;
+    let baseline: { camera: CameraState; filters: FilterState } | null = null;
+    let abort: AbortController | null = null;
+
+    const notify = () => onChange({ tour, index, playing });
+
+    /** Compute where a camera step ends, or null if its target cannot be resolved. */
+    const targetCamera = (step: Extract<TourStep, { type: "flyTo" | "camera" }>, from: CameraState): CameraState | null => {
+        let center = from.center;
+        if (step.type === "flyTo") {
+            const resolved = typeof step.target === "string" ? host.resolvePoint(step.target) : step.target;
+            if (!resolved) {
+                console.warn(`Tour "${tour?.id}": no point named "${step.target}"; step skipped.`);
+                return null;
+            }
+            center = resolved;
+        }
+        return {
+            center,
+            zoom: step.zoom ?? from.zoom,
+            tilt: step.tilt ?? from.tilt,
+            heading: step.heading ?? from.heading,
+        };
+    };
+
+    /** Apply a step immediately, skipping animation and waits. */
+    const applyInstant = (step: TourStep) => {
+        switch (step.type) {
+            case "flyTo":
+            case "camera": {
+                const to = targetCamera(step, host.getCamera());
+                if (to) host.moveCamera(to);
+                break;
+            }
+            case "filters": {
+                const f = host.getFilters();
+                host.setFilters({
+                    connTypes: Array.from(applyFilterChange(f.connTypes, step.connTypes)),
+                    pinGroups: Array.from(applyFilterChange(f.pinGroups, step.pinGroups)),
+                    ierTypes: Array.from(applyFilterChange(f.ierTypes, step.ierTypes)),
+                });
+                break;
+            }
+            case "highlight":
+                host.setHighlight(step.point || step.link ? { point: step.point, link: step.link } : null);
+                break;
+            case "caption":
+                host.setCaption(step.text || null);
+                break;
+            case "wait":
+                break;
+        }
+    };
+
+    /** Run a step with its animation or wait. Resolves early if the signal is aborted. */
+    const runAnimated = (step: TourStep, signal: AbortSignal): Promise<void> => {
+        if (step.type === "wait") {
+            return new Promise(resolve => {
+                const timer = setTimeout(resolve, step.duration);
+                signal.addEventListener("abort", () => { clearTimeout(timer); resolve(); });
+            });
+        }
+        if ((step.type !== "flyTo" && step.type !== "camera") || !step.duration) {
+            applyInstant(step);
+            return Promise.resolve();
+        }
+
+        const from = host.getCamera();
+        const to = targetCamera(step, from);
+        if (!to) return Promise.resolve();
+        return animateCamera(host.moveCamera, from, to, {
+            duration: step.duration,
+            easing: step.easing,
+            arcZoom: step.type === "flyTo" ? step.arcZoom : undefined,
+        }, signal);
+    };
+
+    /** Stop whatever is running. */
+    const interrupt = () => {
+        abort?.abort();
+        abort = null;
+    };
+
+    /** Play steps from the current index until the end, or until interrupted. */
+    const runFromCurrent = async () => {
+        if (!tour) return;
+        const controller = new AbortController();
+        abort = controller;
+        while (index < tour.steps.length) {
+            await runAnimated(tour.steps[index], controller.signal);
+            if (controller.signal.aborted) return;
+            index++;
+            notify();
+        }
+        playing = false;
+        abort = null;
+        notify();
+    };
+
+    /** Restore the baseline and instantly replay steps up to (not including) `target`. */
+    const goTo = (target: number) => {
+        if (!tour || !baseline) return;
+        host.moveCamera(baseline.camera);
+        host.setFilters(baseline.filters);
+        host.setHighlight(null);
+        host.setCaption(null);
+        index = 0;
+        while (index < target) applyInstant(tour.steps[index++]);
+    };
+
+    const load = (next: Tour | null) => {
+        interrupt();
+        if (tour && baseline) goTo(0);
+        tour = next;
+        index = 0;
+        playing = false;
+        baseline = next ? { camera: host.getCamera(), filters: host.getFilters() } : null;
+        notify();
+    };
+
+    const play = () => {
+        if (!tour || playing) return;
+        if (index >= tour.steps.length) goTo(0);
+        playing = true;
+        notify();
+        runFromCurrent();
+    };
+
+    const pause = () => {
+        if (!playing) return;
+        interrupt();
+        playing = false;
+        notify();
+    };
+
+    const next = () => {
+        if (!tour) return;
+        const wasPlaying = playing;
+        interrupt();
+        if (index < tour.steps.length) applyInstant(tour.steps[index++]);
+        playing = false;
+        notify();
+        if (wasPlaying && index < tour.steps.length) play();
+    };
+
+    const previous = () => {
+        if (!tour) return;
+        const wasPlaying = playing;
+        interrupt();
+        goTo(Math.max(0, index - 1));
+        playing = false;
+        notify();
+        if (wasPlaying) play();
+    };
+
+    const restart = () => {
+        if (!tour) return;
+        interrupt();
+        goTo(0);
+        playing = false;
+        play();
+    };
+
+    return { getState: () => ({ tour, index, playing }), load, play, pause, next, previous, restart };
+}
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Tests for track parsing and sampling.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseTracksJson, parseTracksCsv, sampleTrack, trackSpan } from './tracks';
+
+const T0 = Date.parse("2024-06-01T00:00Z");
+const HOUR = 60 * 60 * 1000;
+
+describe("parseTracksJson", () => {
+    it("reads tracks and sorts their fixes by time", () => {
+        const { tracks, errors } = parseTracksJson({ tracks: [{ name: "sb", fixes: [
+            { time: "2024-06-01T01:00Z", position: [1, 1] },
+            { time: "2024-06-01T00:00Z", position: [0, 0] },
+        ] }] });
+        expect(errors).toEqual([]);
+        expect(tracks).toEqual([{ name: "sb", fixes: [{ time: T0, position: [0, 0] }, { time: T0 + HOUR, position: [1, 1] }] }]);
+    });
+
+    it("reports unusable tracks and fixes", () => {
+        const { tracks, errors } = parseTracksJson([{ fixes: [] }, { name: "x", fixes: [{ time: "soon", position: [0, 0] }, { time: "2024-06-01T00:00Z", position: [200, 0] }] }]);
+        expect(tracks).toEqual([]);
+        expect(errors).toHaveLength(3);
+    });
+});
+
+describe("parseTracksCsv", () => {
+    it("finds the columns by header", () => {
+        const { tracks, errors } = parseTracksCsv("Asset,Timestamp,Latitude,Longitude\nE6-1,2024-06-01T00:00Z,40,-120\n");
+        expect(errors).toEqual([]);
+        expect(tracks[0]).toEqual({ name: "E6-1", fixes: [{ time: T0, position: [-120, 40] }] });
+    });
+
+    it("reports missing columns", () => {
+        expect(parseTracksCsv("name,time\n").errors).toEqual(["Missing column(s): lat, lng."]);
+    });
+});
+
+describe("sampleTrack", () => {
+    const track = { name: "t", fixes: [{ time: T0, position: [0, 0] as [number, number] }, { time: T0 + HOUR, position: [0, 10] as [number, number] }] };
+
+    it("interpolates between fixes and heads along the leg", () => {
+        const { position, heading } = sampleTrack(track, T0 + HOUR / 2);
+        expect(position).toEqual([0, 5]);
+        expect(heading).toBeCloseTo(0);
+    });
+
+    it("holds the first and last positions outside the track", () => {
+        expect(sampleTrack(track, T0 - HOUR).position).toEqual([0, 0]);
+        expect(sampleTrack(track, T0 + 2 * HOUR).position).toEqual([0, 10]);
+    });
+
+    it("crosses the antimeridian the short way", () => {
+        const across = { name: "t", fixes: [{ time: T0, position: [179, 0] as [number, number] }, { time: T0 + HOUR, position: [-179, 0] as [number, number] }] };
+        expect(sampleTrack(across, T0 + HOUR / 4).position[0]).toBeCloseTo(179.5);
+        expect(sampleTrack(across, T0 + HOUR * 3 / 4).position[0]).toBeCloseTo(-179.5);
+    });
+
+    it("has no heading with a single fix", () => {
+        expect(sampleTrack({ name: "t", fixes: track.fixes.slice(0, 1) }, T0).heading).toBeNull();
+        expect(trackSpan(track)).toEqual({ start: T0, end: T0 + HOUR });
+    });
+});
@@ -0,0 +1,172 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Tracks for mobile platforms (aircraft, ships, vehicles): timestamped position histories per
+ * point, read from JSON or CSV, and the interpolated position and heading at a given time.
+ *
+ * JSON: {"tracks": [{"name": "E6-1", "fixes": [{"time": "2024-06-01T12:00Z", "position": [lng, lat]}]}]}
+ * CSV:  one fix per row with name, time, lat and lng columns (header row first).
+ *
+ * Pure module: no DOM or deck.gl references.
+ */
+
+import { parseCsv } from './importers';
+import { parseTime } from './timeline';
+import { bearingDeg } from './geo';
+import type { TimeSpan } from './timeline';
+
+/** One timestamped position. */
+export interface TrackFix {
+    /** Epoch milliseconds. */
+    time: number;
+    position: [number, number];
+}
+
+/** Position history of the point called `name`, in time order. */
+export interface Track {
+    name: string;
+    fixes: TrackFix[];
+}
+
+/** Where an asset is at a time, and which way it is heading (degrees clockwise from north). */
+export interface TrackSample {
+    position: [number, number];
+    /** Null for a track with a single fix. */
+    heading: number | null;
+}
+
+/** Tracks read from a file, plus the fixes that could not be used. */
+export interface ParsedTracks {
+    tracks: Track[];
+    errors: string[];
+}
+
+/** Header spellings recognised for each CSV column, lower case with punctuation removed. */
+const CSV_COLUMNS: Record<string, string[]> = {
+    name: ["name", "asset", "track", "site", "point"],
+    time: ["time", "timestamp", "datetime", "date"],
+    lat: ["lat", "latitude", "y"],
+    lng: ["lng", "lon", "long", "longitude", "x"],
+};
+
+// ---------------------- Parsing ----------------------
+
+/**
+ * Validate one fix; `where` prefixes the error message.
+ * @throws Error describing what is wrong with it.
+ */
+function parseFix(time: unknown, lng: unknown, lat: unknown, where: string): TrackFix {
+    const ms = parseTime(time);
+    if (typeof ms !== "number") throw new Error(`${where}: "${time ?? ""}" is not an ISO-8601 time.`);
+    const x = Number(lng);
+    const y = Number(lat);
+    if (lng === "" || lat === "" || !Number.isFinite(x) || !Number.isFinite(y) || Math.abs(x) > 180 || Math.abs(y) > 90) {
+        throw new Error(`${where}: invalid position [${lng}, ${lat}].`);
+    }
+    return { time: ms, position: [x, y] };
+}
+
+/**
+ * Group fixes into tracks by name, sorted by time. Of several fixes at the same time the last one is kept.
+ */
+function buildTracks(fixes: { name: string; fix: TrackFix }[]): Track[] {
+    const byName = new Map<string, Map<number, TrackFix>>();
+    fixes.forEach(({ name, fix }) => {
+        if (!byName.has(name)) byName.set(name, new Map());
+        byName.get(name)!.set(fix.time, fix);
+    });
+    return Array.from(byName.entries()).map(([name, byTime]) => ({
+        name,
+        fixes: Array.from(byTime.values()).sort((a, b) => a.time - b.time),
+    }));
+}
+
+/**
+ * Read tracks from JSON: {"tracks": [...]} or a bare array of tracks.
+ */
+export function parseTracksJson(json: any): ParsedTracks {
+    const list = Array.isArray(json) ? json : json?.tracks;
+    if (!Array.isArray(list)) return { tracks: [], errors: [`Expected {"tracks": [...]} or an array of tracks.`] };
+
+    const fixes: { name: string; fix: TrackFix }[] = [];
+    const errors: string[] = [];
+    list.forEach((track: any, i: number) => {
+        const name = typeof track?.name === "string" ? track.name.trim() : "";
+        if (!name || !Array.isArray(track.fixes)) {
+            errors.push(`Track #${i + 1} needs a "name" and a "fixes" array.`);
+            return;
+        }
+        track.fixes.forEach((f: any, j: number) => {
+            try {
+                fixes.push({ name, fix: parseFix(f?.time, f?.position?.[0], f?.position?.[1], `${name} fix #${j + 1}`) });
+            } catch (err) {
+                errors.push((err as Error).message);
+            }
+        });
+    });
+    return { tracks: buildTracks(fixes), errors };
+}
+
+/**
+ * Read tracks from CSV text with name, time, lat and lng columns.
+ */
+export function parseTracksCsv(text: string): ParsedTracks {
+    const [headers = [], ...rows] = parseCsv(text);
+    const normalized = headers.map(h => h.toLowerCase().replace(/[^a-z]/g, ""));
+    const column = Object.fromEntries(Object.entries(CSV_COLUMNS).map(([key, aliases]) =>
+        [key, normalized.findIndex(h => aliases.includes(h))]));
+    const missing = Object.keys(CSV_COLUMNS).filter(key => column[key] < 0);
+    if (missing.length) return { tracks: [], errors: [`Missing column(s): ${missing.join(", ")}.`] };
+
+    const fixes: { name: string; fix: TrackFix }[] = [];
+    const errors: string[] = [];
+    rows.forEach((row, i) => {
+        const cell = (key: string) => (row[column[key]] ?? "").trim();
+        const where = `Row ${i + 2}`;
+        try {
+            if (!cell("name")) throw new Error(`${where}: no name.`);
+            fixes.push({ name: cell("name"), fix: parseFix(cell("time"), cell("lng"), cell("lat"), where) });
+        } catch (err) {
+            errors.push((err as Error).message);
+        }
+    });
+    return { tracks: buildTracks(fixes), errors };
+}
+
+// ---------------------- Sampling ----------------------
+
+/**
+ * Time span covered by a track's fixes.
+ */
+export function trackSpan(track: Track): TimeSpan {
+    return { start: track.fixes[0]?.time ?? Infinity, end: track.fixes[track.fixes.length - 1]?.time ?? -Infinity };
+}
+
+/**
+ * Position and heading of a track at a time, interpolated linearly between fixes. Before the
+ * first fix and after the last the asset stays at that fix, facing along the first or last leg.
+ */
+export function sampleTrack(track: Track, time: number): TrackSample {
+    const { fixes } = track;
+    if (fixes.length === 1) return { position: fixes[0].position, heading: null };
+
+    // Index of the leg [i, i + 1] containing the time, clamped to the first and last legs.
+    let i = 0;
+    while (i < fixes.length - 2 && fixes[i + 1].time <= time) i++;
+    const a = fixes[i];
+    const b = fixes[i + 1];
+    const heading = bearingDeg(a.position, b.position);
+    if (time <= a.time) return { position: a.position, heading };
+    if (time >= b.time) return { position: b.position, heading };
+
+    const t = (time - a.time) / (b.time - a.time);
+    // Cross the antimeridian the short way.
+    let dLng = b.position[0] - a.position[0];
+    if (dLng > 180) dLng -= 360;
+    if (dLng < -180) dLng += 360;
+    let lng = a.position[0] + dLng * t;
+    if (lng > 180) lng -= 360;
+    if (lng < -180) lng += 360;
+    return { position: [lng, a.position[1] + (b.position[1] - a.position[1]) * t], heading };
+}
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * "Tracks" panel: load asset tracks from a JSON or CSV file, and choose whether to draw the
+ * full paths and how long a fading tail follows each asset.
+ */
+
+import { escapeHtml } from './html';
+import { parseTracksJson, parseTracksCsv } from './tracks';
+import type { Track, ParsedTracks } from './tracks';
+
+/** How tracks are drawn. */
+export interface TrackOptions {
+    /** Draw each whole track faintly under its tail. */
+    showPaths: boolean;
+    /** Length of the fading tail behind each asset. */
+    tailMs: number;
+}
+
+/** What the tracks panel needs from the map. */
+export interface TracksHost {
+    /** Replace the loaded tracks; an empty list clears them. */
+    setTracks(tracks: Track[]): void;
+    setOptions(options: TrackOptions): void;
+    /** Return true if a point with this name is on the map. */
+    hasPoint(name: string): boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const TAIL_LENGTHS: { label: string; ms: number }[] = [
+    { label: "30 min", ms: HOUR_MS / 2 },
+    { label: "2 hours", ms: 2 * HOUR_MS },
+    { label: "6 hours", ms: 6 * HOUR_MS },
+    { label: "1 day", ms: 24 * HOUR_MS },
+];
+
+export const DEFAULT_TRACK_OPTIONS: TrackOptions = { showPaths: true, tailMs: TAIL_LENGTHS[1].ms };
+
+/**
+ * Adds the tracks panel to a container.
+ * @param initial - Tracks the map loaded at startup and the file they came from, if any; only reported here.
+ */
+export function addTracksPanel(container: HTMLElement, host: TracksHost, initial: ParsedTracks & { source: string } | null) {
+    let options = { ...DEFAULT_TRACK_OPTIONS };
+
+    const panel = document.createElement("div");
+    panel.id = "tracks-box";
+    panel.className = "legend-box minimized";
+    panel.style.cssText = `margin-top: 8px; width: 220px; font: 13px system-ui, sans-serif;`;
+    panel.innerHTML = `
+        <div class="legend-header"><h2 style="font-size:16px; margin:0;">Tracks</h2><button class="toggle-btn" id="tracks-toggle">+</button></div>
+        <input id="tracks-file" type="file" accept=".json,.csv" style="max-width:100%;">
+        <label><input type="checkbox" id="tracks-paths" ${options.showPaths ? "checked" : ""}> Show full paths</label>
+        <label>Tail
+            <select id="tracks-tail" style="flex:1;">
+                ${TAIL_LENGTHS.map(t => `<option value="${t.ms}" ${t.ms === options.tailMs ? "selected" : ""}>${t.label}</option>`).join('')}
+            </select>
+        </label>
+        <div class="button-section">
+            <button id="tracks-clear-btn">Clear tracks</button>
+        </div>
+        <div id="tracks-status" style="color:#555;"></div>
+        <div id="tracks-errors" style="color:#a00; max-height:80px; overflow-y:auto;"></div>
+    `;
+    container.appendChild(panel);
+
+    const fileInput = panel.querySelector<HTMLInputElement>("#tracks-file")!;
+    const pathsCb = panel.querySelector<HTMLInputElement>("#tracks-paths")!;
+    const tailSelect = panel.querySelector<HTMLSelectElement>("#tracks-tail")!;
+    const status = panel.querySelector<HTMLDivElement>("#tracks-status")!;
+    const errors = panel.querySelector<HTMLDivElement>("#tracks-errors")!;
+
+    /** Report loaded tracks; tracks for points that aren't on the map are listed as problems. */
+    const report = (parsed: ParsedTracks, source: string) => {
+        const unknown = parsed.tracks.filter(t => !host.hasPoint(t.name)).map(t => `No point named "${t.name}"; its track is ignored.`);
+        const names = parsed.tracks.map(t => t.name);
+        status.textContent = names.length
+            ? `${names.length} track(s) from ${source}: ${names.join(", ")}.`
+            : `No tracks in ${source}.`;
+        const problems = [...parsed.errors, ...unknown];
+        errors.innerHTML = problems.slice(0, 20).map(p => `<div>${escapeHtml(p)}</div>`).join('') +
+            (problems.length > 20 ? `<div>…and ${problems.length - 20} more.</div>` : "");
+    };
+
+    fileInput.addEventListener("change", async () => {
+        const file = fileInput.files?.[0];
+        if (!file) return;
+        try {
+            const text = await file.text();
+            const parsed = /\.csv$/i.test(file.name) ? parseTracksCsv(text) : parseTracksJson(JSON.parse(text));
+            host.setTracks(parsed.tracks);
+            report(parsed, file.name);
+        } catch (err) {
+            status.textContent = "";
+            errors.textContent = `Could not read ${file.name}: ${(err as Error).message}`;
+        }
+        fileInput.value = "";
+    });
+
+    panel.querySelector("#tracks-clear-btn")!.addEventListener("click", () => {
+        host.setTracks([]);
+        status.textContent = "No tracks loaded.";
+        errors.textContent = "";
+    });
+
+    const updateOptions = () => {
+        options = { showPaths: pathsCb.checked, tailMs: Number(tailSelect.value) };
+        host.setOptions(options);
+    };
+    pathsCb.addEventListener("change", updateOptions);
+    tailSelect.addEventListener("change", updateOptions);
+
+    const toggle = panel.querySelector<HTMLButtonElement>("#tracks-toggle")!;
+    toggle.addEventListener("click", () => {
+        panel.classList.toggle("minimized");
+        toggle.textContent = panel.classList.contains("minimized") ? "+" : "-";
+    });
+
+    if (initial) report(initial, initial.source);
+    else status.textContent = "No tracks loaded.";
+}
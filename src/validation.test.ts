@@ -0,0 +1,65 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Tests for taxonomy validation and for matching validation issues against the CI baseline.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createBaseline, compareWithBaseline, validateTaxonomy } from './validation';
+import type { DataIssue } from './validation';
+
+function unresolved(index: number, name: string): DataIssue {
+    return {
+        severity: "error",
+        code: "unresolved-endpoint",
+        file: "connections",
+        index,
+        subject: `A → ${name}`,
+        message: `"${name}" does not match any point; A → ${name} is dropped.`,
+    };
+}
+
+describe("validateTaxonomy", () => {
+    const config = {
+        version: 1,
+        defaultGroup: "BLUE",
+        defaultConnection: { color: [128, 128, 128, 200], height: 0.5 },
+        groups: [{ key: "BLUE", label: "Blue", description: "Any point in no other group", color: [0, 120, 255, 220] }],
+        connectionTypes: [{ key: "HF", label: "Pink", description: "High-frequency radio", color: [255, 105, 180, 220] }],
+        ierTypes: [{ key: "LOCATION", label: "Location" }],
+    };
+
+    it("accepts a taxonomy that describes its groups and connection types", () => {
+        expect(validateTaxonomy(config)).toEqual([]);
+    });
+
+    it("requires a description for every group and connection type", () => {
+        const issues = validateTaxonomy({
+            ...config,
+            groups: [{ ...config.groups[0], description: undefined }],
+            connectionTypes: [{ ...config.connectionTypes[0], description: " " }],
+        });
+        expect(issues.map(i => [i.severity, i.subject, i.message])).toEqual([
+            ["error", "BLUE", `group "BLUE" has no "description".`],
+            ["error", "HF", `connection type "HF" has no "description".`],
+        ]);
+    });
+});
+
+describe("compareWithBaseline", () => {
+    const baseline = createBaseline([unresolved(3, "E6"), unresolved(7, "Hub")]);
+
+    it("accepts known issues even after their records move", () => {
+        const result = compareWithBaseline([unresolved(5, "E6"), unresolved(9, "Hub")], baseline);
+        expect(result.known).toHaveLength(2);
+        expect(result.added).toEqual([]);
+        expect(result.fixed).toEqual([]);
+    });
+
+    it("reports new issues, including another copy of a known one", () => {
+        const result = compareWithBaseline([unresolved(3, "E6"), unresolved(4, "E6"), unresolved(8, "LRT")], baseline);
+        expect(result.added.map(i => i.index)).toEqual([4, 8]);
+        expect(result.fixed.map(e => e.message)).toEqual([unresolved(7, "Hub").message]);
+    });
+});
@@ -0,0 +1,456 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Data validation for `connections.json`, `points.json`, `taxonomy.json` and `rules.json`.
+ * - Checks the data files against a minimal structural schema and the taxonomy.
+ * - Reports connections that would be dropped or hidden by the renderer
+ *   (unresolved endpoints, unknown types) instead of losing them silently.
+ *
+ * Pure module: used by the in-app "Data issues" panel and by the headless
+ * `scripts/validate-data.ts` runner.
+ */
+
+import { getProp, getConnType, getIERArray, getPointName } from './model';
+import { matchGroup } from './taxonomy';
+import { parseTime } from './timeline';
+import { hasValidLinkStatus, LINK_STATUSES } from './linkStatus';
+import { getRuleList, ruleProblems } from './rules';
+import type { Taxonomy } from './taxonomy';
+
+// ---------------------- Types ----------------------
+
+export type IssueSeverity = "error" | "warning";
+
+export type IssueCode =
+    | "taxonomy"
+    | "rules"
+    | "schema"
+    | "unresolved-endpoint"
+    | "unknown-connection-type"
+    | "unknown-ier"
+    | "duplicate-point"
+    | "unmapped-pin"
+    | "stale-member"
+    | "bad-coordinates"
+    | "bad-time"
+    | "bad-status";
+
+/** A single problem found in one of the data files. */
+export interface DataIssue {
+    severity: IssueSeverity;
+    code: IssueCode;
+    file: "connections" | "points" | "taxonomy" | "rules";
+    /** Index of the offending record within its file, when known. */
+    index?: number;
+    /** Name of the point, or "from → to" for a connection. */
+    subject?: string;
+    message: string;
+}
+
+/** What the data is checked against. Mirrors the taxonomy the renderer understands. */
+export interface ValidationSchema {
+    connectionTypes: string[];
+    ierTypes: string[];
+    /** Return the group a point's membership rules assign it to, or null if none match. */
+    matchGroup: (d: any) => string | null;
+    /** Exact member names listed in the taxonomy, checked for points that no longer exist. */
+    memberNames: string[];
+    /** Pin group keys, checked in rule conditions. */
+    groups?: string[];
+    /** Names resolvable at runtime even though they are absent from points.json. */
+    extraPointNames?: string[];
+}
+
+/**
+ * Build the validation schema from a loaded taxonomy.
+ */
+export function schemaFromTaxonomy(taxonomy: Taxonomy): ValidationSchema {
+    return {
+        connectionTypes: taxonomy.connectionTypes.map(t => t.key),
+        ierTypes: taxonomy.ierTypes.map(t => t.key),
+        matchGroup: (d: any) => matchGroup(taxonomy, d),
+        memberNames: taxonomy.groups.flatMap(g => g.members?.names ?? []),
+        groups: taxonomy.groups.map(g => g.key),
+    };
+}
+
+/** Human-readable titles for each issue code, used by reports. */
+export const ISSUE_TITLES: Record<IssueCode, string> = {
+    "taxonomy": "Taxonomy errors",
+    "rules": "Connection rule problems",
+    "schema": "Schema violations",
+    "unresolved-endpoint": "Unresolved connection endpoints",
+    "unknown-connection-type": "Unknown connection types",
+    "unknown-ier": "Unknown IER values",
+    "duplicate-point": "Duplicate point names",
+    "unmapped-pin": "Points matching no pin group",
+    "stale-member": "Taxonomy names matching no point",
+    "bad-coordinates": "Bad coordinates",
+    "bad-time": "Bad start/end times",
+    "bad-status": "Unknown link statuses",
+};
+
+// ---------------------- Helpers ----------------------
+
+/**
+ * Return the feature array from a points payload (FeatureCollection or bare array).
+ */
+function getPointFeatures(pointsJson: any): any[] | null {
+    if (pointsJson?.type === "FeatureCollection" && Array.isArray(pointsJson.features)) return pointsJson.features;
+    if (Array.isArray(pointsJson)) return pointsJson;
+    return null;
+}
+
+/**
+ * Return true for a [lng, lat] pair within WGS84 bounds.
+ */
+function isValidLngLat(coords: any): boolean {
+    if (!Array.isArray(coords) || coords.length < 2) return false;
+    const [lng, lat] = coords;
+    return Number.isFinite(lng) && Number.isFinite(lat) &&
+        lng >= -180 && lng <= 180 && lat >= -90 && lat <= 90;
+}
+
+/**
+ * Return true for an [r, g, b] or [r, g, b, a] tuple of 0-255 integers.
+ */
+function isValidColor(color: any): boolean {
+    return Array.isArray(color) && (color.length === 3 || color.length === 4) &&
+        color.every(c => Number.isInteger(c) && c >= 0 && c <= 255);
+}
+
+/**
+ * Return the keys that appear more than once in a list of definitions.
+ */
+function duplicateKeys(defs: { key: string }[]): string[] {
+    const seen = new Set<string>();
+    const duplicates = new Set<string>();
+    defs.forEach(({ key }) => {
+        if (seen.has(key)) duplicates.add(key);
+        seen.add(key);
+    });
+    return Array.from(duplicates);
+}
+
+// ---------------------- Checks ----------------------
+
+/**
+ * Validate the structure of a taxonomy config. Any error means the taxonomy cannot be used as-is.
+ */
+export function validateTaxonomy(config: any): DataIssue[] {
+    const issues: DataIssue[] = [];
+    const error = (message: string, subject?: string) => issues.push({ severity: "error", code: "taxonomy", file: "taxonomy", subject, message });
+
+    if (!config || typeof config !== "object") {
+        error("Expected a taxonomy object.");
+        return issues;
+    }
+    for (const section of ["groups", "connectionTypes", "ierTypes"]) {
+        if (!Array.isArray(config[section])) error(`"${section}" must be an array.`);
+    }
+    if (issues.length > 0) return issues;
+
+    const sections: [string, any[]][] = [["group", config.groups], ["connection type", config.connectionTypes], ["IER type", config.ierTypes]];
+    sections.forEach(([kind, defs]) => {
+        defs.forEach((def: any, i: number) => {
+            if (typeof def?.key !== "string" || !def.key) error(`${kind} #${i} has no "key".`);
+            if (typeof def?.label !== "string") error(`${kind} "${def?.key}" has no "label".`, def?.key);
+            if (kind !== "IER type" && !(typeof def?.description === "string" && def.description.trim())) {
+                error(`${kind} "${def?.key}" has no "description".`, def?.key);
+            }
+        });
+        duplicateKeys(defs.filter((d: any) => typeof d?.key === "string")).forEach(key => error(`${kind} "${key}" is defined more than once.`, key));
+    });
+
+    config.groups.forEach((g: any) => {
+        if (!isValidColor(g?.color)) error(`Group "${g?.key}" has an invalid colour.`, g?.key);
+        (g?.members?.patterns ?? []).forEach((pattern: string) => {
+            try {
+                new RegExp(pattern);
+            } catch {
+                error(`Group "${g?.key}" has an invalid name pattern /${pattern}/.`, g?.key);
+            }
+        });
+    });
+
+    const owners = new Map<string, string>();
+    config.groups.forEach((g: any) => (g?.members?.names ?? []).forEach((name: string) => {
+        const owner = owners.get(name);
+        if (owner && owner !== g.key) {
+            issues.push({ severity: "warning", code: "taxonomy", file: "taxonomy", subject: name, message: `"${name}" is listed in both ${owner} and ${g.key}; ${owner} wins.` });
+        } else {
+            owners.set(name, g.key);
+        }
+    }));
+
+    config.connectionTypes.forEach((t: any) => {
+        if (!isValidColor(t?.color)) error(`Connection type "${t?.key}" has an invalid colour.`, t?.key);
+        if (t?.height !== undefined && !(typeof t.height === "number" && t.height >= 0)) error(`Connection type "${t?.key}" has an invalid arc height.`, t?.key);
+        if (t?.flowSpeed !== undefined && !(typeof t.flowSpeed === "number" && t.flowSpeed > 0)) error(`Connection type "${t?.key}" has an invalid flow speed.`, t?.key);
+    });
+
+    if (!config.groups.some((g: any) => g?.key === config.defaultGroup)) {
+        error(`"defaultGroup" must name one of the groups (got ${JSON.stringify(config.defaultGroup)}).`);
+    }
+    if (!isValidColor(config.defaultConnection?.color) || typeof config.defaultConnection?.height !== "number") {
+        error(`"defaultConnection" needs a colour and a numeric height.`);
+    }
+
+    return issues;
+}
+
+/**
+ * Validate a connection rules file. Broken rules are reported as errors and skipped at runtime;
+ * rules naming unknown connection types or groups are reported as warnings, since they never match.
+ */
+export function validateRules(config: any, schema: ValidationSchema): DataIssue[] {
+    const issues: DataIssue[] = [];
+    const rules = getRuleList(config);
+    if (!rules) {
+        issues.push({ severity: "error", code: "rules", file: "rules", message: `Expected {"rules": [...]} or an array of rules.` });
+        return issues;
+    }
+
+    const knownTypes = new Set(schema.connectionTypes);
+    const knownGroups = schema.groups && new Set(schema.groups);
+    const asList = (value: unknown) => value === undefined ? [] : Array.isArray(value) ? value : [value];
+    const seen = new Set<string>();
+
+    rules.forEach((rule: any, index: number) => {
+        const subject = typeof rule?.id === "string" ? rule.id : `#${index}`;
+        ruleProblems(rule).forEach(problem => {
+            issues.push({ severity: "error", code: "rules", file: "rules", index, subject, message: `Rule ${subject}: ${problem} It is skipped.` });
+        });
+        if (typeof rule?.id === "string") {
+            if (seen.has(rule.id)) {
+                issues.push({ severity: "warning", code: "rules", file: "rules", index, subject, message: `Rule id "${rule.id}" is used more than once.` });
+            }
+            seen.add(rule.id);
+        }
+
+        const when = rule?.when;
+        if (!when || typeof when !== "object") return;
+        asList(when.type).filter(type => !knownTypes.has(type)).forEach(type => {
+            issues.push({ severity: "warning", code: "rules", file: "rules", index, subject, message: `Rule ${subject} names unknown connection type "${type}".` });
+        });
+        [when.from, when.to, when.either].forEach(cond => {
+            asList(cond?.group).filter(group => knownGroups && !knownGroups.has(group)).forEach(group => {
+                issues.push({ severity: "warning", code: "rules", file: "rules", index, subject, message: `Rule ${subject} names unknown group "${group}".` });
+            });
+        });
+    });
+
+    return issues;
+}
+
+/**
+ * Check a record's optional `start`/`end` fields: each must be an ISO-8601 date and `end` must not precede `start`.
+ */
+function validateTimes(d: any, file: "connections" | "points", index: number, subject: string): DataIssue[] {
+    const issues: DataIssue[] = [];
+    const start = parseTime(getProp(d, "start"));
+    const end = parseTime(getProp(d, "end"));
+    if (start === null) {
+        issues.push({ severity: "warning", code: "bad-time", file, index, subject, message: `${subject} has an unreadable start time "${getProp(d, "start")}"; it is treated as always present.` });
+    }
+    if (end === null) {
+        issues.push({ severity: "warning", code: "bad-time", file, index, subject, message: `${subject} has an unreadable end time "${getProp(d, "end")}"; it is treated as never ending.` });
+    }
+    if (typeof start === "number" && typeof end === "number" && end < start) {
+        issues.push({ severity: "warning", code: "bad-time", file, index, subject, message: `${subject} ends before it starts and will never be in the time window.` });
+    }
+    return issues;
+}
+
+/**
+ * Validate points and return the issues plus the set of resolvable names.
+ */
+function validatePoints(pointsJson: any, schema: ValidationSchema): { issues: DataIssue[]; names: Set<string> } {
+    const issues: DataIssue[] = [];
+    const names = new Set<string>();
+    const features = getPointFeatures(pointsJson);
+
+    if (!features) {
+        issues.push({ severity: "error", code: "schema", file: "points", message: "Expected a GeoJSON FeatureCollection or an array of features." });
+        return { issues, names };
+    }
+
+    features.forEach((f: any, index: number) => {
+        const name = getPointName(f);
+        if (typeof name !== "string" || !name.trim()) {
+            issues.push({ severity: "error", code: "schema", file: "points", index, message: `Feature #${index} has no "name" property.` });
+            return;
+        }
+
+        if (f?.geometry?.type !== "Point") {
+            issues.push({ severity: "error", code: "schema", file: "points", index, subject: name, message: `"${name}" is not a Point feature (geometry type: ${f?.geometry?.type ?? "none"}).` });
+        } else if (!isValidLngLat(f.geometry.coordinates)) {
+            issues.push({ severity: "error", code: "bad-coordinates", file: "points", index, subject: name, message: `"${name}" has invalid coordinates ${JSON.stringify(f.geometry.coordinates)}; expected [lng, lat] within range.` });
+        }
+
+        if (names.has(name)) {
+            issues.push({ severity: "error", code: "duplicate-point", file: "points", index, subject: name, message: `"${name}" is defined more than once; only the last definition is used.` });
+        }
+        names.add(name);
+
+        issues.push(...validateTimes(f, "points", index, `"${name}"`));
+
+        if (schema.matchGroup(f) === null) {
+            issues.push({ severity: "warning", code: "unmapped-pin", file: "points", index, subject: name, message: `"${name}" matches no pin group rule and falls back to the default group.` });
+        }
+    });
+
+    schema.memberNames.filter(name => !names.has(name)).forEach(name => {
+        issues.push({ severity: "warning", code: "stale-member", file: "taxonomy", subject: name, message: `Group member "${name}" does not match any point.` });
+    });
+
+    return { issues, names };
+}
+
+/**
+ * Validate connections against the schema and the set of known point names.
+ */
+function validateConnections(connectionsJson: any, pointNames: Set<string>, schema: ValidationSchema): DataIssue[] {
+    const issues: DataIssue[] = [];
+    if (!Array.isArray(connectionsJson)) {
+        issues.push({ severity: "error", code: "schema", file: "connections", message: "Expected an array of connections." });
+        return issues;
+    }
+
+    const knownTypes = new Set(schema.connectionTypes);
+    const knownIer = new Set(schema.ierTypes);
+
+    connectionsJson.forEach((c: any, index: number) => {
+        const from = getProp(c, "from");
+        const to = getProp(c, "to");
+        const subject = `${from} → ${to}`;
+
+        if (typeof from !== "string" || typeof to !== "string") {
+            issues.push({ severity: "error", code: "schema", file: "connections", index, subject, message: `Connection #${index} needs string "from" and "to" names.` });
+            return;
+        }
+
+        [from, to].forEach(name => {
+            if (!pointNames.has(name)) {
+                issues.push({ severity: "error", code: "unresolved-endpoint", file: "connections", index, subject, message: `"${name}" does not match any point; ${subject} is dropped.` });
+            }
+        });
+
+        const connType = getConnType(c);
+        if (!connType) {
+            issues.push({ severity: "error", code: "schema", file: "connections", index, subject, message: `${subject} has no "Connection_type".` });
+        } else if (!knownTypes.has(connType)) {
+            issues.push({ severity: "error", code: "unknown-connection-type", file: "connections", index, subject, message: `${subject} has unknown type "${connType}" and can never be shown.` });
+        }
+
+        const rawIer = getProp(c, "IER");
+        if (rawIer !== undefined && !Array.isArray(rawIer)) {
+            issues.push({ severity: "error", code: "schema", file: "connections", index, subject, message: `${subject} has a non-array "IER" value.` });
+        }
+        getIERArray(c).filter(ier => !knownIer.has(ier)).forEach(ier => {
+            issues.push({ severity: "warning", code: "unknown-ier", file: "connections", index, subject, message: `${subject} has unknown IER value "${ier}".` });
+        });
+
+        issues.push(...validateTimes(c, "connections", index, subject));
+
+        if (!hasValidLinkStatus(c)) {
+            issues.push({ severity: "warning", code: "bad-status", file: "connections", index, subject, message: `${subject} has unknown status "${getProp(c, "status")}" (expected ${LINK_STATUSES.join(", ")}); it is treated as unknown.` });
+        }
+    });
+
+    return issues;
+}
+
+/**
+ * Validate both data files and return every issue found, points first.
+ */
+export function validateData(connectionsJson: unknown, pointsJson: unknown, schema: ValidationSchema): DataIssue[] {
+    const { issues: pointIssues, names } = validatePoints(pointsJson, schema);
+    (schema.extraPointNames ?? []).forEach(name => names.add(name));
+    return [...pointIssues, ...validateConnections(connectionsJson, names, schema)];
+}
+
+/**
+ * Group issues by code, preserving the order of `ISSUE_TITLES`.
+ */
+export function groupIssues(issues: DataIssue[]): [IssueCode, DataIssue[]][] {
+    return (Object.keys(ISSUE_TITLES) as IssueCode[])
+        .map(code => [code, issues.filter(i => i.code === code)] as [IssueCode, DataIssue[]])
+        .filter(([, list]) => list.length > 0);
+}
+
+/**
+ * Render issues as a plain-text report, one section per issue code.
+ */
+export function formatReport(issues: DataIssue[]): string {
+    if (issues.length === 0) return "No data issues found.";
+    const errors = issues.filter(i => i.severity === "error").length;
+    const lines = [`${issues.length} data issue(s): ${errors} error(s), ${issues.length - errors} warning(s).`];
+    groupIssues(issues).forEach(([code, list]) => {
+        lines.push("", `${ISSUE_TITLES[code]} (${list.length})`);
+        list.forEach(i => lines.push(`  [${i.severity}] ${i.file}${i.index !== undefined ? `#${i.index}` : ""}: ${i.message}`));
+    });
+    return lines.join("\n");
+}
+
+// ---------------------- Baseline ----------------------
+
+/**
+ * An accepted issue, identified without its record index so that edits elsewhere in a file
+ * don't turn it into a new one.
+ */
+export interface BaselineEntry {
+    severity: IssueSeverity;
+    code: IssueCode;
+    file: DataIssue["file"];
+    message: string;
+}
+
+/** Known issues that CI tolerates until they're fixed. */
+export interface ValidationBaseline {
+    version: 1;
+    issues: BaselineEntry[];
+}
+
+/**
+ * Return the key an issue is matched against the baseline by.
+ */
+function baselineKey(i: BaselineEntry): string {
+    return `${i.file}|${i.code}|${i.severity}|${i.message}`;
+}
+
+/**
+ * Build a baseline accepting every issue given, in report order.
+ */
+export function createBaseline(issues: DataIssue[]): ValidationBaseline {
+    return {
+        version: 1,
+        issues: issues.map(({ severity, code, file, message }) => ({ severity, code, file, message })),
+    };
+}
+
+/**
+ * Split issues into those the baseline accepts and new ones. Each baseline entry accepts one
+ * issue, so a second copy of a known problem still counts as new. Entries no issue used any
+ * more are returned as `fixed`.
+ */
+export function compareWithBaseline(issues: DataIssue[], baseline: ValidationBaseline): { known: DataIssue[]; added: DataIssue[]; fixed: BaselineEntry[] } {
+    const remaining = new Map<string, BaselineEntry[]>();
+    baseline.issues.forEach(e => {
+        const key = baselineKey(e);
+        remaining.set(key, [...(remaining.get(key) ?? []), e]);
+    });
+    const known: DataIssue[] = [];
+    const added: DataIssue[] = [];
+    issues.forEach(i => {
+        const entries = remaining.get(baselineKey(i));
+        if (entries?.length) {
+            entries.pop();
+            known.push(i);
+        } else {
+            added.push(i);
+        }
+    });
+    return { known, added, fixed: Array.from(remaining.values()).flat() };
+}
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * Tests for the view state URL hash encoding.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { encodeViewState, decodeViewState } from './viewState';
+import type { ViewState } from './viewState';
+
+const state: ViewState = {
+    center: { lat: 38.5, lng: -97.25 },
+    zoom: 4.5,
+    tilt: 30,
+    heading: 90,
+    mapTypeId: "white_map",
+    connTypes: ["N", "HF"],
+    pinGroups: ["RED_GROUP"],
+    ierTypes: [],
+    nodes: ["TB", "Site, with comma", "100%"],
+    nodeMode: "focus",
+    aggregated: true,
+    connLabels: false,
+    pinLabels: true,
+    linkStatuses: ["down", "up"],
+    statusStyle: true,
+    flow: true,
+    siteFilter: "Site, with comma",
+};
+
+describe("view state hash", () => {
+    it("round-trips a complete state", () => {
+        const decoded = decodeViewState(`#${encodeViewState(state)}`);
+        expect(decoded).toEqual({
+            ...state,
+            connTypes: ["HF", "N"],
+            linkStatuses: ["down", "up"],
+        });
+    });
+
+    it("decodes only the keys present", () => {
+        expect(decodeViewState("z=7&agg=1")).toEqual({ zoom: 7, aggregated: true });
+        expect(decodeViewState("flow=0&site=")).toEqual({ flow: false, siteFilter: null });
+    });
+
+    it("ignores malformed values", () => {
+        expect(decodeViewState("c=100,0&z=abc&agg=2&labels=1&nodemode=hide&flow=yes")).toEqual({});
+    });
+});
@@ -0,0 +1,164 @@
+/**
+ * @license
+ * Copyright 2021 Google LLC.
+ *
+ * View state (camera, map type, filters and toggles) and its URL hash encoding,
+ * used for shareable deep links.
+ *
+ * Hash format (all keys optional):
+ *   #c=<lat>,<lng>&z=<zoom>&t=<tilt>&h=<heading>&m=<mapTypeId>
+ *    &conn=<types>&pins=<groups>&ier=<categories>
+ *    &nodes=<site names>&nodemode=<exclude|focus>&agg=<0|1>&labels=<conn><pin>
+ *    &status=<link statuses>&health=<0|1>&flow=<0|1>&site=<site name>
+ *
+ * Site names in `nodes` have "%" and "," percent-encoded, so names may contain commas.
+ * An empty `site` means no site filter.
+ */
+
+import { isNodeFilterMode } from './nodeFilter';
+import type { NodeFilterMode } from './nodeFilter';
+
+/** Complete description of what the map is showing. */
+export interface ViewState {
+    center: { lat: number; lng: number };
+    zoom: number;
+    tilt: number;
+    heading: number;
+    mapTypeId: string;
+    connTypes: string[];
+    pinGroups: string[];
+    ierTypes: string[];
+    /** Sites chosen in the node filter, and whether their links are hidden or the only ones shown. */
+    nodes: string[];
+    nodeMode: NodeFilterMode;
+    aggregated: boolean;
+    connLabels: boolean;
+    pinLabels: boolean;
+    /** Link statuses shown by the status filter. */
+    linkStatuses: string[];
+    /** Status-aware link styling on. */
+    statusStyle: boolean;
+    /** Flow animation along the arcs on. */
+    flow: boolean;
+    /** Site whose links are the only ones shown, or null. */
+    siteFilter: string | null;
+}
+
+/**
+ * Parse a finite number, or return undefined.
+ */
+function parseNumber(value: string | null): number | undefined {
+    if (value === null || value.trim() === "") return undefined;
+    const n = Number(value);
+    return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Parse a comma-separated list; an empty value is an empty list.
+ */
+function parseList(value: string | null): string[] | undefined {
+    if (value === null) return undefined;
+    return value.split(",").filter(Boolean);
+}
+
+/**
+ * Encode a list of names, escaping the separator.
+ */
+function encodeNames(names: string[]): string {
+    return names.map(n => n.replace(/%/g, "%25").replace(/,/g, "%2C")).join(",");
+}
+
+/**
+ * Parse a list written by `encodeNames`; names that don't decode are dropped.
+ */
+function parseNames(value: string | null): string[] | undefined {
+    return parseList(value)?.flatMap(n => {
+        try {
+            return [decodeURIComponent(n)];
+        } catch {
+            return [];
+        }
+    });
+}
+
+/**
+ * Parse a string of 0/1 flags, e.g. "10" -> [true, false].
+ */
+function parseFlags(value: string | null, count: number): boolean[] | undefined {
+    if (value === null || value.length !== count || /[^01]/.test(value)) return undefined;
+    return value.split("").map(f => f === "1");
+}
+
+/**
+ * Encode a view state as a URL hash (without the leading "#").
+ */
+export function encodeViewState(state: ViewState): string {
+    const flag = (b: boolean) => (b ? "1" : "0");
+    const params = new URLSearchParams();
+    params.set("c", `${state.center.lat.toFixed(5)},${state.center.lng.toFixed(5)}`);
+    params.set("z", String(+state.zoom.toFixed(2)));
+    params.set("t", String(Math.round(state.tilt)));
+    params.set("h", String(Math.round(state.heading)));
+    params.set("m", state.mapTypeId);
+    params.set("conn", [...state.connTypes].sort().join(","));
+    params.set("pins", [...state.pinGroups].sort().join(","));
+    params.set("ier", [...state.ierTypes].sort().join(","));
+    params.set("nodes", encodeNames(state.nodes));
+    params.set("nodemode", state.nodeMode);
+    params.set("agg", flag(state.aggregated));
+    params.set("labels", flag(state.connLabels) + flag(state.pinLabels));
+    params.set("status", [...state.linkStatuses].sort().join(","));
+    params.set("health", flag(state.statusStyle));
+    params.set("flow", flag(state.flow));
+    params.set("site", state.siteFilter ?? "");
+    return params.toString();
+}
+
+/**
+ * Decode a URL hash (with or without the leading "#") into the parts of a view state it specifies.
+ * Malformed values are ignored rather than rejected.
+ */
+export function decodeViewState(hash: string): Partial<ViewState> {
+    const params = new URLSearchParams(hash.replace(/^#/, ""));
+    const state: Partial<ViewState> = {};
+
+    const [lat, lng] = (params.get("c") ?? "").split(",").map(v => parseNumber(v));
+    if (lat !== undefined && lng !== undefined && Math.abs(lat) <= 90 && Math.abs(lng) <= 180) {
+        state.center = { lat, lng };
+    }
+
+    const zoom = parseNumber(params.get("z"));
+    if (zoom !== undefined) state.zoom = zoom;
+    const tilt = parseNumber(params.get("t"));
+    if (tilt !== undefined) state.tilt = tilt;
+    const heading = parseNumber(params.get("h"));
+    if (heading !== undefined) state.heading = heading;
+    const mapTypeId = params.get("m");
+    if (mapTypeId) state.mapTypeId = mapTypeId;
+
+    const connTypes = parseList(params.get("conn"));
+    if (connTypes) state.connTypes = connTypes;
+    const pinGroups = parseList(params.get("pins"));
+    if (pinGroups) state.pinGroups = pinGroups;
+    const ierTypes = parseList(params.get("ier"));
+    if (ierTypes) state.ierTypes = ierTypes;
+
+    const nodes = parseNames(params.get("nodes"));
+    if (nodes) state.nodes = nodes;
+    const nodeMode = params.get("nodemode");
+    if (isNodeFilterMode(nodeMode)) state.nodeMode = nodeMode;
+    const agg = parseFlags(params.get("agg"), 1);
+    if (agg) state.aggregated = agg[0];
+    const labels = parseFlags(params.get("labels"), 2);
+    if (labels) [state.connLabels, state.pinLabels] = labels;
+    const linkStatuses = parseList(params.get("status"));
+    if (linkStatuses) state.linkStatuses = linkStatuses;
+    const health = parseFlags(params.get("health"), 1);
+    if (health) state.statusStyle = health[0];
+    const flow = parseFlags(params.get("flow"), 1);
+    if (flow) state.flow = flow[0];
+    const site = params.get("site");
+    if (site !== null) state.siteFilter = site.trim() || null;
+
+    return state;
+}